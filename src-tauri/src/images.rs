@@ -0,0 +1,90 @@
+// Images added to documents: stored in an assets folder beside the
+// document and linked from it by a relative path
+use std::fs;
+use std::path::{Component, Path, PathBuf};
+use tauri::{AppHandle, Manager};
+
+// Just the file name, so a pasted or dropped name cannot point elsewhere
+fn file_name_of(name: &str) -> String {
+    Path::new(name)
+        .file_name()
+        .map(|name| name.to_string_lossy().into_owned())
+        .filter(|name| !name.is_empty())
+        .unwrap_or_else(|| "image.png".to_string())
+}
+
+// First free "name.ext", "name-2.ext", "name-3.ext", ... in `dir`
+fn free_path(dir: &Path, name: &str) -> Result<PathBuf, String> {
+    let (stem, extension) = match name.rfind('.') {
+        Some(dot) if dot > 0 => (&name[..dot], &name[dot..]),
+        _ => (name, ""),
+    };
+    (1..10000)
+        .map(|n| {
+            if n == 1 {
+                dir.join(name)
+            } else {
+                dir.join(format!("{}-{}{}", stem, n, extension))
+            }
+        })
+        .find(|candidate| !candidate.exists())
+        .ok_or_else(|| format!("No free name for {} in {}", name, dir.display()))
+}
+
+// `path` relative to `dir` with forward slashes, as Markdown links write it
+fn link_from(dir: &Path, path: &Path) -> Option<String> {
+    let relative = path.strip_prefix(dir).ok()?;
+    let parts: Vec<String> = relative
+        .components()
+        .map(|part| match part {
+            Component::Normal(name) => Some(name.to_string_lossy().into_owned()),
+            _ => None,
+        })
+        .collect::<Option<_>>()?;
+    Some(parts.join("/"))
+}
+
+// The assets folder for a document, created when missing
+fn assets_dir(document_dir: &Path, folder: &str) -> Result<PathBuf, String> {
+    let dir = document_dir.join(folder);
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+    Ok(dir)
+}
+
+// Write image bytes (a pasted screenshot, a dropped file) into the assets
+// folder without replacing anything; returns the link relative to the document
+#[tauri::command]
+pub fn save_image(document_dir: String, folder: String, name: String, data: Vec<u8>) -> Result<String, String> {
+    let document_dir = Path::new(&document_dir);
+    let target = free_path(&assets_dir(document_dir, &folder)?, &file_name_of(&name))?;
+    fs::write(&target, data).map_err(|e| e.to_string())?;
+    link_from(document_dir, &target).ok_or_else(|| format!("Cannot link to {}", target.display()))
+}
+
+// Copy an image file into the assets folder; returns the link relative to
+// the document. Images already in the document's folder are linked in place
+#[tauri::command]
+pub fn copy_image(document_dir: String, folder: String, source: String) -> Result<String, String> {
+    let document_dir = Path::new(&document_dir);
+    let source = Path::new(&source);
+    if let Some(link) = link_from(document_dir, source) {
+        return Ok(link);
+    }
+    let name = source
+        .file_name()
+        .ok_or_else(|| format!("Not an image file: {}", source.display()))?
+        .to_string_lossy()
+        .into_owned();
+    let target = free_path(&assets_dir(document_dir, &folder)?, &name)?;
+    fs::copy(source, &target).map_err(|e| e.to_string())?;
+    link_from(document_dir, &target).ok_or_else(|| format!("Cannot link to {}", target.display()))
+}
+
+// Let the webview load images below `dir` (an opened document's folder or
+// the workspace) through the asset protocol, whose scope starts out empty
+#[tauri::command]
+pub fn allow_image_folder(app: AppHandle, dir: String) -> Result<(), String> {
+    app.asset_protocol_scope()
+        .allow_directory(&dir, true)
+        .map_err(|e| e.to_string())
+}
@@ -0,0 +1,96 @@
+// Crash-recovery journal: the unsaved content of modified tabs, kept in the
+// app data directory so it survives the app being killed
+use serde::{Deserialize, Serialize};
+use std::fs;
+use std::path::{Path, PathBuf};
+
+use crate::watcher::modified_millis;
+
+#[derive(Serialize, Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct JournalEntry {
+    pub tab_id: String,
+    pub title: String,
+    pub file_path: Option<String>,
+    pub content: String,
+    pub saved_at: u64, // Milliseconds since the Unix epoch
+}
+
+// A journal entry together with the modification time of its file on disk
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct JournalRecord {
+    #[serde(flatten)]
+    pub entry: JournalEntry,
+    pub disk_modified: Option<u64>,
+}
+
+fn journal_dir(app: &tauri::AppHandle) -> Result<PathBuf, String> {
+    app.path_resolver()
+        .app_data_dir()
+        .map(|dir| dir.join("journal"))
+        .ok_or_else(|| "App data directory is unavailable".to_string())
+}
+
+// One file per tab; tab ids are generated by the app but are sanitized anyway
+fn entry_path(dir: &Path, tab_id: &str) -> PathBuf {
+    let name: String = tab_id
+        .chars()
+        .map(|c| if c.is_ascii_alphanumeric() || c == '-' || c == '_' { c } else { '_' })
+        .collect();
+    dir.join(format!("{}.json", name))
+}
+
+#[tauri::command]
+pub fn write_journal_entry(app: tauri::AppHandle, entry: JournalEntry) -> Result<(), String> {
+    let dir = journal_dir(&app)?;
+    fs::create_dir_all(&dir).map_err(|e| e.to_string())?;
+
+    // Write to a temporary file first so a crash never leaves a torn entry
+    let path = entry_path(&dir, &entry.tab_id);
+    let temp = path.with_extension("json.tmp");
+    let json = serde_json::to_string(&entry).map_err(|e| e.to_string())?;
+    fs::write(&temp, json).map_err(|e| e.to_string())?;
+    fs::rename(&temp, &path).map_err(|e| e.to_string())
+}
+
+#[tauri::command]
+pub fn remove_journal_entry(app: tauri::AppHandle, tab_id: String) -> Result<(), String> {
+    let path = entry_path(&journal_dir(&app)?, &tab_id);
+    match fs::remove_file(path) {
+        Err(e) if e.kind() != std::io::ErrorKind::NotFound => Err(e.to_string()),
+        _ => Ok(()),
+    }
+}
+
+#[tauri::command]
+pub fn read_journal(app: tauri::AppHandle) -> Result<Vec<JournalRecord>, String> {
+    let dir = journal_dir(&app)?;
+    let entries = match fs::read_dir(&dir) {
+        Ok(entries) => entries,
+        Err(_) => return Ok(Vec::new()),
+    };
+
+    let mut records = Vec::new();
+    for item in entries.flatten() {
+        let path = item.path();
+        if path.extension().and_then(|ext| ext.to_str()) != Some("json") {
+            continue;
+        }
+        // Skip unreadable or malformed entries rather than failing the whole read
+        let entry: JournalEntry = match fs::read_to_string(&path)
+            .ok()
+            .and_then(|text| serde_json::from_str(&text).ok())
+        {
+            Some(entry) => entry,
+            None => continue,
+        };
+        let disk_modified = entry
+            .file_path
+            .as_deref()
+            .and_then(|file| modified_millis(Path::new(file)));
+        records.push(JournalRecord { entry, disk_modified });
+    }
+    records.sort_by_key(|record| record.entry.saved_at);
+    Ok(records)
+}
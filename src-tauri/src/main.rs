@@ -1,6 +1,13 @@
 // Prevents additional console window on Windows in release, DO NOT REMOVE!!
 #![cfg_attr(not(debug_assertions), windows_subsystem = "windows")]
 
+mod images;
+mod journal;
+mod pdf;
+mod search;
+mod watcher;
+mod workspace;
+
 // Learn more about Tauri commands at https://tauri.app/v1/guides/features/command
 #[tauri::command]
 fn greet(name: &str) -> String {
@@ -9,7 +16,28 @@ fn greet(name: &str) -> String {
 
 fn main() {
     tauri::Builder::default()
-        .invoke_handler(tauri::generate_handler![greet])
+        .manage(watcher::FileWatcher::default())
+        .manage(workspace::WorkspaceWatcher::default())
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            journal::write_journal_entry,
+            journal::remove_journal_entry,
+            journal::read_journal,
+            watcher::watch_files,
+            watcher::file_mtime,
+            search::search_files,
+            search::replace_in_files,
+            workspace::read_workspace,
+            workspace::create_entry,
+            workspace::move_entry,
+            workspace::duplicate_entry,
+            workspace::trash_entry,
+            workspace::watch_workspace,
+            pdf::export_pdf,
+            images::save_image,
+            images::copy_image,
+            images::allow_image_folder
+        ])
         .run(tauri::generate_context!())
         .expect("error while running tauri application");
 }
\ No newline at end of file
@@ -0,0 +1,106 @@
+// PDF export: print the page built by the frontend with a headless copy of
+// the Chromium engine already on the machine (Edge ships with Windows), so
+// nothing is uploaded and no extra runtime has to be bundled
+use headless_chrome::browser::default_executable;
+use headless_chrome::types::PrintToPdfOptions;
+use headless_chrome::{Browser, LaunchOptions};
+use serde::Deserialize;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::time::{SystemTime, UNIX_EPOCH};
+use url::Url;
+
+// Page setup; lengths are in inches, as Chromium takes them
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct PdfOptions {
+    paper_width: f64,
+    paper_height: f64,
+    landscape: bool,
+    margin_top: f64,
+    margin_right: f64,
+    margin_bottom: f64,
+    margin_left: f64,
+    header_template: String, // Chromium header/footer HTML; empty for none
+    footer_template: String,
+}
+
+// Well-known install locations, tried before searching the PATH
+const BROWSER_PATHS: [&str; 6] = [
+    r"C:\Program Files (x86)\Microsoft\Edge\Application\msedge.exe",
+    r"C:\Program Files\Microsoft\Edge\Application\msedge.exe",
+    r"C:\Program Files\Google\Chrome\Application\chrome.exe",
+    "/Applications/Microsoft Edge.app/Contents/MacOS/Microsoft Edge",
+    "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
+    "/Applications/Chromium.app/Contents/MacOS/Chromium",
+];
+
+fn find_browser() -> Result<PathBuf, String> {
+    if let Some(path) = BROWSER_PATHS.iter().map(PathBuf::from).find(|path| path.is_file()) {
+        return Ok(path);
+    }
+    default_executable().map_err(|_| {
+        "No Chromium-based browser (Edge, Chrome or Chromium) was found to render the PDF".to_string()
+    })
+}
+
+// Chromium prints its own default header and footer for empty templates
+fn template_or_blank(template: String) -> String {
+    if template.is_empty() {
+        "<span></span>".to_string()
+    } else {
+        template
+    }
+}
+
+fn render_pdf(page: &Path, options: PdfOptions) -> Result<Vec<u8>, String> {
+    let launch = LaunchOptions::default_builder()
+        .path(Some(find_browser()?))
+        .headless(true)
+        .build()
+        .map_err(|e| e.to_string())?;
+    let browser = Browser::new(launch).map_err(|e| e.to_string())?;
+    let tab = browser.new_tab().map_err(|e| e.to_string())?;
+
+    // Percent-encoded, so `#`, `%`, `?` and non-ASCII names survive
+    let url = Url::from_file_path(page)
+        .map_err(|_| format!("Cannot load {} in the browser", page.display()))?;
+    tab.navigate_to(url.as_str())
+        .and_then(|tab| tab.wait_until_navigated())
+        .map_err(|e| e.to_string())?;
+
+    let show_header_footer =
+        !options.header_template.is_empty() || !options.footer_template.is_empty();
+    tab.print_to_pdf(Some(PrintToPdfOptions {
+        landscape: Some(options.landscape),
+        display_header_footer: Some(show_header_footer),
+        print_background: Some(true),
+        paper_width: Some(options.paper_width),
+        paper_height: Some(options.paper_height),
+        margin_top: Some(options.margin_top),
+        margin_right: Some(options.margin_right),
+        margin_bottom: Some(options.margin_bottom),
+        margin_left: Some(options.margin_left),
+        header_template: Some(template_or_blank(options.header_template)),
+        footer_template: Some(template_or_blank(options.footer_template)),
+        ..Default::default()
+    }))
+    .map_err(|e| e.to_string())
+}
+
+// Print `html` (a complete page with everything inlined) to `target`.
+// Async so the browser start-up runs off the main thread
+#[tauri::command]
+pub async fn export_pdf(html: String, target: String, options: PdfOptions) -> Result<(), String> {
+    // The page is loaded from a file; long documents are too big for a data URL
+    let stamp = SystemTime::now()
+        .duration_since(UNIX_EPOCH)
+        .map(|d| d.as_millis())
+        .unwrap_or_default();
+    let page = std::env::temp_dir().join(format!("docmarkings-export-{}.html", stamp));
+    fs::write(&page, html).map_err(|e| e.to_string())?;
+
+    let result = render_pdf(&page, options);
+    let _ = fs::remove_file(&page);
+    fs::write(&target, result?).map_err(|e| e.to_string())
+}
@@ -0,0 +1,256 @@
+// Find in Files: search the Markdown files under a folder, honouring
+// .gitignore, and apply previewed replacements
+use ignore::overrides::OverrideBuilder;
+use ignore::WalkBuilder;
+use regex::{Regex, RegexBuilder};
+use serde::{Deserialize, Serialize};
+use std::collections::HashMap;
+use std::fs;
+use std::path::Path;
+
+// Stop collecting once this many matches have been found
+const MAX_MATCHES: usize = 10_000;
+
+// Files searched when no include globs are given
+const DEFAULT_INCLUDE: [&str; 2] = ["*.md", "*.markdown"];
+
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FileSearchQuery {
+    pub search: String,
+    pub case_sensitive: bool,
+    pub regex: bool,
+    pub whole_word: bool,
+}
+
+// One match; columns and lengths count UTF-16 code units like JavaScript strings
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LineMatch {
+    line: usize, // 1-based
+    column: usize,
+    length: usize,
+    text: String, // The whole line, for context
+    captures: Vec<Option<String>>,
+    named: HashMap<String, String>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FileMatches {
+    path: String,
+    matches: Vec<LineMatch>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FileSearchResults {
+    files: Vec<FileMatches>,
+    truncated: bool, // Stopped early at MAX_MATCHES
+}
+
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LineReplacement {
+    line: usize,
+    column: usize,
+    length: usize,
+    expected: String, // Text the match must still have, or the file is left alone
+    replacement: String,
+}
+
+#[derive(Deserialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FileEdit {
+    path: String,
+    replacements: Vec<LineReplacement>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct FileEditResult {
+    path: String,
+    replaced: usize,
+    error: Option<String>,
+}
+
+fn build_regex(query: &FileSearchQuery) -> Result<Regex, String> {
+    let pattern = if query.regex {
+        query.search.clone()
+    } else {
+        regex::escape(&query.search)
+    };
+    RegexBuilder::new(&pattern)
+        .case_insensitive(!query.case_sensitive)
+        .build()
+        .map_err(|e| e.to_string())
+}
+
+fn is_word_char(c: char) -> bool {
+    c.is_alphanumeric() || c == '_'
+}
+
+// Whether no word character touches either end of line[start..end]
+fn is_whole_word(line: &str, start: usize, end: usize) -> bool {
+    let before = line[..start].chars().next_back().map_or(false, is_word_char);
+    let after = line[end..].chars().next().map_or(false, is_word_char);
+    !before && !after
+}
+
+fn utf16_len(text: &str) -> usize {
+    text.encode_utf16().count()
+}
+
+// Byte index of a UTF-16 column within a line
+fn byte_index(line: &str, column: usize) -> Option<usize> {
+    let mut units = 0;
+    for (index, c) in line.char_indices() {
+        if units == column {
+            return Some(index);
+        }
+        units += c.len_utf16();
+    }
+    if units == column {
+        Some(line.len())
+    } else {
+        None
+    }
+}
+
+fn search_text(text: &str, regex: &Regex, whole_word: bool, budget: usize) -> Vec<LineMatch> {
+    let mut matches = Vec::new();
+    for (index, raw_line) in text.split('\n').enumerate() {
+        let line = raw_line.strip_suffix('\r').unwrap_or(raw_line);
+        // Searched by hand rather than with captures_iter, so that a match
+        // rejected as part of a longer word does not hide one overlapping it
+        let mut from = 0;
+        while let Some(captures) = regex.captures_at(line, from) {
+            let whole = captures.get(0).expect("group 0 always matches");
+            if whole.as_str().is_empty() || (whole_word && !is_whole_word(line, whole.start(), whole.end())) {
+                match line[whole.start()..].chars().next() {
+                    Some(c) => from = whole.start() + c.len_utf8(),
+                    None => break,
+                }
+                continue;
+            }
+            from = whole.end();
+            let named = regex
+                .capture_names()
+                .flatten()
+                .filter_map(|name| captures.name(name).map(|m| (name.to_string(), m.as_str().to_string())))
+                .collect();
+            matches.push(LineMatch {
+                line: index + 1,
+                column: utf16_len(&line[..whole.start()]),
+                length: utf16_len(whole.as_str()),
+                text: line.to_string(),
+                captures: captures.iter().map(|m| m.map(|m| m.as_str().to_string())).collect(),
+                named,
+            });
+            if matches.len() >= budget {
+                return matches;
+            }
+        }
+    }
+    matches
+}
+
+#[tauri::command]
+pub async fn search_files(
+    root: String,
+    query: FileSearchQuery,
+    include: Vec<String>,
+    exclude: Vec<String>,
+) -> Result<FileSearchResults, String> {
+    let regex = build_regex(&query)?;
+
+    let mut overrides = OverrideBuilder::new(&root);
+    if include.is_empty() {
+        for glob in DEFAULT_INCLUDE {
+            overrides.add(glob).map_err(|e| e.to_string())?;
+        }
+    }
+    for glob in &include {
+        overrides.add(glob).map_err(|e| e.to_string())?;
+    }
+    for glob in &exclude {
+        overrides.add(&format!("!{}", glob)).map_err(|e| e.to_string())?;
+    }
+    let overrides = overrides.build().map_err(|e| e.to_string())?;
+
+    let walker = WalkBuilder::new(&root)
+        .overrides(overrides)
+        .require_git(false) // Honour .gitignore even outside a repository
+        .sort_by_file_path(|a, b| a.cmp(b))
+        .build();
+
+    let mut files = Vec::new();
+    let mut total = 0;
+    let mut truncated = false;
+    for entry in walker.flatten() {
+        if !entry.file_type().map_or(false, |kind| kind.is_file()) {
+            continue;
+        }
+        // Binary and non-UTF-8 files cannot hold Markdown matches
+        let text = match fs::read_to_string(entry.path()) {
+            Ok(text) => text,
+            Err(_) => continue,
+        };
+        let text = text.strip_prefix('\u{FEFF}').unwrap_or(&text);
+        let matches = search_text(text, &regex, query.whole_word, MAX_MATCHES - total);
+        if matches.is_empty() {
+            continue;
+        }
+        total += matches.len();
+        files.push(FileMatches {
+            path: entry.path().to_string_lossy().into_owned(),
+            matches,
+        });
+        if total >= MAX_MATCHES {
+            truncated = true;
+            break;
+        }
+    }
+
+    Ok(FileSearchResults { files, truncated })
+}
+
+fn apply_edit(edit: &FileEdit) -> Result<usize, String> {
+    let content = fs::read_to_string(Path::new(&edit.path)).map_err(|e| e.to_string())?;
+    let (bom, text) = match content.strip_prefix('\u{FEFF}') {
+        Some(text) => ("\u{FEFF}", text),
+        None => ("", content.as_str()),
+    };
+    let mut lines: Vec<String> = text.split('\n').map(str::to_string).collect();
+
+    // Right to left within a line, so earlier columns stay valid
+    let mut replacements: Vec<&LineReplacement> = edit.replacements.iter().collect();
+    replacements.sort_by(|a, b| (b.line, b.column).cmp(&(a.line, a.column)));
+
+    for replacement in &replacements {
+        let stale = || "changed since it was searched".to_string();
+        let line = lines.get_mut(replacement.line.wrapping_sub(1)).ok_or_else(stale)?;
+        let start = byte_index(line, replacement.column).ok_or_else(stale)?;
+        let end = start
+            + byte_index(&line[start..], replacement.length).ok_or_else(stale)?;
+        if line[start..end] != replacement.expected {
+            return Err(stale());
+        }
+        line.replace_range(start..end, &replacement.replacement);
+    }
+
+    fs::write(&edit.path, format!("{}{}", bom, lines.join("\n"))).map_err(|e| e.to_string())?;
+    Ok(replacements.len())
+}
+
+// Apply replacements file by file; a file that changed since the search is skipped
+#[tauri::command]
+pub async fn replace_in_files(edits: Vec<FileEdit>) -> Vec<FileEditResult> {
+    edits
+        .iter()
+        .map(|edit| match apply_edit(edit) {
+            Ok(replaced) => FileEditResult { path: edit.path.clone(), replaced, error: None },
+            Err(error) => FileEditResult { path: edit.path.clone(), replaced: 0, error: Some(error) },
+        })
+        .collect()
+}
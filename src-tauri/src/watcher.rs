@@ -0,0 +1,133 @@
+// Watches the files open in tabs and tells the frontend when another
+// program modifies, renames or deletes one of them
+use notify::event::{AccessKind, AccessMode, MetadataKind, ModifyKind, RenameMode};
+use notify::{Config, Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::Serialize;
+use std::collections::{HashMap, HashSet};
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::{Arc, Mutex};
+use std::time::UNIX_EPOCH;
+use tauri::Manager;
+
+// Payload of the `file-changed` event
+#[derive(Clone, Serialize)]
+#[serde(rename_all = "camelCase")]
+struct FileChange {
+    path: String,             // Path exactly as the frontend registered it
+    kind: &'static str,       // "modified", "removed" or "renamed"
+    new_path: Option<String>, // Destination of a rename
+}
+
+#[derive(Default)]
+pub struct FileWatcher {
+    watcher: Mutex<Option<RecommendedWatcher>>,
+    // Watched files, mapped to the path string the frontend uses for them
+    files: Arc<Mutex<HashMap<PathBuf, String>>>,
+    // Parent directories being watched. Watching directories rather than the
+    // files themselves keeps working when a tool saves by replacing the file
+    dirs: Mutex<HashSet<PathBuf>>,
+}
+
+pub fn modified_millis(path: &Path) -> Option<u64> {
+    let modified = fs::metadata(path).ok()?.modified().ok()?;
+    Some(modified.duration_since(UNIX_EPOCH).ok()?.as_millis() as u64)
+}
+
+fn emit_change(
+    app: &tauri::AppHandle,
+    files: &HashMap<PathBuf, String>,
+    path: &Path,
+    kind: &'static str,
+    new_path: Option<&Path>,
+) {
+    if let Some(original) = files.get(path) {
+        let change = FileChange {
+            path: original.clone(),
+            kind,
+            new_path: new_path.map(|p| p.to_string_lossy().into_owned()),
+        };
+        let _ = app.emit_all("file-changed", change);
+    }
+}
+
+fn handle_event(app: &tauri::AppHandle, files: &HashMap<PathBuf, String>, event: Event) {
+    match event.kind {
+        EventKind::Modify(ModifyKind::Name(RenameMode::Both)) if event.paths.len() == 2 => {
+            emit_change(app, files, &event.paths[0], "renamed", Some(&event.paths[1]));
+            // Renaming a temporary file over an open file is how many tools save
+            emit_change(app, files, &event.paths[1], "modified", None);
+        }
+        EventKind::Modify(ModifyKind::Name(_)) | EventKind::Remove(_) => {
+            for path in &event.paths {
+                let kind = if path.exists() { "modified" } else { "removed" };
+                emit_change(app, files, path, kind, None);
+            }
+        }
+        // Reading a file must not look like a change to it
+        EventKind::Modify(ModifyKind::Metadata(MetadataKind::AccessTime)) => {}
+        EventKind::Create(_)
+        | EventKind::Modify(_)
+        | EventKind::Access(AccessKind::Close(AccessMode::Write)) => {
+            for path in &event.paths {
+                emit_change(app, files, path, "modified", None);
+            }
+        }
+        _ => {}
+    }
+}
+
+// Replace the set of watched files with `paths`
+#[tauri::command]
+pub fn watch_files(
+    app: tauri::AppHandle,
+    state: tauri::State<FileWatcher>,
+    paths: Vec<String>,
+) -> Result<(), String> {
+    let mut guard = state.watcher.lock().map_err(|e| e.to_string())?;
+    if guard.is_none() {
+        let files = Arc::clone(&state.files);
+        let handle = app.clone();
+        let watcher = RecommendedWatcher::new(
+            move |result: notify::Result<Event>| {
+                if let (Ok(event), Ok(files)) = (result, files.lock()) {
+                    handle_event(&handle, &files, event);
+                }
+            },
+            Config::default(),
+        )
+        .map_err(|e| e.to_string())?;
+        *guard = Some(watcher);
+    }
+    let watcher = guard.as_mut().expect("watcher was just created");
+
+    let files: HashMap<PathBuf, String> = paths
+        .into_iter()
+        .map(|path| (PathBuf::from(&path), path))
+        .collect();
+    let dirs: HashSet<PathBuf> = files
+        .keys()
+        .filter_map(|path| path.parent().map(Path::to_path_buf))
+        .collect();
+
+    let mut watched = state.dirs.lock().map_err(|e| e.to_string())?;
+    for dir in watched.difference(&dirs) {
+        let _ = watcher.unwatch(dir);
+    }
+    let added: Vec<PathBuf> = dirs.difference(&watched).cloned().collect();
+    for dir in added {
+        // A folder that has gone away cannot be watched; its files show up as removed
+        if let Err(e) = watcher.watch(&dir, RecursiveMode::NonRecursive) {
+            eprintln!("Failed to watch {}: {}", dir.display(), e);
+        }
+    }
+    *watched = dirs;
+    *state.files.lock().map_err(|e| e.to_string())? = files;
+    Ok(())
+}
+
+// Last modification time of a file in milliseconds, or null if it does not exist
+#[tauri::command]
+pub fn file_mtime(path: String) -> Option<u64> {
+    modified_millis(Path::new(&path))
+}
@@ -0,0 +1,217 @@
+// Workspace folder: the file tree shown in the sidebar, the file operations
+// it offers, and a watcher that keeps the tree current
+use ignore::WalkBuilder;
+use notify::event::ModifyKind;
+use notify::{Config, Event, EventKind, RecommendedWatcher, RecursiveMode, Watcher};
+use serde::Serialize;
+use std::fs;
+use std::path::{Path, PathBuf};
+use std::sync::Mutex;
+use tauri::Manager;
+
+// Files listed in the tree, matching the open dialog's filter
+const DOCUMENT_EXTENSIONS: [&str; 3] = ["md", "markdown", "txt"];
+
+// Also listed when the sidebar shows images
+const IMAGE_EXTENSIONS: [&str; 7] = ["png", "jpg", "jpeg", "gif", "svg", "webp", "bmp"];
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct TreeEntry {
+    name: String,
+    path: String,
+    is_dir: bool,
+    children: Vec<TreeEntry>, // Empty for files
+}
+
+#[derive(Default)]
+pub struct WorkspaceWatcher {
+    watcher: Mutex<Option<RecommendedWatcher>>,
+}
+
+fn has_extension(path: &Path, extensions: &[&str]) -> bool {
+    path.extension()
+        .and_then(|ext| ext.to_str())
+        .map_or(false, |ext| extensions.iter().any(|known| ext.eq_ignore_ascii_case(known)))
+}
+
+// Folders first, then case-insensitive by name, at every level
+fn sort_tree(entries: &mut Vec<TreeEntry>) {
+    entries.sort_by(|a, b| {
+        b.is_dir
+            .cmp(&a.is_dir)
+            .then_with(|| a.name.to_lowercase().cmp(&b.name.to_lowercase()))
+    });
+    for entry in entries.iter_mut() {
+        sort_tree(&mut entry.children);
+    }
+}
+
+fn tree_entry(path: &Path, is_dir: bool) -> TreeEntry {
+    TreeEntry {
+        name: path.file_name().map_or_else(String::new, |name| name.to_string_lossy().into_owned()),
+        path: path.to_string_lossy().into_owned(),
+        is_dir,
+        children: Vec::new(),
+    }
+}
+
+// The folder's documents (and images) as a tree, skipping hidden and
+// .gitignored entries. Empty folders are kept so new files can go in them
+#[tauri::command]
+pub async fn read_workspace(root: String, include_images: bool) -> Result<Vec<TreeEntry>, String> {
+    if !Path::new(&root).is_dir() {
+        return Err(format!("{} is not a folder", root));
+    }
+
+    // The walk is depth first, so the stack holds the chain of open folders
+    let mut stack = vec![tree_entry(Path::new(&root), true)];
+    for entry in WalkBuilder::new(&root).require_git(false).build().flatten() {
+        let depth = entry.depth();
+        if depth == 0 {
+            continue;
+        }
+        while stack.len() > depth {
+            let done = stack.pop().expect("stack holds the root");
+            stack.last_mut().expect("stack holds the root").children.push(done);
+        }
+
+        let is_dir = entry.file_type().map_or(false, |kind| kind.is_dir());
+        let path = entry.path();
+        if is_dir {
+            stack.push(tree_entry(path, true));
+        } else if has_extension(path, &DOCUMENT_EXTENSIONS)
+            || (include_images && has_extension(path, &IMAGE_EXTENSIONS))
+        {
+            stack.last_mut().expect("stack holds the root").children.push(tree_entry(path, false));
+        }
+    }
+    while stack.len() > 1 {
+        let done = stack.pop().expect("stack holds the root");
+        stack.last_mut().expect("stack holds the root").children.push(done);
+    }
+
+    let mut entries = stack.pop().expect("stack holds the root").children;
+    sort_tree(&mut entries);
+    Ok(entries)
+}
+
+// Create an empty file or folder; never replaces an existing one
+#[tauri::command]
+pub fn create_entry(path: String, directory: bool) -> Result<(), String> {
+    let path = Path::new(&path);
+    if path.exists() {
+        return Err(format!("{} already exists", path.display()));
+    }
+    if directory {
+        fs::create_dir(path).map_err(|e| e.to_string())
+    } else {
+        fs::OpenOptions::new()
+            .write(true)
+            .create_new(true)
+            .open(path)
+            .map(|_| ())
+            .map_err(|e| e.to_string())
+    }
+}
+
+// Rename or move a file or folder; never replaces an existing one
+#[tauri::command]
+pub fn move_entry(from: String, to: String) -> Result<(), String> {
+    let (from, to) = (Path::new(&from), Path::new(&to));
+    // On case-insensitive file systems a case-only rename finds itself
+    let same_entry = to.exists() && fs::canonicalize(from).ok() == fs::canonicalize(to).ok();
+    if to.exists() && !same_entry {
+        return Err(format!("{} already exists", to.display()));
+    }
+    if to.starts_with(from) && !same_entry {
+        return Err("A folder cannot be moved into itself".to_string());
+    }
+    fs::rename(from, to).map_err(|e| e.to_string())
+}
+
+fn copy_dir(from: &Path, to: &Path) -> std::io::Result<()> {
+    fs::create_dir(to)?;
+    for entry in fs::read_dir(from)? {
+        let entry = entry?;
+        let target = to.join(entry.file_name());
+        if entry.file_type()?.is_dir() {
+            copy_dir(&entry.path(), &target)?;
+        } else {
+            fs::copy(entry.path(), &target)?;
+        }
+    }
+    Ok(())
+}
+
+// First free "name copy.ext", "name copy 2.ext", ... beside `path`
+fn copy_path(path: &Path) -> Option<PathBuf> {
+    let parent = path.parent()?;
+    let name = path.file_name()?.to_string_lossy().into_owned();
+    let (stem, extension) = match name.rfind('.') {
+        Some(dot) if dot > 0 && !path.is_dir() => (&name[..dot], &name[dot..]),
+        _ => (name.as_str(), ""),
+    };
+    (1..1000)
+        .map(|n| {
+            let suffix = if n == 1 { " copy".to_string() } else { format!(" copy {}", n) };
+            parent.join(format!("{}{}{}", stem, suffix, extension))
+        })
+        .find(|candidate| !candidate.exists())
+}
+
+// Copy a file or folder next to itself; returns the copy's path
+#[tauri::command]
+pub fn duplicate_entry(path: String) -> Result<String, String> {
+    let path = Path::new(&path);
+    let target = copy_path(path).ok_or_else(|| format!("Cannot duplicate {}", path.display()))?;
+    if path.is_dir() {
+        copy_dir(path, &target).map_err(|e| e.to_string())?;
+    } else {
+        fs::copy(path, &target).map_err(|e| e.to_string())?;
+    }
+    Ok(target.to_string_lossy().into_owned())
+}
+
+// Move a file or folder to the system trash rather than deleting it
+#[tauri::command]
+pub fn trash_entry(path: String) -> Result<(), String> {
+    trash::delete(&path).map_err(|e| e.to_string())
+}
+
+// Watch the workspace folder (or stop, with null) and emit
+// `workspace-changed` when entries are created, removed or renamed
+#[tauri::command]
+pub fn watch_workspace(
+    app: tauri::AppHandle,
+    state: tauri::State<WorkspaceWatcher>,
+    root: Option<String>,
+) -> Result<(), String> {
+    let mut guard = state.watcher.lock().map_err(|e| e.to_string())?;
+    // Dropping the old watcher stops it
+    *guard = None;
+    let root = match root {
+        Some(root) => root,
+        None => return Ok(()),
+    };
+
+    let mut watcher = RecommendedWatcher::new(
+        move |result: notify::Result<Event>| {
+            if let Ok(event) = result {
+                if matches!(
+                    event.kind,
+                    EventKind::Create(_) | EventKind::Remove(_) | EventKind::Modify(ModifyKind::Name(_))
+                ) {
+                    let _ = app.emit_all("workspace-changed", ());
+                }
+            }
+        },
+        Config::default(),
+    )
+    .map_err(|e| e.to_string())?;
+    watcher
+        .watch(Path::new(&root), RecursiveMode::Recursive)
+        .map_err(|e| e.to_string())?;
+    *guard = Some(watcher);
+    Ok(())
+}
@@ -1,5 +1,5 @@
-import { useState, useCallback, useEffect } from 'react';
-import { useEditor, EditorContent } from '@tiptap/react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { useEditor, EditorContent, Editor } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import Table from '@tiptap/extension-table';
 import TableRow from '@tiptap/extension-table-row';
@@ -7,37 +7,261 @@ import TableHeader from '@tiptap/extension-table-header';
 import TableCell from '@tiptap/extension-table-cell';
 import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
 import Link from '@tiptap/extension-link';
-import Image from '@tiptap/extension-image';
 import TaskList from '@tiptap/extension-task-list';
 import TaskItem from '@tiptap/extension-task-item';
 import { createLowlight, common } from 'lowlight';
 import { fs } from '@tauri-apps/api';
-import { open, save, confirm } from '@tauri-apps/api/dialog';
-import { appWindow } from '@tauri-apps/api/window';
-import Toolbar from './components/Toolbar';
+import { open, save, confirm, message } from '@tauri-apps/api/dialog';
+import { readText } from '@tauri-apps/api/clipboard';
+import { open as openExternal } from '@tauri-apps/api/shell';
+import { CloseRequestedEvent, appWindow } from '@tauri-apps/api/window';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EditorState, NodeSelection, Selection } from '@tiptap/pm/state';
+import Toolbar, { ViewMode } from './components/Toolbar';
 import FindReplaceDialog from './components/FindReplaceDialog';
 import TabBar from './components/TabBar';
+import SourcePane, { SourcePaneHandle } from './components/SourcePane';
+import MarkdownAttributes from './extensions/MarkdownAttributes';
+import SearchAndReplace, { expandReplacement } from './extensions/SearchAndReplace';
+import Outline from './extensions/Outline';
+import FrontMatter from './extensions/FrontMatter';
+import PageBreak from './extensions/PageBreak';
+import CleanPaste from './extensions/CleanPaste';
+import LocalImage, { setImageBaseDir } from './extensions/LocalImage';
+import WikiLink, { setWikiLinkResolver } from './extensions/WikiLink';
+import { MathBlock, MathInline } from './extensions/Math';
+import MermaidDiagrams from './extensions/MermaidDiagrams';
+import { Footnote, FootnoteReference, Footnotes } from './extensions/Footnotes';
+import Callout from './extensions/Callout';
+import {
+  MarkdownSource,
+  WikiLinkAttrs,
+  keepFileFormat,
+  parseMarkdownSource,
+  serializeSourceText,
+  serializeWithSource,
+  sourceOffsetToPos,
+} from './markdown';
+import RecoveryDialog, { RecoveryItem } from './components/RecoveryDialog';
+import ExternalChangeBanner, { ExternalChange } from './components/ExternalChangeBanner';
+import MergeDialog from './components/MergeDialog';
+import SearchResultsPanel, { relativePath } from './components/SearchResultsPanel';
+import ReplacePreviewDialog, { PreviewFile, PreviewLine } from './components/ReplacePreviewDialog';
+import WorkspaceSidebar from './components/WorkspaceSidebar';
+import OutlinePanel from './components/OutlinePanel';
+import PropertiesPanel from './components/PropertiesPanel';
+import HtmlExportDialog from './components/HtmlExportDialog';
+import PdfExportDialog from './components/PdfExportDialog';
+import ImageDialog, { ImageFields } from './components/ImageDialog';
+import LinkPopover from './components/LinkPopover';
+import WikiLinkSuggestions, { WikiLinkSuggestionsHandle } from './components/WikiLinkSuggestions';
+import BacklinksPanel from './components/BacklinksPanel';
+import { SessionTab, loadSession, saveSession } from './session';
+import { readJournal, removeJournalEntry, writeJournalEntry } from './journal';
+import { AutosaveMode, loadAutosaveSettings, saveAutosaveSettings } from './autosave';
+import { FileChange, fileMtime, onFileChanged, watchFiles } from './watcher';
+import { HtmlExportSettings, IMAGE_TYPES, exportHtml, loadHtmlExportSettings, saveHtmlExportSettings } from './export/html';
+import { PdfExportSettings, exportPdf, loadPdfExportSettings, savePdfExportSettings } from './export/pdf';
+import { exportDocx } from './export/docx';
+import { IMPORT_EXTENSIONS, importDocument, isImportable } from './import';
+import { allowImageFolder, copyImage, loadImageSettings, pastedImageName, saveImage, saveImageSettings } from './images';
+import { headingAnchors, isExternalLink, isMarkdownFile, linkedFilePath, slugify, splitLink } from './links';
+import { Note, findBacklinks, noteFolder, readNotes, resolveNote } from './notes';
+import {
+  FileEdit,
+  FileMatches,
+  FileSearchRequest,
+  FileSearchResults,
+  LineMatch,
+  replaceInFiles,
+  searchFiles,
+} from './fileSearch';
+import {
+  TreeEntry,
+  WorkspaceSettings,
+  baseName,
+  createEntry,
+  duplicateEntry,
+  isWithin,
+  joinPath,
+  loadWorkspaceSettings,
+  movedPath,
+  moveEntry,
+  onWorkspaceChanged,
+  parentPath,
+  readWorkspace,
+  saveWorkspaceSettings,
+  trashEntry,
+  watchWorkspace,
+} from './workspace';
 
 // Tab data structure for managing multiple document tabs
 interface Tab {
   id: string;              // Unique identifier for the tab
   title: string;           // Display name in tab bar
   filePath: string | null; // Full path to file (null for unsaved)
-  content: string;         // HTML content of the document
+  baseDir: string | null;  // Folder relative links resolve against until saved (an imported file's)
+  // Document, undo history, selection and stored marks. The live editor
+  // holds the active tab's state; it is stored here while in the background
+  editorState: EditorState | null;
+  scrollTop: number;       // Rich view scroll offset while in the background
+  savedDoc: ProseMirrorNode | null; // Document as last read or written
   isModified: boolean;     // Track unsaved changes
+  source: MarkdownSource | null; // Layout of the file as read, for minimal-diff saves
+  viewMode: ViewMode;      // Rich editor, raw Markdown source, or both side by side
+  restoredDraft: boolean;  // Holds changes from a previous session never written to disk
+  diskMtime: number | null; // File modification time as last read or written
+  externalChange: ExternalChange | null; // Unhandled change made to the file by another program
 }
 
+// Fresh empty tab
+const createUntitledTab = (id: string): Tab => ({
+  id,
+  title: 'Untitled',
+  filePath: null,
+  baseDir: null,
+  editorState: null,
+  scrollTop: 0,
+  savedDoc: null,
+  isModified: false,
+  source: null,
+  viewMode: 'rich',
+  restoredDraft: false,
+  diskMtime: null,
+  externalChange: null
+});
+
+// Editor state for a tab, sharing the live editor's plugins so history is per tab
+const createEditorState = (editor: Editor, doc?: ProseMirrorNode) => {
+  return EditorState.create({
+    schema: editor.schema,
+    doc: doc ?? editor.schema.topNodeType.createAndFill() ?? undefined,
+    plugins: editor.state.plugins,
+  });
+};
+
+// Editor state for a document with the cursor placed near `cursor`
+const createEditorStateAt = (editor: Editor, doc: ProseMirrorNode, cursor: number) => {
+  const state = createEditorState(editor, doc);
+  const pos = Math.max(0, Math.min(cursor, doc.content.size));
+  return state.apply(state.tr.setSelection(Selection.near(doc.resolve(pos))));
+};
+
+// Details of the selected image, or null when the selection is not an image
+const selectedImage = (editor: Editor): ImageFields | null => {
+  const { selection } = editor.state;
+  if (!(selection instanceof NodeSelection) || selection.node.type.name !== 'image') return null;
+  const { src, alt, title, width } = selection.node.attrs;
+  return { src: src ?? '', alt: alt ?? '', title: title ?? '', width: width ?? null };
+};
+
+// Markdown as the editor uses it: no byte order mark, `\n` line endings
+const normalizeMarkdown = (markdown: string) =>
+  markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+
+/**
+ * Rebuild a tab from its session record. Drafts are laid over the file
+ * as it is on disk now; returns null for a clean tab whose file is gone.
+ */
+const restoreTab = async (editor: Editor, saved: SessionTab): Promise<Tab | null> => {
+  let diskText: string | null = null;
+  let diskMtime: number | null = null;
+  if (saved.filePath) {
+    try {
+      diskText = await fs.readTextFile(saved.filePath);
+      diskMtime = await fileMtime(saved.filePath);
+    } catch (error) {
+      console.error('Error reading session file:', error);
+    }
+  }
+  if (diskText === null && saved.draft === null) return null;
+
+  const disk = diskText !== null ? parseMarkdownSource(editor.schema, diskText) : null;
+  const doc = saved.draft !== null
+    ? parseMarkdownSource(editor.schema, saved.draft).doc
+    : disk!.doc;
+  const savedDoc = disk?.doc ?? null;
+  const isModified = savedDoc ? !doc.eq(savedDoc) : saved.draft !== '';
+
+  return {
+    id: saved.id,
+    title: saved.title,
+    filePath: saved.filePath,
+    baseDir: saved.baseDir ?? null,
+    editorState: createEditorStateAt(editor, doc, saved.cursor),
+    scrollTop: saved.scrollTop,
+    savedDoc,
+    isModified,
+    source: disk?.source ?? null,
+    viewMode: saved.viewMode,
+    restoredDraft: isModified,
+    diskMtime,
+    externalChange: null,
+  };
+};
+
+// A place in a document that link navigation can return to
+interface NavigationLocation {
+  tabId: string;
+  filePath: string | null;  // To reopen the document if its tab has been closed
+  cursor: number;
+}
+
+// Where to put the cursor when showing a document: a heading's anchor, or a position
+type LocationTarget = { anchor: string } | { cursor: number };
+
+interface LinkHistory {
+  back: NavigationLocation[];
+  forward: NavigationLocation[];
+}
+
+// Most followed links remembered for going back
+const MAX_LINK_HISTORY = 50;
+
+// Delay before writing the session after the last change
+const SESSION_SAVE_DELAY = 1000;
+
+// Quiet period after a file change event before acting on it
+const FILE_CHANGE_DELAY = 300;
+
+// Editing shortcuts the source pane's textarea handles natively
+const SOURCE_PANE_KEYS = ['b', 'i', 'z', 'y', 'l', 'v', 'V', '0', '1', '2', '3', '4', '5', '6', 'C', '*', '&'];
+
+// Transaction meta set when the document is updated from the source pane
+const FROM_SOURCE_META = 'fromMarkdownSource';
+
+// Replace only the part of the editor document that differs from `doc`
+const applyDocument = (editor: Editor, doc: ProseMirrorNode) => {
+  const { state } = editor;
+  const start = state.doc.content.findDiffStart(doc.content);
+  const end = state.doc.content.findDiffEnd(doc.content);
+  if (start === null || !end) return;
+
+  let { a: endA, b: endB } = end;
+  // Identical runs at both ends can overlap; grow the range past the overlap
+  const overlap = start - Math.min(endA, endB);
+  if (overlap > 0) {
+    endA += overlap;
+    endB += overlap;
+  }
+  editor.view.dispatch(
+    state.tr.replace(start, endA, doc.slice(start, endB)).setMeta(FROM_SOURCE_META, true)
+  );
+};
+
+// Folder relative links and images resolve against
+const documentDir = (tab: Tab) => (tab.filePath ? parentPath(tab.filePath) : tab.baseDir);
+
+// Suggested location for saving a document that has no file yet
+const savePathFor = (tab: Tab) => (tab.baseDir ? joinPath(tab.baseDir, tab.title) : undefined);
+
+// Suggested export file: the document's path, or its title, with a new extension
+const exportPathFor = (tab: Tab, extension: string) =>
+  `${(tab.filePath ?? tab.title).replace(/\.(md|markdown|txt)$/i, '')}.${extension}`;
+
 function App() {
   // Tab management state - always maintain at least one tab
-  const [tabs, setTabs] = useState<Tab[]>([
-    {
-      id: 'tab-1',
-      title: 'Untitled',
-      filePath: null,
-      content: '',
-      isModified: false
-    }
-  ]);
+  const [tabs, setTabs] = useState<Tab[]>([createUntitledTab('tab-1')]);
 
   // Currently active tab identifier
   const [activeTabId, setActiveTabId] = useState<string>('tab-1');
@@ -45,9 +269,54 @@ function App() {
   // Find/Replace dialog visibility
   const [showFindReplace, setShowFindReplace] = useState(false);
 
+  // Outline panel visibility
+  const [showOutline, setShowOutline] = useState(false);
+
+  // Export as HTML options, shown before choosing the file (persisted in localStorage)
+  const [showHtmlExport, setShowHtmlExport] = useState(false);
+  const [htmlExportSettings, setHtmlExportSettings] = useState(loadHtmlExportSettings);
+
+  // Export as PDF page setup, shown before choosing the file (persisted in localStorage)
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [pdfExportSettings, setPdfExportSettings] = useState(loadPdfExportSettings);
+
+  // Insert/edit image dialog, and where added images are copied (persisted in localStorage)
+  const [showImageDialog, setShowImageDialog] = useState(false);
+  const [imageSettings, setImageSettings] = useState(loadImageSettings);
+
+  // Link popover showing its edit form rather than the link at the cursor
+  const [editingLink, setEditingLink] = useState(false);
+
   // Recent files list (persisted in localStorage)
   const [recentFiles, setRecentFiles] = useState<string[]>([]);
 
+  // Autosave mode and delay (persisted in localStorage)
+  const [autosave, setAutosave] = useState(loadAutosaveSettings);
+
+  // Workspace folder shown in the sidebar (persisted in localStorage)
+  const [workspace, setWorkspace] = useState(loadWorkspaceSettings);
+
+  // Folder searched by Find in Files, the workspace by default
+  const [searchFolder, setSearchFolder] = useState<string | null>(workspace.root);
+
+  // Markdown shown in the source pane and its block layout
+  const [sourceText, setSourceText] = useState('');
+  const [sourceLayout, setSourceLayout] = useState<MarkdownSource | null>(null);
+
+  // Rich view scroll container and source pane, for syncing the two
+  const richContainerRef = useRef<HTMLDivElement>(null);
+  const sourcePaneRef = useRef<SourcePaneHandle>(null);
+
+  // Caret position to restore in the source pane once it is shown
+  const pendingSourceFocusRef = useRef<number | null>(null);
+
+  // Handler for image files pasted or dropped into the editor, kept current
+  // for the editor's paste and drop hooks
+  const imageFilesRef = useRef<(files: File[], pos: number, pasted: boolean) => void>(() => {});
+  const openLinkRef = useRef<(href: string) => void>(() => {});
+  const followWikiLinkRef = useRef<(attrs: WikiLinkAttrs) => void>(() => {});
+  const wikiSuggestionsRef = useRef<WikiLinkSuggestionsHandle>(null);
+
   // Get current active tab object (fallback to first tab)
   const activeTab = tabs.find(tab => tab.id === activeTabId) || tabs[0];
 
@@ -90,11 +359,20 @@ function App() {
   }, [loadRecentFiles]);
 
   // ========== Tab Management Functions ==========
-  // Update content and modification state for a specific tab
-  const updateTabContent = useCallback((tabId: string, content: string, isModified: boolean = true) => {
+  // Update modification state for a specific tab
+  const updateTabModified = useCallback((tabId: string, isModified: boolean) => {
+    setTabs(prev => prev.map(tab =>
+      tab.id === tabId && tab.isModified !== isModified
+        ? { ...tab, isModified, restoredDraft: tab.restoredDraft && isModified }
+        : tab
+    ));
+  }, []);
+
+  // Record the document as it is on disk, clearing the modified flag
+  const updateTabSavedDoc = useCallback((tabId: string, savedDoc: ProseMirrorNode) => {
     setTabs(prev => prev.map(tab =>
       tab.id === tabId
-        ? { ...tab, content, isModified }
+        ? { ...tab, savedDoc, isModified: false, restoredDraft: false }
         : tab
     ));
   }, []);
@@ -102,21 +380,46 @@ function App() {
   const updateTabFile = useCallback((tabId: string, filePath: string | null, title: string, isModified: boolean = false) => {
     setTabs(prev => prev.map(tab =>
       tab.id === tabId
-        ? { ...tab, filePath, title, isModified }
+        ? { ...tab, filePath, title, isModified, externalChange: null }
+        : tab
+    ));
+  }, []);
+
+  const updateTabSource = useCallback((tabId: string, source: MarkdownSource | null) => {
+    setTabs(prev => prev.map(tab =>
+      tab.id === tabId
+        ? { ...tab, source }
+        : tab
+    ));
+  }, []);
+
+  const updateTabDiskMtime = useCallback((tabId: string, diskMtime: number | null) => {
+    setTabs(prev => prev.map(tab =>
+      tab.id === tabId
+        ? { ...tab, diskMtime }
+        : tab
+    ));
+  }, []);
+
+  const updateTabExternalChange = useCallback((tabId: string, externalChange: ExternalChange | null) => {
+    setTabs(prev => prev.map(tab =>
+      tab.id === tabId
+        ? { ...tab, externalChange }
+        : tab
+    ));
+  }, []);
+
+  const updateTabViewMode = useCallback((tabId: string, viewMode: ViewMode) => {
+    setTabs(prev => prev.map(tab =>
+      tab.id === tabId
+        ? { ...tab, viewMode }
         : tab
     ));
   }, []);
 
   const createNewTab = useCallback(() => {
     const newTabId = `tab-${Date.now()}`;
-    const newTab: Tab = {
-      id: newTabId,
-      title: 'Untitled',
-      filePath: null,
-      content: '',
-      isModified: false
-    };
-    setTabs(prev => [...prev, newTab]);
+    setTabs(prev => [...prev, createUntitledTab(newTabId)]);
     setActiveTabId(newTabId);
     return newTabId;
   }, []);
@@ -130,16 +433,17 @@ function App() {
         setActiveTabId(filtered[filtered.length - 1].id);
       }
       // Always keep at least one tab open
-      return filtered.length === 0 ? [{
-        id: `tab-${Date.now()}`,
-        title: 'Untitled',
-        filePath: null,
-        content: '',
-        isModified: false
-      }] : filtered;
+      return filtered.length === 0 ? [createUntitledTab(`tab-${Date.now()}`)] : filtered;
     });
   }, [activeTabId]);
 
+  // Regenerate the source pane text from the editor document
+  const refreshSourceText = useCallback((currentEditor: Editor, source: MarkdownSource | null) => {
+    const text = serializeSourceText(currentEditor.state.doc, source);
+    setSourceText(text);
+    setSourceLayout(keepFileFormat(parseMarkdownSource(currentEditor.schema, text).source, source));
+  }, []);
+
   // Initialize syntax highlighter for code blocks
   const lowlight = createLowlight(common);
 
@@ -164,22 +468,55 @@ function App() {
           class: 'tiptap-link',
         },
       }),
-      Image,
+      LocalImage.configure({
+        inline: true,
+        onFiles: (files, pos, pasted) => imageFilesRef.current(files, pos, pasted),
+        onEdit: () => setShowImageDialog(true),
+      }),
       TaskList,
       TaskItem.configure({
         nested: true,
       }),
+      MarkdownAttributes,
+      SearchAndReplace,
+      Outline,
+      FrontMatter,
+      PageBreak,
+      CleanPaste,
+      WikiLink.configure({
+        onFollow: attrs => followWikiLinkRef.current(attrs),
+        onQueryKeyDown: event => wikiSuggestionsRef.current?.onKeyDown(event) ?? false,
+      }),
+      MathInline,
+      MathBlock,
+      MermaidDiagrams,
+      FootnoteReference,
+      Footnotes,
+      Footnote,
+      Callout,
     ],
-    content: activeTab.content,
     editorProps: {
       attributes: {
         class: 'prose prose-sm sm:prose lg:prose-lg xl:prose-2xl focus:outline-none',
       },
+      // Ctrl+click follows a link; a plain click only places the cursor
+      handleClick: (view, _pos, event) => {
+        if (!event.ctrlKey || !(event.target instanceof Element)) return false;
+        const anchor = event.target.closest('a[href]');
+        if (!anchor || !view.dom.contains(anchor)) return false;
+        openLinkRef.current(anchor.getAttribute('href')!);
+        return true;
+      },
     },
-    onUpdate: ({ editor }) => {
-      const newContent = editor.getHTML();
-      const isModified = newContent !== '<p></p>' && newContent !== activeTab.content;
-      updateTabContent(activeTabId, newContent, isModified);
+    onUpdate: ({ editor, transaction }) => {
+      const isModified = activeTab.savedDoc
+        ? !editor.state.doc.eq(activeTab.savedDoc)
+        : !editor.isEmpty;
+      updateTabModified(activeTab.id, isModified);
+      // Rich edits show up in the source pane; source edits are already there
+      if (activeTab.viewMode !== 'rich' && !transaction.getMeta(FROM_SOURCE_META)) {
+        refreshSourceText(editor, activeTab.source);
+      }
     },
     onCreate: ({ editor }) => {
       // Auto-focus the editor when it's created
@@ -222,14 +559,353 @@ function App() {
     closeTab(tabId);
   }, [tabs, closeTab, checkUnsavedChanges]);
 
-  // Synchronize editor content when switching between tabs
+  // Tab whose editor state is currently loaded in the live editor
+  const loadedTabIdRef = useRef<string | null>(null);
+
+  // Swap editor states when switching between tabs
+  useEffect(() => {
+    if (!editor || loadedTabIdRef.current === activeTab.id) return;
+
+    const outgoingId = loadedTabIdRef.current;
+    if (outgoingId !== null) {
+      const outgoingState = editor.state;
+      const outgoingScroll = richContainerRef.current?.scrollTop ?? 0;
+      setTabs(prev => prev.map(tab =>
+        tab.id === outgoingId
+          ? { ...tab, editorState: outgoingState, scrollTop: outgoingScroll }
+          : tab
+      ));
+    }
+
+    editor.view.updateState(activeTab.editorState ?? createEditorState(editor));
+    loadedTabIdRef.current = activeTab.id;
+
+    // Restore the scroll offset once the incoming document is laid out
+    const { scrollTop } = activeTab;
+    requestAnimationFrame(() => {
+      if (richContainerRef.current) {
+        richContainerRef.current.scrollTop = scrollTop;
+      }
+    });
+  }, [editor, activeTab.id]);
+
+  // Relative image sources resolve against the active document's folder,
+  // which is opened to the asset protocol before the images are redrawn
+  useEffect(() => {
+    if (!editor) return;
+    const dir = documentDir(activeTab);
+    let current = true;
+    (dir ? allowImageFolder(dir) : Promise.resolve())
+      .catch(error => console.error('Error allowing image folder:', error))
+      .then(() => {
+        if (current) setImageBaseDir(editor, dir);
+      });
+    return () => {
+      current = false;
+    };
+  }, [editor, activeTab.id, activeTab.filePath, activeTab.baseDir]);
+
+  // Fill the source pane when it is shown or the tab changes
+  useEffect(() => {
+    if (editor && activeTab.viewMode !== 'rich') {
+      refreshSourceText(editor, activeTab.source);
+    }
+  }, [editor, activeTab.id, activeTab.viewMode]);
+
+  // Place the source caret once the pane has its text
+  useEffect(() => {
+    if (pendingSourceFocusRef.current !== null && sourcePaneRef.current && sourceLayout) {
+      sourcePaneRef.current.focusAt(pendingSourceFocusRef.current);
+      pendingSourceFocusRef.current = null;
+    }
+  }, [sourceLayout]);
+
+  // ========== Session Restore ==========
+  // Latest tabs for the debounced session writer
+  const tabsRef = useRef(tabs);
+  tabsRef.current = tabs;
+  const activeTabIdRef = useRef(activeTabId);
+  activeTabIdRef.current = activeTabId;
+
+  // Nothing is persisted until the previous session has been restored
+  const sessionRestoredRef = useRef(false);
+  const sessionTimerRef = useRef<number | null>(null);
+
+  // Content last written to the recovery journal, by tab id
+  const journaledRef = useRef(new Map<string, string>());
+
+  // Journal entries newer than their files, waiting for the user to decide
+  const [recoveryItems, setRecoveryItems] = useState<RecoveryItem[]>([]);
+
+  // Bring the recovery journal in line with the drafts of the current tabs;
+  // false when a draft could not be journaled
+  const syncJournal = useCallback(async (sessionTabs: SessionTab[]) => {
+    const journaled = journaledRef.current;
+    const drafts = new Set<string>();
+    let complete = true;
+    for (const tab of sessionTabs) {
+      if (tab.draft === null) continue;
+      drafts.add(tab.id);
+      if (journaled.get(tab.id) === tab.draft) continue;
+      try {
+        await writeJournalEntry({
+          tabId: tab.id,
+          title: tab.title,
+          filePath: tab.filePath,
+          content: tab.draft,
+          savedAt: Date.now(),
+        });
+        journaled.set(tab.id, tab.draft);
+      } catch (error) {
+        console.error('Error writing journal entry:', error);
+        complete = false;
+      }
+    }
+    for (const tabId of Array.from(journaled.keys())) {
+      if (drafts.has(tabId)) continue;
+      journaled.delete(tabId);
+      try {
+        await removeJournalEntry(tabId);
+      } catch (error) {
+        console.error('Error removing journal entry:', error);
+      }
+    }
+    return complete;
+  }, []);
+
+  // Write open tabs, unsaved drafts and cursor positions to localStorage,
+  // and the drafts to the recovery journal. False when the session could
+  // not be stored or a draft could not be journaled
+  const persistSession = useCallback(async () => {
+    if (!editor || !sessionRestoredRef.current) return true;
+    if (sessionTimerRef.current !== null) {
+      window.clearTimeout(sessionTimerRef.current);
+      sessionTimerRef.current = null;
+    }
+
+    const sessionTabs: SessionTab[] = tabsRef.current.map(tab => {
+      // The live editor holds the loaded tab's state
+      const state = tab.id === loadedTabIdRef.current ? editor.state : tab.editorState;
+      const scrollTop = tab.id === loadedTabIdRef.current
+        ? richContainerRef.current?.scrollTop ?? 0
+        : tab.scrollTop;
+      return {
+        id: tab.id,
+        title: tab.title,
+        filePath: tab.filePath,
+        baseDir: tab.baseDir,
+        viewMode: tab.viewMode,
+        draft: tab.isModified && state ? serializeSourceText(state.doc, tab.source) : null,
+        cursor: state?.selection.head ?? 0,
+        scrollTop,
+      };
+    });
+    const saved = saveSession({ tabs: sessionTabs, activeTabId: activeTabIdRef.current });
+    const journaled = await syncJournal(sessionTabs);
+    return saved && journaled;
+  }, [editor, syncJournal]);
+
+  const scheduleSessionSave = useCallback(() => {
+    if (sessionTimerRef.current !== null) {
+      window.clearTimeout(sessionTimerRef.current);
+    }
+    sessionTimerRef.current = window.setTimeout(persistSession, SESSION_SAVE_DELAY);
+  }, [persistSession]);
+
+  // Reopen the tabs of the previous session once the editor exists, then
+  // offer journal entries the session does not already cover
+  useEffect(() => {
+    if (!editor || sessionRestoredRef.current) return;
+
+    const restoreSession = async () => {
+      const session = loadSession();
+      const restored: Tab[] = [];
+      for (const saved of session?.tabs ?? []) {
+        const tab = await restoreTab(editor, saved);
+        if (tab) restored.push(tab);
+      }
+
+      if (restored.length > 0) {
+        const active = restored.find(tab => tab.id === session?.activeTabId) ?? restored[0];
+        editor.view.updateState(active.editorState!);
+        loadedTabIdRef.current = active.id;
+        setTabs(restored);
+        setActiveTabId(active.id);
+        requestAnimationFrame(() => {
+          if (richContainerRef.current) {
+            richContainerRef.current.scrollTop = active.scrollTop;
+          }
+        });
+      }
+
+      try {
+        const items: RecoveryItem[] = [];
+        for (const record of await readJournal()) {
+          const sessionDraft = session?.tabs.find(tab => tab.id === record.tabId)?.draft;
+          if (sessionDraft === record.content) {
+            // Already reopened as a restored draft
+            journaledRef.current.set(record.tabId, record.content);
+          } else if (record.diskModified !== null && record.savedAt <= record.diskModified) {
+            // The file was saved after the entry was written
+            await removeJournalEntry(record.tabId);
+          } else {
+            let diskText: string | null = null;
+            if (record.filePath) {
+              try {
+                diskText = await fs.readTextFile(record.filePath);
+              } catch (error) {
+                console.error('Error reading journaled file:', error);
+              }
+            }
+            items.push({ ...record, diskText });
+          }
+        }
+        setRecoveryItems(items);
+      } catch (error) {
+        console.error('Error reading recovery journal:', error);
+      }
+
+      sessionRestoredRef.current = true;
+    };
+
+    restoreSession();
+  }, [editor]);
+
+  // Open a journal entry's content as an unsaved draft, replacing its tab if still open
+  const handleRecover = useCallback(async (item: RecoveryItem) => {
+    if (!editor) return;
+    setRecoveryItems(prev => prev.filter(entry => entry.tabId !== item.tabId));
+
+    const tab = await restoreTab(editor, {
+      id: item.tabId,
+      title: item.title,
+      filePath: item.filePath,
+      viewMode: 'rich',
+      draft: item.content,
+      cursor: 0,
+      scrollTop: 0,
+    });
+    if (!tab) return;
+
+    if (loadedTabIdRef.current === tab.id) {
+      editor.view.updateState(tab.editorState!);
+    }
+    setTabs(prev => prev.some(existing => existing.id === tab.id)
+      ? prev.map(existing => existing.id === tab.id ? { ...tab, viewMode: existing.viewMode } : existing)
+      : [...prev, tab]
+    );
+    setActiveTabId(tab.id);
+  }, [editor]);
+
+  const handleDiscardRecovery = useCallback(async (item: RecoveryItem) => {
+    setRecoveryItems(prev => prev.filter(entry => entry.tabId !== item.tabId));
+    try {
+      await removeJournalEntry(item.tabId);
+    } catch (error) {
+      console.error('Error removing journal entry:', error);
+    }
+  }, []);
+
+  // Persist the session shortly after tabs, documents or cursors change
+  useEffect(() => {
+    scheduleSessionSave();
+  }, [tabs, activeTabId, scheduleSessionSave]);
+
   useEffect(() => {
-    if (editor && activeTab) {
-      editor.commands.setContent(activeTab.content);
+    if (!editor) return;
+    editor.on('update', scheduleSessionSave);
+    editor.on('selectionUpdate', scheduleSessionSave);
+    return () => {
+      editor.off('update', scheduleSessionSave);
+      editor.off('selectionUpdate', scheduleSessionSave);
+    };
+  }, [editor, scheduleSessionSave]);
+
+  // ========== Source Pane ==========
+  // Apply Markdown typed in the source pane to the editor document
+  const handleSourceChange = useCallback((markdown: string) => {
+    if (!editor) return;
+    setSourceText(markdown);
+    const { doc, source } = parseMarkdownSource(editor.schema, markdown);
+    const layout = keepFileFormat(source, activeTab.source);
+    setSourceLayout(layout);
+    // The typed text becomes the layout saving starts from
+    updateTabSource(activeTabId, layout);
+    applyDocument(editor, doc);
+  }, [editor, activeTab.source, activeTabId, updateTabSource]);
+
+  // Switch between rich, split and source views, carrying the caret across
+  const handleViewModeChange = useCallback((viewMode: ViewMode) => {
+    if (!editor || viewMode === activeTab.viewMode) return;
+
+    if (viewMode === 'source') {
+      pendingSourceFocusRef.current = editor.state.selection.head;
+    } else if (viewMode === 'rich') {
+      const pos = sourcePaneRef.current?.currentPos();
+      if (pos !== null && pos !== undefined) {
+        setTimeout(() => editor.chain().focus().setTextSelection(pos).scrollIntoView().run(), 0);
+      }
     }
-  }, [editor, activeTab.id, activeTab.content]);
+    updateTabViewMode(activeTabId, viewMode);
+  }, [editor, activeTab.viewMode, activeTabId, updateTabViewMode]);
+
+  // Put the cursor in the heading at `pos`, in whichever view is showing
+  const revealHeading = useCallback((pos: number, viewMode: ViewMode) => {
+    if (!editor) return;
+    if (viewMode === 'source') {
+      sourcePaneRef.current?.focusAt(pos + 1);
+      return;
+    }
+    editor.chain().focus().setTextSelection(pos + 1).run();
+    // Bring the heading to the top rather than just into view
+    const dom = editor.view.nodeDOM(pos);
+    if (dom instanceof HTMLElement) {
+      dom.scrollIntoView({ block: 'start' });
+    }
+  }, [editor]);
+
+  // Jump to a heading from the outline
+  const handleOutlineNavigate = useCallback((pos: number) => {
+    revealHeading(pos, activeTab.viewMode);
+  }, [revealHeading, activeTab.viewMode]);
 
   // ========== File Operations ==========
+  // Parse Markdown into a fresh editor state for the active tab, keeping
+  // the source layout for saving
+  const loadMarkdown = useCallback((markdown: string) => {
+    if (!editor) return;
+    const { doc, source } = parseMarkdownSource(editor.schema, markdown);
+    editor.view.updateState(createEditorState(editor, doc));
+    updateTabSavedDoc(activeTab.id, doc);
+    updateTabSource(activeTab.id, source);
+    if (activeTab.viewMode !== 'rich') {
+      refreshSourceText(editor, source);
+    }
+  }, [editor, activeTab.id, activeTab.viewMode, updateTabSavedDoc, updateTabSource, refreshSourceText]);
+
+  // Write the active document, reusing the original text of untouched blocks.
+  // Callers that await before writing pass the document they captured
+  const writeMarkdownFile = useCallback(async (filePath: string, doc = editor?.state.doc) => {
+    if (!editor || !doc) return;
+    const markdownContent = serializeWithSource(doc, activeTab.source);
+    await fs.writeTextFile(filePath, markdownContent);
+    // The written text is the new baseline for the next save
+    updateTabSource(activeTab.id, parseMarkdownSource(editor.schema, markdownContent).source);
+    updateTabSavedDoc(activeTab.id, doc);
+    updateTabDiskMtime(activeTab.id, await fileMtime(filePath));
+    // Edits made while the file was being written are still unsaved
+    if (loadedTabIdRef.current === activeTab.id && !editor.state.doc.eq(doc)) {
+      updateTabModified(activeTab.id, true);
+    }
+  }, [editor, activeTab.source, activeTab.id, updateTabSource, updateTabSavedDoc, updateTabDiskMtime, updateTabModified]);
+
+  // Whether another program changed the active tab's file since it was last read or written
+  const isFileChangedOnDisk = useCallback(async () => {
+    if (!activeTab.filePath || activeTab.diskMtime === null) return false;
+    const mtime = await fileMtime(activeTab.filePath);
+    return mtime !== null && mtime !== activeTab.diskMtime;
+  }, [activeTab.filePath, activeTab.diskMtime]);
+
   // Save current tab's content to file
   const handleSaveFile = useCallback(async () => {
     if (!editor) return false;
@@ -240,6 +916,7 @@ function App() {
       // If no file path, prompt for save location
       if (!filePath) {
         const selected = await save({
+          defaultPath: savePathFor(activeTab),
           filters: [{
             name: 'Markdown',
             extensions: ['md']
@@ -247,23 +924,16 @@ function App() {
         });
         if (!selected) return false;
         filePath = selected;
+      } else if (await isFileChangedOnDisk()) {
+        // Never silently overwrite what another program wrote
+        const overwrite = await confirm(
+          `${activeTab.title} was changed by another program since it was opened. Overwrite it?`,
+          { title: 'Confirm', type: 'warning' }
+        );
+        if (!overwrite) return false;
       }
 
-      const htmlContent = editor.getHTML();
-      // Convert HTML back to markdown (simplified conversion)
-      // TODO: Consider using a proper HTML to Markdown converter library
-      const markdownContent = htmlContent
-        .replace(/<p>/g, '')
-        .replace(/<\/p>/g, '\n\n')
-        .replace(/<br>/g, '\n')
-        .replace(/<strong>/g, '**')
-        .replace(/<\/strong>/g, '**')
-        .replace(/<em>/g, '*')
-        .replace(/<\/em>/g, '*')
-        .replace(/<h([1-6])>/g, (_match, level) => '#'.repeat(parseInt(level)) + ' ')
-        .replace(/<\/h[1-6]>/g, '\n\n');
-
-      await fs.writeTextFile(filePath as string, markdownContent);
+      await writeMarkdownFile(filePath);
 
       const fileName = filePath.split('\\').pop() || filePath.split('/').pop() || 'Untitled';
       updateTabFile(activeTabId, filePath, fileName, false);
@@ -273,47 +943,89 @@ function App() {
       console.error('Failed to save file:', error);
       return false;
     }
-  }, [editor, activeTab, activeTabId, updateTabFile, addToRecentFiles]);
+  }, [editor, activeTab, activeTabId, updateTabFile, addToRecentFiles, writeMarkdownFile, isFileChangedOnDisk]);
 
 
   const handleNewFile = useCallback(async () => {
     createNewTab();
   }, [createNewTab]);
 
-  const handleOpenFile = useCallback(async () => {
+  // Convert a Word document or web page into a new, unsaved Markdown tab,
+  // leaving the original untouched
+  const openImportedFile = useCallback(async (filePath: string) => {
     if (!editor) return;
 
-    const proceed = await checkUnsavedChanges();
-    if (!proceed) return;
+    const { doc, notes } = await importDocument(editor.schema, filePath);
+    const tab: Tab = {
+      ...createUntitledTab(`tab-${Date.now()}`),
+      title: `${baseName(filePath).replace(/\.[^.]+$/, '')}.md`,
+      // Extracted images are linked relative to the imported file's folder
+      baseDir: parentPath(filePath),
+      editorState: createEditorState(editor, doc),
+      isModified: true
+    };
+    setTabs(prev => [...prev, tab]);
+    setActiveTabId(tab.id);
+
+    if (notes.length > 0) {
+      await message(
+        `Some content could not be represented:\n\n${notes.map(note => `• ${note}`).join('\n')}`,
+        { title: `Imported ${baseName(filePath)}`, type: 'warning' }
+      );
+    }
+  }, [editor]);
+
+  const handleOpenFile = useCallback(async () => {
+    if (!editor) return;
 
     try {
       const selected = await open({
         filters: [{
+          name: 'Documents',
+          extensions: ['md', 'markdown', 'txt', ...IMPORT_EXTENSIONS]
+        }, {
           name: 'Markdown',
           extensions: ['md', 'markdown', 'txt']
+        }, {
+          name: 'Word Document',
+          extensions: ['docx']
+        }, {
+          name: 'Web Page',
+          extensions: ['html', 'htm']
         }]
       });
 
       if (selected && typeof selected === 'string') {
+        // Imports open in a tab of their own, so only replacing the active
+        // document needs its unsaved changes settled
+        if (isImportable(selected)) {
+          await openImportedFile(selected);
+          return;
+        }
+
+        const proceed = await checkUnsavedChanges();
+        if (!proceed) return;
+
         const content = await fs.readTextFile(selected);
-        // Convert markdown to HTML for display (simplified)
-        const htmlContent = content.replace(/\n/g, '<br>');
         const fileName = selected.split('\\').pop() || selected.split('/').pop() || 'Untitled';
 
+        loadMarkdown(content);
         updateTabFile(activeTabId, selected, fileName);
-        updateTabContent(activeTabId, htmlContent, false);
+        updateTabDiskMtime(activeTabId, await fileMtime(selected));
         addToRecentFiles(selected);
       }
     } catch (error) {
       console.error('Failed to open file:', error);
+      await message(String(error), { title: 'Cannot open', type: 'error' });
     }
-  }, [editor, checkUnsavedChanges, activeTabId, updateTabFile, updateTabContent, addToRecentFiles]);
+  }, [editor, checkUnsavedChanges, activeTabId, updateTabFile, updateTabDiskMtime, addToRecentFiles, loadMarkdown, openImportedFile]);
 
   const handleSaveAsFile = useCallback(async () => {
     if (!editor) return;
 
     try {
       const selected = await save({
+        defaultPath: savePathFor(activeTab),
         filters: [{
           name: 'Markdown',
           extensions: ['md']
@@ -322,28 +1034,14 @@ function App() {
 
       if (!selected) return;
 
-      const htmlContent = editor.getHTML();
-      // Convert HTML back to markdown (simplified conversion)
-      // TODO: Consider using a proper HTML to Markdown converter library
-      const markdownContent = htmlContent
-        .replace(/<p>/g, '')
-        .replace(/<\/p>/g, '\n\n')
-        .replace(/<br>/g, '\n')
-        .replace(/<strong>/g, '**')
-        .replace(/<\/strong>/g, '**')
-        .replace(/<em>/g, '*')
-        .replace(/<\/em>/g, '*')
-        .replace(/<h([1-6])>/g, (_match, level) => '#'.repeat(parseInt(level)) + ' ')
-        .replace(/<\/h[1-6]>/g, '\n\n');
-
-      await fs.writeTextFile(selected, markdownContent);
+      await writeMarkdownFile(selected);
       const fileName = selected.split('\\').pop() || selected.split('/').pop() || 'Untitled';
       updateTabFile(activeTabId, selected, fileName, false);
       addToRecentFiles(selected);
     } catch (error) {
       console.error('Failed to save file:', error);
     }
-  }, [editor, activeTabId, updateTabFile, addToRecentFiles]);
+  }, [editor, activeTab, activeTabId, updateTabFile, addToRecentFiles, writeMarkdownFile]);
 
   const handleOpenRecentFile = useCallback(async (filePath: string) => {
     if (!editor) return;
@@ -353,19 +1051,986 @@ function App() {
 
     try {
       const content = await fs.readTextFile(filePath);
-      // Convert markdown to HTML for display (simplified)
-      const htmlContent = content.replace(/\n/g, '<br>');
       const fileName = filePath.split('\\').pop() || filePath.split('/').pop() || 'Untitled';
 
+      loadMarkdown(content);
       updateTabFile(activeTabId, filePath, fileName);
-      updateTabContent(activeTabId, htmlContent, false);
+      updateTabDiskMtime(activeTabId, await fileMtime(filePath));
       addToRecentFiles(filePath);
     } catch (error) {
       console.error('Failed to open recent file:', error);
       // Remove from recent files if file no longer exists
       removeFromRecentFiles(filePath);
     }
-  }, [editor, checkUnsavedChanges, activeTabId, updateTabFile, updateTabContent, addToRecentFiles, removeFromRecentFiles]);
+  }, [editor, checkUnsavedChanges, activeTabId, updateTabFile, updateTabDiskMtime, addToRecentFiles, removeFromRecentFiles, loadMarkdown]);
+
+  // ========== Autosave ==========
+  const handleAutosaveModeChange = useCallback((mode: AutosaveMode) => {
+    const updated = { ...autosave, mode };
+    saveAutosaveSettings(updated);
+    setAutosave(updated);
+  }, [autosave]);
+
+  // Write the active tab to its file if it has one and has unsaved changes
+  const autosaveActiveTab = useCallback(async () => {
+    if (!editor || !activeTab.filePath || !activeTab.isModified) return;
+    // Capture the document now; on tab switch the editor moves on to the next tab
+    const { doc } = editor.state;
+    try {
+      // Leave files changed by another program to the external change banner
+      if (await isFileChangedOnDisk()) return;
+      await writeMarkdownFile(activeTab.filePath, doc);
+    } catch (error) {
+      console.error('Error autosaving file:', error);
+    }
+  }, [editor, activeTab.filePath, activeTab.isModified, writeMarkdownFile, isFileChangedOnDisk]);
+
+  // Event listeners below call the latest version
+  const autosaveRef = useRef(autosaveActiveTab);
+  autosaveRef.current = autosaveActiveTab;
+
+  // Save once typing has paused for the configured delay
+  useEffect(() => {
+    if (!editor || autosave.mode !== 'delay') return;
+
+    let timer: number | null = null;
+    const handleUpdate = () => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(() => autosaveRef.current(), autosave.delay);
+    };
+
+    editor.on('update', handleUpdate);
+    return () => {
+      editor.off('update', handleUpdate);
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, [editor, autosave]);
+
+  // Save when the window loses focus
+  useEffect(() => {
+    if (autosave.mode !== 'focus') return;
+
+    const handleBlur = () => {
+      autosaveRef.current();
+    };
+
+    window.addEventListener('blur', handleBlur);
+    return () => window.removeEventListener('blur', handleBlur);
+  }, [autosave.mode]);
+
+  // Switch tabs, saving the one being left when autosave is on tab switch
+  const handleTabSelect = useCallback((tabId: string) => {
+    if (tabId === activeTabId) return;
+    if (autosave.mode === 'tabSwitch') {
+      autosaveActiveTab();
+    }
+    setActiveTabId(tabId);
+  }, [activeTabId, autosave.mode, autosaveActiveTab]);
+
+  // ========== External File Changes ==========
+  // Watch every file open in a tab
+  const watchedPaths = Array.from(new Set(
+    tabs.map(tab => tab.filePath).filter((path): path is string => path !== null)
+  )).sort().join('\n');
+
+  useEffect(() => {
+    watchFiles(watchedPaths ? watchedPaths.split('\n') : []).catch(error => {
+      console.error('Error watching files:', error);
+    });
+  }, [watchedPaths]);
+
+  // Three-way merge waiting for the user
+  const [mergeInput, setMergeInput] = useState<{ base: string; mine: string; theirs: string } | null>(null);
+
+  // Replace a tab's document with the file's contents as one undoable step
+  const reloadTab = useCallback((tabId: string, text: string, mtime: number | null) => {
+    if (!editor) return;
+    const tab = tabsRef.current.find(t => t.id === tabId);
+    if (!tab) return;
+
+    const { doc, source } = parseMarkdownSource(editor.schema, text);
+    const isLoaded = loadedTabIdRef.current === tabId;
+    const state = isLoaded ? editor.state : tab.editorState;
+    let editorState = tab.editorState;
+    if (state) {
+      const tr = state.tr.replaceWith(0, state.doc.content.size, doc.content);
+      if (isLoaded) {
+        editor.view.dispatch(tr);
+      } else {
+        editorState = state.apply(tr);
+      }
+    } else {
+      editorState = createEditorState(editor, doc);
+    }
+
+    setTabs(prev => prev.map(t =>
+      t.id === tabId
+        ? { ...t, editorState, savedDoc: doc, source, isModified: false, restoredDraft: false, diskMtime: mtime, externalChange: null }
+        : t
+    ));
+    if (isLoaded && tab.viewMode !== 'rich') {
+      refreshSourceText(editor, source);
+    }
+  }, [editor, refreshSourceText]);
+
+  // Work out what a reported change means for each tab showing the file
+  const handleFileChange = useCallback(async (change: FileChange) => {
+    if (!editor) return;
+    try {
+      const mtime = await fileMtime(change.path);
+      // Tools that save by replacing the file briefly make it look deleted
+      const kind = change.kind === 'removed' && mtime !== null ? 'modified' : change.kind;
+
+      for (const tab of tabsRef.current.filter(t => t.filePath === change.path)) {
+        if (kind === 'renamed' && change.newPath) {
+          updateTabExternalChange(tab.id, { kind: 'renamed', newPath: change.newPath });
+        } else if (kind === 'removed') {
+          updateTabExternalChange(tab.id, { kind: 'removed' });
+        } else if (mtime !== tab.diskMtime) {
+          const text = await fs.readTextFile(change.path);
+          const { doc } = parseMarkdownSource(editor.schema, text);
+          if (tab.savedDoc && doc.eq(tab.savedDoc)) {
+            // Rewritten with the same content, e.g. by our own save
+            updateTabDiskMtime(tab.id, mtime);
+          } else if (!tab.isModified && !tab.externalChange) {
+            reloadTab(tab.id, text, mtime);
+          } else {
+            updateTabExternalChange(tab.id, { kind: 'modified', text, mtime });
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error handling file change:', error);
+    }
+  }, [editor, reloadTab, updateTabExternalChange, updateTabDiskMtime]);
+
+  const handleFileChangeRef = useRef(handleFileChange);
+  handleFileChangeRef.current = handleFileChange;
+
+  // A single save can produce a burst of events; act once it settles
+  const pendingChangesRef = useRef(new Map<string, number>());
+  useEffect(() => {
+    const pending = pendingChangesRef.current;
+    const unlisten = onFileChanged(change => {
+      const timer = pending.get(change.path);
+      if (timer !== undefined) window.clearTimeout(timer);
+      pending.set(change.path, window.setTimeout(() => {
+        pending.delete(change.path);
+        handleFileChangeRef.current(change);
+      }, FILE_CHANGE_DELAY));
+    });
+    return () => {
+      unlisten.then((fn) => fn());
+    };
+  }, []);
+
+  const handleReloadFromDisk = useCallback(() => {
+    const change = activeTab.externalChange;
+    if (change?.kind === 'modified') {
+      reloadTab(activeTab.id, change.text, change.mtime);
+    }
+  }, [activeTab.externalChange, activeTab.id, reloadTab]);
+
+  // Keep the tab's content; it is now compared against, and saved over, the file as it is
+  const handleKeepMine = useCallback(() => {
+    if (!editor) return;
+    const change = activeTab.externalChange;
+    if (change?.kind === 'modified') {
+      const { doc, source } = parseMarkdownSource(editor.schema, change.text);
+      const isModified = !editor.state.doc.eq(doc);
+      setTabs(prev => prev.map(tab =>
+        tab.id === activeTab.id
+          ? { ...tab, savedDoc: doc, source, isModified, diskMtime: change.mtime, externalChange: null }
+          : tab
+      ));
+    } else {
+      setTabs(prev => prev.map(tab =>
+        tab.id === activeTab.id
+          ? { ...tab, savedDoc: null, isModified: true, diskMtime: null, externalChange: null }
+          : tab
+      ));
+    }
+  }, [editor, activeTab.externalChange, activeTab.id]);
+
+  const handleFollowRename = useCallback(async () => {
+    const change = activeTab.externalChange;
+    if (change?.kind !== 'renamed') return;
+    const fileName = change.newPath.split('\\').pop() || change.newPath.split('/').pop() || 'Untitled';
+    updateTabFile(activeTab.id, change.newPath, fileName, activeTab.isModified);
+    try {
+      updateTabDiskMtime(activeTab.id, await fileMtime(change.newPath));
+    } catch (error) {
+      console.error('Error reading renamed file:', error);
+    }
+  }, [activeTab.externalChange, activeTab.id, activeTab.isModified, updateTabFile, updateTabDiskMtime]);
+
+  const handleOpenMerge = useCallback(() => {
+    if (!editor || activeTab.externalChange?.kind !== 'modified') return;
+    setMergeInput({
+      base: activeTab.savedDoc ? serializeSourceText(activeTab.savedDoc, activeTab.source) : '',
+      mine: serializeSourceText(editor.state.doc, activeTab.source),
+      theirs: normalizeMarkdown(activeTab.externalChange.text),
+    });
+  }, [editor, activeTab.externalChange, activeTab.savedDoc, activeTab.source]);
+
+  // Load the merge result as an undoable edit on top of the file as it is on disk
+  const handleApplyMerge = useCallback((merged: string) => {
+    setMergeInput(null);
+    const change = activeTab.externalChange;
+    if (!editor || change?.kind !== 'modified') return;
+
+    const { doc: diskDoc, source } = parseMarkdownSource(editor.schema, change.text);
+    const { doc } = parseMarkdownSource(editor.schema, merged);
+    const { state } = editor;
+    editor.view.dispatch(state.tr.replaceWith(0, state.doc.content.size, doc.content));
+
+    setTabs(prev => prev.map(tab =>
+      tab.id === activeTab.id
+        ? { ...tab, savedDoc: diskDoc, source, isModified: !doc.eq(diskDoc), diskMtime: change.mtime, externalChange: null }
+        : tab
+    ));
+    if (activeTab.viewMode !== 'rich') {
+      refreshSourceText(editor, source);
+    }
+  }, [editor, activeTab.externalChange, activeTab.id, activeTab.viewMode, refreshSourceText]);
+
+  // ========== Workspace ==========
+  // Files and folders under the workspace folder
+  const [workspaceEntries, setWorkspaceEntries] = useState<TreeEntry[]>([]);
+  const [workspaceError, setWorkspaceError] = useState<string | null>(null);
+
+  const updateWorkspace = useCallback((changes: Partial<WorkspaceSettings>) => {
+    const updated = { ...workspace, ...changes };
+    saveWorkspaceSettings(updated);
+    setWorkspace(updated);
+  }, [workspace]);
+
+  const refreshWorkspace = useCallback(async () => {
+    if (!workspace.root) {
+      setWorkspaceEntries([]);
+      return;
+    }
+    try {
+      setWorkspaceEntries(await readWorkspace(workspace.root, workspace.showImages));
+      setWorkspaceError(null);
+    } catch (error) {
+      console.error('Error reading workspace:', error);
+      setWorkspaceError(String(error));
+    }
+  }, [workspace.root, workspace.showImages]);
+
+  // Read the tree, watch the folder and open it to the asset protocol
+  // whenever the workspace changes
+  useEffect(() => {
+    refreshWorkspace();
+    watchWorkspace(workspace.root).catch(error => {
+      console.error('Error watching workspace:', error);
+    });
+    if (workspace.root) {
+      allowImageFolder(workspace.root).catch(error => {
+        console.error('Error allowing workspace images:', error);
+      });
+    }
+  }, [refreshWorkspace, workspace.root]);
+
+  // Re-read the tree shortly after files are added, removed or renamed
+  const refreshWorkspaceRef = useRef(refreshWorkspace);
+  refreshWorkspaceRef.current = refreshWorkspace;
+
+  useEffect(() => {
+    let timer: number | null = null;
+    const unlisten = onWorkspaceChanged(() => {
+      if (timer !== null) window.clearTimeout(timer);
+      timer = window.setTimeout(() => refreshWorkspaceRef.current(), FILE_CHANGE_DELAY);
+    });
+    return () => {
+      unlisten.then((fn) => fn());
+      if (timer !== null) window.clearTimeout(timer);
+    };
+  }, []);
+
+  const handleOpenFolder = useCallback(async () => {
+    try {
+      const selected = await open({ directory: true });
+      if (selected && typeof selected === 'string') {
+        updateWorkspace({ root: selected, expanded: [] });
+        setSearchFolder(selected);
+      }
+    } catch (error) {
+      console.error('Error opening folder:', error);
+    }
+  }, [updateWorkspace]);
+
+  const handleCloseFolder = useCallback(() => {
+    updateWorkspace({ root: null, expanded: [] });
+  }, [updateWorkspace]);
+
+  const handleToggleFolder = useCallback((path: string) => {
+    updateWorkspace({
+      expanded: workspace.expanded.includes(path)
+        ? workspace.expanded.filter(folder => folder !== path)
+        : [...workspace.expanded, path]
+    });
+  }, [workspace.expanded, updateWorkspace]);
+
+  // Focus the tab showing a file, or open the file in a new tab; returns the tab id
+  const openFileInTab = useCallback(async (path: string) => {
+    if (!editor) return null;
+    const existing = tabsRef.current.find(tab => tab.filePath === path);
+    if (existing) {
+      handleTabSelect(existing.id);
+      return existing.id;
+    }
+
+    const tab = await restoreTab(editor, {
+      id: `tab-${Date.now()}`,
+      title: baseName(path) || 'Untitled',
+      filePath: path,
+      viewMode: 'rich',
+      draft: null,
+      cursor: 0,
+      scrollTop: 0,
+    });
+    if (!tab) return null;
+    setTabs(prev => [...prev, tab]);
+    addToRecentFiles(path);
+    handleTabSelect(tab.id);
+    return tab.id;
+  }, [editor, handleTabSelect, addToRecentFiles]);
+
+  const handleCreateEntry = useCallback(async (path: string, directory: boolean) => {
+    try {
+      await createEntry(path, directory);
+    } catch (error) {
+      await message(String(error), { title: 'Cannot create', type: 'error' });
+      return;
+    }
+    await refreshWorkspace();
+    if (!directory) {
+      openFileInTab(path);
+    }
+  }, [refreshWorkspace, openFileInTab]);
+
+  // Rename or move an entry, carrying open tabs, recent files and open folders along
+  const handleMoveEntry = useCallback(async (from: string, to: string) => {
+    try {
+      await moveEntry(from, to);
+    } catch (error) {
+      await message(String(error), { title: 'Cannot move', type: 'error' });
+      return;
+    }
+
+    setTabs(prev => prev.map(tab => {
+      const filePath = tab.filePath && movedPath(tab.filePath, from, to);
+      return filePath
+        ? { ...tab, filePath, title: baseName(filePath), externalChange: null }
+        : tab;
+    }));
+    if (recentFiles.some(file => movedPath(file, from, to))) {
+      saveRecentFiles(recentFiles.map(file => movedPath(file, from, to) ?? file));
+    }
+    updateWorkspace({
+      expanded: workspace.expanded.map(folder => movedPath(folder, from, to) ?? folder)
+    });
+    refreshWorkspace();
+  }, [recentFiles, saveRecentFiles, workspace.expanded, updateWorkspace, refreshWorkspace]);
+
+  const handleDuplicateEntry = useCallback(async (path: string) => {
+    try {
+      await duplicateEntry(path);
+    } catch (error) {
+      await message(String(error), { title: 'Cannot duplicate', type: 'error' });
+      return;
+    }
+    refreshWorkspace();
+  }, [refreshWorkspace]);
+
+  const handleDeleteEntry = useCallback(async (path: string) => {
+    const confirmed = await confirm(`Move "${baseName(path)}" to the trash?`, {
+      title: 'Move to Trash',
+      type: 'warning'
+    });
+    if (!confirmed) return;
+
+    try {
+      await trashEntry(path);
+    } catch (error) {
+      await message(String(error), { title: 'Cannot move to trash', type: 'error' });
+      return;
+    }
+    // Tabs keep their contents and offer to save them elsewhere or close
+    for (const tab of tabsRef.current) {
+      if (tab.filePath && isWithin(tab.filePath, path)) {
+        updateTabExternalChange(tab.id, { kind: 'removed' });
+      }
+    }
+    refreshWorkspace();
+  }, [updateTabExternalChange, refreshWorkspace]);
+
+  // ========== Find in Files ==========
+  // Last Find in Files search, shown in the results panel
+  const [fileSearch, setFileSearch] = useState<{
+    request: FileSearchRequest;
+    results: FileSearchResults | null;  // Null while the search runs
+    error: string | null;
+  } | null>(null);
+  // Replace in Files changes waiting for confirmation
+  const [replacePreview, setReplacePreview] = useState<{
+    request: FileSearchRequest;
+    files: PreviewFile[];
+    edits: FileEdit[];
+  } | null>(null);
+  // Match to select once its tab is loaded in the editor
+  const pendingRevealRef = useRef<{ tabId: string; match: LineMatch } | null>(null);
+
+  const handleChooseSearchFolder = useCallback(async () => {
+    try {
+      const selected = await open({ directory: true });
+      if (selected && typeof selected === 'string') {
+        setSearchFolder(selected);
+      }
+    } catch (error) {
+      console.error('Error choosing search folder:', error);
+    }
+  }, []);
+
+  // Run a search and show it in the results panel; returns null on failure
+  const runFileSearch = useCallback(async (request: FileSearchRequest) => {
+    setFileSearch({ request, results: null, error: null });
+    try {
+      const results = await searchFiles(request);
+      // A newer search may have started meanwhile
+      setFileSearch(prev => prev?.request === request ? { ...prev, results } : prev);
+      return results;
+    } catch (error) {
+      console.error('Error searching files:', error);
+      setFileSearch(prev => prev?.request === request ? { ...prev, error: String(error) } : prev);
+      return null;
+    }
+  }, []);
+
+  // Search afresh and preview what replacing every match would change
+  const handleReplaceInFiles = useCallback(async (request: FileSearchRequest, replacement: string) => {
+    const results = await runFileSearch(request);
+    if (!results || results.files.length === 0) return;
+
+    const files: PreviewFile[] = [];
+    const edits: FileEdit[] = [];
+    for (const file of results.files) {
+      const replacements = file.matches.map(match => ({
+        line: match.line,
+        column: match.column,
+        length: match.length,
+        expected: match.text.slice(match.column, match.column + match.length),
+        replacement: request.regex
+          ? expandReplacement(replacement, Object.assign([...match.captures], { groups: match.named }))
+          : replacement,
+      }));
+      edits.push({ path: file.path, replacements });
+
+      // Each changed line once, with all of its replacements applied
+      const lines: PreviewLine[] = [];
+      file.matches.forEach((match, index) => {
+        const { column, length } = match;
+        const { replacement: text } = replacements[index];
+        const previous = lines[lines.length - 1];
+        if (previous && previous.line === match.line) {
+          const shift = previous.after.length - previous.before.length;
+          previous.after = previous.after.slice(0, column + shift) + text + previous.after.slice(column + shift + length);
+        } else {
+          lines.push({
+            line: match.line,
+            before: match.text,
+            after: match.text.slice(0, column) + text + match.text.slice(column + length),
+          });
+        }
+      });
+
+      files.push({
+        path: file.path,
+        label: relativePath(request.root, file.path),
+        count: file.matches.length,
+        lines,
+        openModified: tabsRef.current.some(tab => tab.filePath === file.path && tab.isModified),
+      });
+    }
+    setReplacePreview({ request, files, edits });
+  }, [runFileSearch]);
+
+  // Write the previewed changes, then search again to show what is left.
+  // Open tabs pick the new text up through the file watcher
+  const handleApplyReplace = useCallback(async (paths: string[]) => {
+    if (!replacePreview) return;
+    const { request, edits } = replacePreview;
+    setReplacePreview(null);
+    try {
+      const results = await replaceInFiles(edits.filter(edit => paths.includes(edit.path)));
+      const failed = results.filter(result => result.error !== null);
+      if (failed.length > 0) {
+        await message(
+          failed.map(result => `${relativePath(request.root, result.path)}: ${result.error}`).join('\n'),
+          { title: 'Some files were not changed', type: 'warning' }
+        );
+      }
+    } catch (error) {
+      console.error('Error replacing in files:', error);
+    }
+    runFileSearch(request);
+  }, [replacePreview, runFileSearch]);
+
+  // Select a pending match once its tab is the one in the editor
+  const revealPendingMatch = useCallback(() => {
+    const pending = pendingRevealRef.current;
+    if (!editor || !pending || pending.tabId !== loadedTabIdRef.current) return;
+    pendingRevealRef.current = null;
+    const tab = tabsRef.current.find(t => t.id === pending.tabId);
+    if (!tab) return;
+
+    // Queued after the tab switch restores its scroll offset
+    requestAnimationFrame(() => {
+      const { doc } = editor.state;
+      const text = serializeSourceText(doc, tab.source);
+      const lines = text.split('\n');
+      const { line, column, length } = pending.match;
+      let offset = column;
+      for (let i = 0; i < line - 1 && i < lines.length; i++) {
+        offset += lines[i].length + 1;
+      }
+      // Without a block layout the match can only be approximated by the start
+      const layout = parseMarkdownSource(editor.schema, text).source;
+      const from = layout ? sourceOffsetToPos(doc, layout, offset) : 1;
+      const to = layout ? Math.max(from, sourceOffsetToPos(doc, layout, offset + length)) : from;
+
+      if (tab.viewMode === 'source') {
+        sourcePaneRef.current?.focusAt(from);
+      } else {
+        editor.chain().focus().setTextSelection({ from, to }).scrollIntoView().run();
+      }
+    });
+  }, [editor]);
+
+  useEffect(() => {
+    revealPendingMatch();
+  }, [activeTab.id, revealPendingMatch]);
+
+  // Open a result's file, or focus its tab, and select the match
+  const handleOpenMatch = useCallback(async (path: string, match: LineMatch) => {
+    const tabId = await openFileInTab(path);
+    if (!tabId) return;
+    pendingRevealRef.current = { tabId, match };
+    // Selects now if the tab is already loaded, otherwise once it is
+    revealPendingMatch();
+  }, [openFileInTab, revealPendingMatch]);
+
+  // ========== Export ==========
+  // Remember the chosen options, ask where to write the page and write it
+  const handleExportHtml = useCallback(async (settings: HtmlExportSettings) => {
+    if (!editor) return;
+    setShowHtmlExport(false);
+    setHtmlExportSettings(settings);
+    saveHtmlExportSettings(settings);
+    // Export the document as it is now, not after edits made during the dialog
+    const doc = editor.state.doc;
+
+    try {
+      const targetPath = await save({
+        defaultPath: exportPathFor(activeTab, 'html'),
+        filters: [{
+          name: 'HTML',
+          extensions: ['html', 'htm']
+        }]
+      });
+      if (!targetPath) return;
+
+      const failed = await exportHtml({
+        doc,
+        title: activeTab.title,
+        sourcePath: activeTab.filePath,
+        targetPath,
+        settings
+      });
+      if (failed.length > 0) {
+        await message(
+          `These images could not be included:\n${failed.join('\n')}`,
+          { title: 'Export as HTML', type: 'warning' }
+        );
+      }
+    } catch (error) {
+      console.error('Failed to export HTML:', error);
+      await message(String(error), { title: 'Cannot export', type: 'error' });
+    }
+  }, [editor, activeTab]);
+
+  // Remember the page setup, ask where to write the PDF and print it
+  const handleExportPdf = useCallback(async (settings: PdfExportSettings) => {
+    if (!editor) return;
+    setShowPdfExport(false);
+    setPdfExportSettings(settings);
+    savePdfExportSettings(settings);
+    const doc = editor.state.doc;
+
+    try {
+      const targetPath = await save({
+        defaultPath: exportPathFor(activeTab, 'pdf'),
+        filters: [{
+          name: 'PDF',
+          extensions: ['pdf']
+        }]
+      });
+      if (!targetPath) return;
+
+      const failed = await exportPdf({
+        doc,
+        title: activeTab.title,
+        sourcePath: activeTab.filePath,
+        targetPath,
+        settings
+      });
+      if (failed.length > 0) {
+        await message(
+          `These images could not be included:\n${failed.join('\n')}`,
+          { title: 'Export as PDF', type: 'warning' }
+        );
+      }
+    } catch (error) {
+      console.error('Failed to export PDF:', error);
+      await message(String(error), { title: 'Cannot export', type: 'error' });
+    }
+  }, [editor, activeTab]);
+
+  // Ask where to write the Word file and convert the document into it
+  const handleExportDocx = useCallback(async () => {
+    if (!editor) return;
+    const doc = editor.state.doc;
+
+    try {
+      const targetPath = await save({
+        defaultPath: exportPathFor(activeTab, 'docx'),
+        filters: [{
+          name: 'Word Document',
+          extensions: ['docx']
+        }]
+      });
+      if (!targetPath) return;
+
+      const failed = await exportDocx({
+        doc,
+        title: activeTab.title,
+        sourcePath: activeTab.filePath,
+        targetPath
+      });
+      if (failed.length > 0) {
+        await message(
+          `These images could not be included:\n${failed.join('\n')}`,
+          { title: 'Export as DOCX', type: 'warning' }
+        );
+      }
+    } catch (error) {
+      console.error('Failed to export DOCX:', error);
+      await message(String(error), { title: 'Cannot export', type: 'error' });
+    }
+  }, [editor, activeTab]);
+
+  // ========== Images ==========
+  // Copy pasted or dropped image files into the document's assets folder
+  // and insert links to the copies where they landed
+  const handleImageFiles = useCallback(async (files: File[], pos: number, pasted: boolean) => {
+    if (!editor) return;
+    const { id: tabId, filePath } = activeTab;
+    if (!filePath) {
+      await message(
+        'Save the document first, so images can be copied into an assets folder beside it.',
+        { title: 'Add image', type: 'info' }
+      );
+      return;
+    }
+
+    try {
+      const images = [];
+      for (const file of files) {
+        const name = pasted ? pastedImageName(file.type) : file.name;
+        const data = new Uint8Array(await file.arrayBuffer());
+        const src = await saveImage(parentPath(filePath), imageSettings.assetsFolder, name, data);
+        images.push({ type: 'image', attrs: { src, alt: pasted ? null : file.name.replace(/\.[^.]+$/, '') } });
+      }
+      // The user may have moved on to another tab while the files were written
+      if (activeTabIdRef.current !== tabId) return;
+      const at = Math.min(pos, editor.state.doc.content.size);
+      editor.chain().focus().insertContentAt(at, images).run();
+    } catch (error) {
+      console.error('Failed to add image:', error);
+      await message(String(error), { title: 'Cannot add image', type: 'error' });
+    }
+  }, [editor, activeTab, imageSettings.assetsFolder]);
+
+  imageFilesRef.current = handleImageFiles;
+
+  // Choose an image file for the image dialog, copied into the assets
+  // folder; an unsaved document links the file where it is
+  const handleBrowseImage = useCallback(async (assetsFolder: string) => {
+    const selected = await open({
+      filters: [{
+        name: 'Images',
+        extensions: Object.keys(IMAGE_TYPES)
+      }]
+    });
+    if (!selected || typeof selected !== 'string') return null;
+    if (!activeTab.filePath) return encodeURI(selected.replace(/\\/g, '/'));
+
+    try {
+      return await copyImage(parentPath(activeTab.filePath), assetsFolder, selected);
+    } catch (error) {
+      console.error('Failed to copy image:', error);
+      await message(String(error), { title: 'Cannot add image', type: 'error' });
+      return null;
+    }
+  }, [activeTab.filePath]);
+
+  // Insert the image from the dialog, or update the selected one
+  const handleApplyImage = useCallback((image: ImageFields, assetsFolder: string) => {
+    if (!editor) return;
+    setShowImageDialog(false);
+    if (assetsFolder !== imageSettings.assetsFolder) {
+      const settings = { ...imageSettings, assetsFolder };
+      setImageSettings(settings);
+      saveImageSettings(settings);
+    }
+
+    const attrs = { src: image.src, alt: image.alt || null, title: image.title || null, width: image.width };
+    if (selectedImage(editor)) {
+      editor.chain().focus().updateAttributes('image', attrs).run();
+    } else {
+      editor.chain().focus().insertContent({ type: 'image', attrs }).run();
+    }
+  }, [editor, imageSettings]);
+
+  // ========== Links ==========
+  // Back and forward through followed links
+  const [linkHistory, setLinkHistory] = useState<LinkHistory>({ back: [], forward: [] });
+
+  // Heading or cursor position to show once its tab is the one in the editor
+  const pendingLocationRef = useRef<{ tabId: string; target: LocationTarget } | null>(null);
+
+  // Where the cursor is in the active document
+  const currentLocation = useCallback((): NavigationLocation | null => {
+    if (!editor) return null;
+    return { tabId: activeTab.id, filePath: activeTab.filePath, cursor: editor.state.selection.from };
+  }, [editor, activeTab.id, activeTab.filePath]);
+
+  // Remember where a link was followed from; following a new link drops
+  // the locations that were gone back from
+  const recordLocation = useCallback((location: NavigationLocation) => {
+    setLinkHistory(prev => ({ back: [...prev.back, location].slice(-MAX_LINK_HISTORY), forward: [] }));
+  }, []);
+
+  const revealPendingLocation = useCallback(() => {
+    const pending = pendingLocationRef.current;
+    if (!editor || !pending || pending.tabId !== loadedTabIdRef.current) return;
+    pendingLocationRef.current = null;
+    const tab = tabsRef.current.find(t => t.id === pending.tabId);
+    if (!tab) return;
+
+    // Queued after the tab switch restores its scroll offset
+    requestAnimationFrame(() => {
+      const { target } = pending;
+      if ('anchor' in target) {
+        const heading = headingAnchors(editor.state.doc).find(candidate => candidate.slug === target.anchor);
+        if (heading) {
+          revealHeading(heading.pos, tab.viewMode);
+        }
+      } else if (tab.viewMode === 'source') {
+        sourcePaneRef.current?.focusAt(Math.min(target.cursor, editor.state.doc.content.size));
+      } else {
+        const cursor = Math.min(target.cursor, editor.state.doc.content.size);
+        editor.chain().focus().setTextSelection(cursor).scrollIntoView().run();
+      }
+    });
+  }, [editor, revealHeading]);
+
+  useEffect(() => {
+    revealPendingLocation();
+  }, [activeTab.id, revealPendingLocation]);
+
+  // Show a place in a tab, reopening its file if the tab has been closed
+  const showLocation = useCallback(async (location: NavigationLocation, target: LocationTarget) => {
+    const open = tabsRef.current.some(tab => tab.id === location.tabId);
+    const tabId = open ? location.tabId : location.filePath ? await openFileInTab(location.filePath) : null;
+    if (!tabId) return;
+    pendingLocationRef.current = { tabId, target };
+    handleTabSelect(tabId);
+    // Shows it now if the tab is already loaded, otherwise once it is
+    revealPendingLocation();
+  }, [openFileInTab, handleTabSelect, revealPendingLocation]);
+
+  // Show a heading or the start of a document (null for the active one),
+  // remembering where the link was followed from
+  const followTo = useCallback(async (filePath: string | null, target: LocationTarget) => {
+    const here = currentLocation();
+    if (!here) return;
+    const tabId = filePath ? await openFileInTab(filePath) : here.tabId;
+    if (!tabId) return;
+    recordLocation(here);
+    await showLocation({ tabId, filePath: filePath ?? here.filePath, cursor: 0 }, target);
+  }, [currentLocation, openFileInTab, recordLocation, showLocation]);
+
+  // Follow a link: headings in this document, other Markdown documents in
+  // tabs (at a heading when the link has one), and web and mail links in
+  // the system's default application
+  const handleOpenLink = useCallback(async (href: string) => {
+    if (isExternalLink(href)) {
+      try {
+        await openExternal(href);
+      } catch (error) {
+        console.error('Failed to open link:', error);
+        await message(String(error), { title: 'Cannot open link', type: 'error' });
+      }
+      return;
+    }
+
+    try {
+      const { path, anchor } = splitLink(href);
+      const target: LocationTarget = anchor !== null ? { anchor } : { cursor: 0 };
+      if (!path) {
+        if (anchor !== null) {
+          await followTo(null, target);
+        }
+        return;
+      }
+
+      const filePath = linkedFilePath(path, activeTab.filePath);
+      if (!filePath) {
+        await message(
+          'Save the document first, so links relative to it can be followed.',
+          { title: 'Follow link', type: 'info' }
+        );
+        return;
+      }
+      if (!isMarkdownFile(filePath)) {
+        await message(`Only links to Markdown files open in a tab:\n${filePath}`, { title: 'Cannot open link', type: 'error' });
+        return;
+      }
+      if (!(await fs.exists(filePath))) {
+        await message(`The linked file does not exist:\n${filePath}`, { title: 'Cannot open link', type: 'error' });
+        return;
+      }
+      await followTo(filePath, target);
+    } catch (error) {
+      console.error('Failed to open link:', error);
+      await message(String(error), { title: 'Cannot open link', type: 'error' });
+    }
+  }, [activeTab.filePath, followTo]);
+
+  openLinkRef.current = handleOpenLink;
+
+  // Return to where the last link was followed from, or follow it again
+  const handleNavigateHistory = useCallback(async (direction: 'back' | 'forward') => {
+    const here = currentLocation();
+    const stack = linkHistory[direction];
+    const location = stack[stack.length - 1];
+    if (!here || !location) return;
+    setLinkHistory(prev => direction === 'back'
+      ? { back: prev.back.slice(0, -1), forward: [...prev.forward, here] }
+      : { back: [...prev.back, here], forward: prev.forward.slice(0, -1) }
+    );
+    await showLocation(location, { cursor: location.cursor });
+  }, [currentLocation, linkHistory, showLocation]);
+
+  // The edit form belongs to the document it was opened in
+  useEffect(() => {
+    setEditingLink(false);
+  }, [activeTab.id]);
+
+  // ========== Wiki Links ==========
+  // Folder whose notes `[[links]]` name, and the notes in it
+  const notesRoot = noteFolder(activeTab.filePath, workspace.root);
+  const [notes, setNotes] = useState<Note[]>([]);
+
+  // Re-read with the workspace tree, which follows added, removed and renamed files
+  useEffect(() => {
+    if (!notesRoot) {
+      setNotes([]);
+      return;
+    }
+    let cancelled = false;
+    readNotes(notesRoot)
+      .then(found => {
+        if (!cancelled) setNotes(found);
+      })
+      .catch(error => {
+        console.error('Error reading notes:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [notesRoot, workspaceEntries]);
+
+  // Mark links to notes that do not exist
+  useEffect(() => {
+    if (!editor) return;
+    setWikiLinkResolver(editor, notesRoot ? target => resolveNote(notes, target) !== null : null);
+  }, [editor, notes, notesRoot]);
+
+  // Open the note a wiki link names, at its heading if it has one
+  const handleFollowWikiLink = useCallback(async (attrs: WikiLinkAttrs) => {
+    const target: LocationTarget = attrs.anchor ? { anchor: slugify(attrs.anchor, new Map()) } : { cursor: 0 };
+    if (!attrs.target) {
+      await followTo(null, target);
+      return;
+    }
+    const note = resolveNote(notes, attrs.target);
+    if (!note) {
+      await message(
+        `There is no note named "${attrs.target}"${notesRoot ? ` in ${notesRoot}` : ''}.`,
+        { title: 'Cannot open link', type: 'info' }
+      );
+      return;
+    }
+    await followTo(note.path, target);
+  }, [notes, notesRoot, followTo]);
+
+  followWikiLinkRef.current = handleFollowWikiLink;
+
+  // Other notes linking to the active document, while the panel is open
+  const [showBacklinks, setShowBacklinks] = useState(false);
+  const [backlinks, setBacklinks] = useState<{ files: FileMatches[] | null; error: string | null }>({ files: null, error: null });
+  const [backlinksVersion, setBacklinksVersion] = useState(0);
+
+  useEffect(() => {
+    const documentPath = activeTab.filePath;
+    if (!showBacklinks || !notesRoot || !documentPath) return;
+    let cancelled = false;
+    setBacklinks({ files: null, error: null });
+    findBacklinks(notesRoot, documentPath, notes)
+      .then(files => {
+        if (!cancelled) setBacklinks({ files, error: null });
+      })
+      .catch(error => {
+        console.error('Error finding backlinks:', error);
+        if (!cancelled) setBacklinks({ files: null, error: String(error) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [showBacklinks, notesRoot, activeTab.filePath, notes, backlinksVersion]);
+
+  // ========== Paste ==========
+  // Insert the clipboard's text without its formatting
+  const handlePastePlainText = useCallback(async () => {
+    if (!editor) return;
+    const text = await readText();
+    if (text) {
+      editor.chain().focus().insertPlainText(text).run();
+    }
+  }, [editor]);
+
+  // Insert the clipboard's text parsed as Markdown
+  const handlePasteMarkdown = useCallback(async () => {
+    if (!editor) return;
+    const text = await readText();
+    if (text) {
+      editor.chain().focus().insertMarkdown(text).run();
+    }
+  }, [editor]);
 
   // ========== Keyboard Shortcuts Handler ==========
   // Global keyboard shortcuts for all editor operations
@@ -373,7 +2038,12 @@ function App() {
     const handleKeyDown = (event: KeyboardEvent) => {
       if (!editor) return;
 
-      const { ctrlKey, shiftKey, key } = event;
+      const { ctrlKey, shiftKey, altKey, key } = event;
+
+      // Formatting and undo keys act on the text while typing in the source pane
+      const inSourcePane = event.target instanceof HTMLTextAreaElement &&
+        event.target.classList.contains('source-editor');
+      if (inSourcePane && SOURCE_PANE_KEYS.includes(key)) return;
 
       if (ctrlKey && !shiftKey) {
         switch (key) {
@@ -420,6 +2090,13 @@ function App() {
             event.preventDefault();
             editor.chain().focus().redo().run();
             break;
+          case 'v':
+            // Plain Ctrl+V is the editor's own paste
+            if (event.altKey) {
+              event.preventDefault();
+              handlePasteMarkdown();
+            }
+            break;
           case 'f':
             event.preventDefault();
             setShowFindReplace(true);
@@ -430,10 +2107,7 @@ function App() {
             break;
           case 'l':
             event.preventDefault();
-            const url = window.prompt('Enter link URL:');
-            if (url) {
-              editor.chain().focus().setLink({ href: url }).run();
-            }
+            setEditingLink(true);
             break;
           case '0':
             event.preventDefault();
@@ -454,7 +2128,7 @@ function App() {
             // Cycle to next tab (wraps to first after last)
             const currentIndex = tabs.findIndex(tab => tab.id === activeTabId);
             const nextIndex = (currentIndex + 1) % tabs.length;
-            setActiveTabId(tabs[nextIndex].id);
+            handleTabSelect(tabs[nextIndex].id);
             break;
         }
       } else if (ctrlKey && shiftKey) {
@@ -463,6 +2137,10 @@ function App() {
             event.preventDefault();
             handleSaveAsFile();
             break;
+          case 'V':
+            event.preventDefault();
+            handlePastePlainText();
+            break;
           case 'C':
             event.preventDefault();
             editor.chain().focus().toggleCodeBlock().run();
@@ -480,7 +2158,18 @@ function App() {
             // Switch to previous tab
             const currentIndex = tabs.findIndex(tab => tab.id === activeTabId);
             const prevIndex = currentIndex === 0 ? tabs.length - 1 : currentIndex - 1;
-            setActiveTabId(tabs[prevIndex].id);
+            handleTabSelect(tabs[prevIndex].id);
+            break;
+        }
+      } else if (altKey && !shiftKey) {
+        switch (key) {
+          case 'ArrowLeft':
+            event.preventDefault();
+            handleNavigateHistory('back');
+            break;
+          case 'ArrowRight':
+            event.preventDefault();
+            handleNavigateHistory('forward');
             break;
         }
       }
@@ -488,28 +2177,33 @@ function App() {
 
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [editor, handleNewFile, handleOpenFile, handleSaveFile, handleSaveAsFile, handleOpenRecentFile, recentFiles, createNewTab, handleCloseTab, activeTabId, tabs]);
+  }, [editor, handleNewFile, handleOpenFile, handleSaveFile, handleSaveAsFile, handleOpenRecentFile, recentFiles, createNewTab, handleCloseTab, handleTabSelect, handlePastePlainText, handlePasteMarkdown, handleNavigateHistory, activeTabId, tabs]);
 
   // ========== Window Close Handler ==========
-  // Prevent accidental data loss when closing the application
+  // Unsaved changes are kept as session drafts, so closing just writes the
+  // session, unless the drafts could not be kept
   useEffect(() => {
-    const handleWindowClose = async (event: any) => {
-      // Check if any tab has unsaved changes
-      const hasUnsavedChanges = tabs.some(tab => tab.isModified);
-      if (hasUnsavedChanges) {
+    const handleWindowClose = async (event: CloseRequestedEvent) => {
+      if (await persistSession() || !tabsRef.current.some(tab => tab.isModified)) return;
+      const proceed = await confirm(
+        'Unsaved changes could not be kept for the next session. Close and discard them?',
+        { title: 'Confirm', type: 'warning' }
+      );
+      if (!proceed) {
         event.preventDefault();
-        const proceed = await checkUnsavedChanges();
-        if (proceed) {
-          await appWindow.close();
-        }
       }
     };
 
     const unlisten = appWindow.onCloseRequested(handleWindowClose);
+    const handleBeforeUnload = () => {
+      persistSession();
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
     return () => {
       unlisten.then((fn) => fn());
+      window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [tabs, checkUnsavedChanges]);
+  }, [persistSession]);
 
   if (!editor) {
     return <div>Loading...</div>;
@@ -536,30 +2230,193 @@ function App() {
         editor={editor}
         onNewFile={handleNewFile}
         onOpenFile={handleOpenFile}
+        onOpenFolder={handleOpenFolder}
         onSaveFile={handleSaveFile}
         onSaveAsFile={handleSaveAsFile}
+        onExportHtml={() => setShowHtmlExport(true)}
+        onExportPdf={() => setShowPdfExport(true)}
+        onExportDocx={handleExportDocx}
+        onPastePlainText={handlePastePlainText}
+        onPasteMarkdown={handlePasteMarkdown}
+        onEditLink={() => setEditingLink(true)}
+        canGoBack={linkHistory.back.length > 0}
+        canGoForward={linkHistory.forward.length > 0}
+        onGoBack={() => handleNavigateHistory('back')}
+        onGoForward={() => handleNavigateHistory('forward')}
+        onInsertImage={() => setShowImageDialog(true)}
         onFindReplace={() => setShowFindReplace(true)}
         onOpenRecentFile={handleOpenRecentFile}
         currentFile={activeTab.filePath}
         isModified={activeTab.isModified}
         recentFiles={recentFiles}
+        viewMode={activeTab.viewMode}
+        onViewModeChange={handleViewModeChange}
+        showOutline={showOutline}
+        onToggleOutline={() => setShowOutline(!showOutline)}
+        showBacklinks={showBacklinks}
+        onToggleBacklinks={() => setShowBacklinks(!showBacklinks)}
+        autosaveMode={autosave.mode}
+        onAutosaveModeChange={handleAutosaveModeChange}
       />
       <TabBar
         tabs={tabs}
         activeTabId={activeTabId}
-        onTabSelect={setActiveTabId}
+        onTabSelect={handleTabSelect}
         onTabClose={handleCloseTab}
         onNewTab={createNewTab}
       />
-      <div className="editor-container" onClick={handleEditorContainerClick}>
-        <EditorContent editor={editor} className="editor" />
+      {activeTab.externalChange && (
+        <ExternalChangeBanner
+          change={activeTab.externalChange}
+          fileName={activeTab.title}
+          onReload={handleReloadFromDisk}
+          onKeepMine={handleKeepMine}
+          onMerge={handleOpenMerge}
+          onFollowRename={handleFollowRename}
+          onCloseTab={() => handleCloseTab(activeTab.id)}
+        />
+      )}
+      <div className="editor-panes">
+        {workspace.root && (
+          <WorkspaceSidebar
+            root={workspace.root}
+            entries={workspaceEntries}
+            error={workspaceError}
+            activePath={activeTab.filePath}
+            expanded={workspace.expanded}
+            showImages={workspace.showImages}
+            onToggleFolder={handleToggleFolder}
+            onToggleImages={() => updateWorkspace({ showImages: !workspace.showImages })}
+            onOpenFile={openFileInTab}
+            onCreate={handleCreateEntry}
+            onMove={handleMoveEntry}
+            onDuplicate={handleDuplicateEntry}
+            onDelete={handleDeleteEntry}
+            onRefresh={refreshWorkspace}
+            onClose={handleCloseFolder}
+          />
+        )}
+        {activeTab.viewMode !== 'rich' && (
+          <SourcePane
+            ref={sourcePaneRef}
+            editor={editor}
+            value={sourceText}
+            layout={sourceLayout}
+            syncScroll={activeTab.viewMode === 'split'}
+            richContainerRef={richContainerRef}
+            onChange={handleSourceChange}
+          />
+        )}
+        {/* Rich view stays mounted in source mode so the editor keeps its view */}
+        <div
+          ref={richContainerRef}
+          className="editor-container"
+          style={{ display: activeTab.viewMode === 'source' ? 'none' : undefined }}
+          onClick={handleEditorContainerClick}
+        >
+          <PropertiesPanel editor={editor} />
+          <EditorContent editor={editor} className="editor" />
+          {activeTab.viewMode !== 'source' && (
+            <LinkPopover
+              editor={editor}
+              editing={editingLink}
+              documentPath={activeTab.filePath}
+              onEdit={() => setEditingLink(true)}
+              onClose={() => setEditingLink(false)}
+              onOpen={handleOpenLink}
+            />
+          )}
+          {activeTab.viewMode !== 'source' && (
+            <WikiLinkSuggestions ref={wikiSuggestionsRef} editor={editor} notes={notes} />
+          )}
+        </div>
+        {showOutline && (
+          <OutlinePanel
+            editor={editor}
+            onNavigate={handleOutlineNavigate}
+            onClose={() => setShowOutline(false)}
+          />
+        )}
+        {showBacklinks && (
+          <BacklinksPanel
+            root={activeTab.filePath ? notesRoot : null}
+            backlinks={backlinks.files}
+            error={backlinks.error}
+            onOpenMatch={handleOpenMatch}
+            onRefresh={() => setBacklinksVersion(version => version + 1)}
+            onClose={() => setShowBacklinks(false)}
+          />
+        )}
       </div>
+      {fileSearch && (
+        <SearchResultsPanel
+          root={fileSearch.request.root}
+          search={fileSearch.request.search}
+          results={fileSearch.results}
+          error={fileSearch.error}
+          onOpenMatch={handleOpenMatch}
+          onClose={() => setFileSearch(null)}
+        />
+      )}
       {showFindReplace && (
         <FindReplaceDialog
           editor={editor}
+          searchFolder={searchFolder}
+          onChooseSearchFolder={handleChooseSearchFolder}
+          onSearchFiles={runFileSearch}
+          onReplaceInFiles={handleReplaceInFiles}
           onClose={() => setShowFindReplace(false)}
         />
       )}
+      {showHtmlExport && (
+        <HtmlExportDialog
+          settings={htmlExportSettings}
+          onExport={handleExportHtml}
+          onCancel={() => setShowHtmlExport(false)}
+        />
+      )}
+      {showPdfExport && (
+        <PdfExportDialog
+          settings={pdfExportSettings}
+          onExport={handleExportPdf}
+          onCancel={() => setShowPdfExport(false)}
+        />
+      )}
+      {showImageDialog && (
+        <ImageDialog
+          image={selectedImage(editor) ?? { src: '', alt: '', title: '', width: null }}
+          editing={selectedImage(editor) !== null}
+          assetsFolder={imageSettings.assetsFolder}
+          onBrowse={handleBrowseImage}
+          onApply={handleApplyImage}
+          onCancel={() => setShowImageDialog(false)}
+        />
+      )}
+      {replacePreview && (
+        <ReplacePreviewDialog
+          files={replacePreview.files}
+          onApply={handleApplyReplace}
+          onCancel={() => setReplacePreview(null)}
+        />
+      )}
+      {mergeInput && (
+        <MergeDialog
+          fileName={activeTab.title}
+          base={mergeInput.base}
+          mine={mergeInput.mine}
+          theirs={mergeInput.theirs}
+          onApply={handleApplyMerge}
+          onCancel={() => setMergeInput(null)}
+        />
+      )}
+      {recoveryItems.length > 0 && (
+        <RecoveryDialog
+          items={recoveryItems}
+          onRecover={handleRecover}
+          onDiscard={handleDiscardRecovery}
+          onClose={() => setRecoveryItems([])}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,29 @@
+// When file-backed tabs are written to disk without an explicit save
+export type AutosaveMode = 'off' | 'delay' | 'focus' | 'tabSwitch';
+
+export interface AutosaveSettings {
+  mode: AutosaveMode;
+  delay: number;  // Idle time before saving in 'delay' mode (ms)
+}
+
+const AUTOSAVE_KEY = 'docmarkings-autosave';
+
+export const DEFAULT_AUTOSAVE: AutosaveSettings = { mode: 'off', delay: 2000 };
+
+export const loadAutosaveSettings = (): AutosaveSettings => {
+  try {
+    const saved = localStorage.getItem(AUTOSAVE_KEY);
+    return saved ? { ...DEFAULT_AUTOSAVE, ...JSON.parse(saved) } : DEFAULT_AUTOSAVE;
+  } catch (error) {
+    console.error('Error loading autosave settings:', error);
+    return DEFAULT_AUTOSAVE;
+  }
+};
+
+export const saveAutosaveSettings = (settings: AutosaveSettings) => {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving autosave settings:', error);
+  }
+};
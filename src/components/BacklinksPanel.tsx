@@ -0,0 +1,84 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { FileMatches, LineMatch } from '../fileSearch';
+import { relativePath } from './SearchResultsPanel';
+
+// Props for BacklinksPanel component
+interface BacklinksPanelProps {
+  root: string | null;                                   // Note folder, for showing paths
+  backlinks: FileMatches[] | null;                       // Null while looking
+  error: string | null;                                  // Why the search failed
+  onOpenMatch: (path: string, match: LineMatch) => void; // Open the linking file at the link
+  onRefresh: () => void;                                 // Look again
+  onClose: () => void;                                   // Close panel handler
+}
+
+// Most characters of the linking line shown around the link
+const SNIPPET_LENGTH = 140;
+
+// The linking line, shortened around the link
+const snippet = ({ text, column }: LineMatch) => {
+  const start = Math.max(0, Math.min(column - 40, text.length - SNIPPET_LENGTH));
+  const end = start + SNIPPET_LENGTH;
+  return (start > 0 ? '…' : '') + text.slice(start, end).trim() + (end < text.length ? '…' : '');
+};
+
+/**
+ * BacklinksPanel Component
+ * Other notes that link to the active document, beside the editor
+ * Features:
+ * - Wiki links (`[[Note]]`) and Markdown links resolving to the document
+ * - One entry per linking line, with the line as context
+ * - Click an entry to open or focus the linking note at the link
+ */
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({
+  root,
+  backlinks,
+  error,
+  onOpenMatch,
+  onRefresh,
+  onClose
+}) => {
+  const total = backlinks?.reduce((count, file) => count + file.matches.length, 0) ?? 0;
+
+  return (
+    <div className="outline-panel">
+      <div className="outline-header">
+        <span style={{ flex: 1, fontWeight: 600 }}>Backlinks{backlinks && total > 0 ? ` (${total})` : ''}</span>
+        <button className="toolbar-button" onClick={onRefresh} title="Refresh Backlinks">
+          <RefreshCw size={14} />
+        </button>
+        <button className="toolbar-button" onClick={onClose} title="Close Backlinks">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="outline-list">
+        {(error || !root || !backlinks || total === 0) && (
+          <div style={{ padding: '8px', color: error ? '#d32f2f' : '#999', fontSize: '12px' }}>
+            {error ?? (!root
+              ? 'Save the document to see the notes that link to it.'
+              : !backlinks
+                ? 'Looking for links…'
+                : 'No other notes link here.')}
+          </div>
+        )}
+        {root && backlinks?.map(file => (
+          <div key={file.path}>
+            <div className="backlink-file" title={file.path}>{relativePath(root, file.path)}</div>
+            {file.matches.map((match, index) => (
+              <div
+                key={index}
+                className="backlink-snippet"
+                onClick={() => onOpenMatch(file.path, match)}
+              >
+                {snippet(match)}
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BacklinksPanel;
@@ -0,0 +1,94 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+// Change made to a tab's file by another program, waiting for the user to decide
+export type ExternalChange =
+  | { kind: 'modified'; text: string; mtime: number | null } // New file contents on disk
+  | { kind: 'removed' }
+  | { kind: 'renamed'; newPath: string };
+
+// Props for ExternalChangeBanner component
+interface ExternalChangeBannerProps {
+  change: ExternalChange;        // What happened to the file
+  fileName: string;              // Name of the tab's file
+  onReload: () => void;          // Replace the tab with the file on disk
+  onKeepMine: () => void;        // Keep the tab's content; the next save overwrites
+  onMerge: () => void;           // Open the three-way merge view
+  onFollowRename: () => void;    // Point the tab at the renamed file
+  onCloseTab: () => void;        // Close the tab of a deleted file
+}
+
+const bannerButtonStyle: React.CSSProperties = {
+  padding: '4px 10px',
+  border: '1px solid #d6b656',
+  borderRadius: '4px',
+  background: 'white',
+  cursor: 'pointer',
+  fontSize: '12px'
+};
+
+/**
+ * ExternalChangeBanner Component
+ * Shown above the editor when the active tab's file changed outside the app
+ * Features:
+ * - Reload, keep mine or merge when the file was modified
+ * - Follow the new name when the file was renamed
+ * - Keep the content or close the tab when the file was deleted
+ */
+const ExternalChangeBanner: React.FC<ExternalChangeBannerProps> = ({
+  change,
+  fileName,
+  onReload,
+  onKeepMine,
+  onMerge,
+  onFollowRename,
+  onCloseTab
+}) => {
+  const newName = change.kind === 'renamed'
+    ? change.newPath.split('\\').pop() || change.newPath.split('/').pop()
+    : '';
+
+  return (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: '8px',
+      padding: '6px 12px',
+      background: '#fff8e1',
+      borderBottom: '1px solid #f0d98c',
+      fontSize: '13px'
+    }}>
+      <AlertTriangle size={14} style={{ color: '#b7791f', flexShrink: 0 }} />
+      <span style={{ flex: 1 }}>
+        {change.kind === 'modified' && `${fileName} was changed by another program.`}
+        {change.kind === 'removed' && `${fileName} was deleted from disk. Saving will create it again.`}
+        {change.kind === 'renamed' && `${fileName} was renamed to ${newName}.`}
+      </span>
+      {change.kind === 'modified' && (
+        <>
+          <button style={bannerButtonStyle} onClick={onReload} title="Discard your changes and load the file from disk">
+            Reload
+          </button>
+          <button style={bannerButtonStyle} onClick={onMerge} title="Combine your changes with the file on disk">
+            Merge…
+          </button>
+        </>
+      )}
+      {change.kind === 'renamed' && (
+        <button style={bannerButtonStyle} onClick={onFollowRename}>
+          Use New Name
+        </button>
+      )}
+      <button style={bannerButtonStyle} onClick={onKeepMine} title="Keep your version; saving overwrites the file">
+        Keep Mine
+      </button>
+      {change.kind === 'removed' && (
+        <button style={bannerButtonStyle} onClick={onCloseTab}>
+          Close Tab
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ExternalChangeBanner;
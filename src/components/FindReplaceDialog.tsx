@@ -1,119 +1,187 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useReducer } from 'react';
 import { Editor } from '@tiptap/react';
+import { currentMatchIndex, getSearchState } from '../extensions/SearchAndReplace';
+import { FileSearchRequest, parseGlobs } from '../fileSearch';
 
 // Props for FindReplaceDialog component
 interface FindReplaceDialogProps {
-  editor: Editor;       // TipTap editor instance
-  onClose: () => void;  // Close dialog handler
+  editor: Editor;                                   // TipTap editor instance
+  searchFolder: string | null;                      // Folder for Find in Files
+  onChooseSearchFolder: () => void;                 // Pick the Find in Files folder
+  onSearchFiles: (request: FileSearchRequest) => void;                         // Run Find in Files
+  onReplaceInFiles: (request: FileSearchRequest, replacement: string) => void; // Preview Replace in Files
+  onClose: () => void;                              // Close dialog handler
 }
 
 /**
  * FindReplaceDialog Component
  * Provides find and replace functionality for the editor
  * Features:
- * - Find text with case sensitivity option
- * - Replace single or all occurrences
- * - Match counter display
- * - Keyboard shortcuts (Enter for find, Shift+Enter for replace, Esc to close)
+ * - Searches the document text, with every match highlighted
+ * - Next/previous navigation with an "n of m" counter
+ * - Case sensitive, whole word, regular expression and in-selection options
+ * - Replacements use capture groups ($1, $<name>) in regex mode
+ * - Replace All is a single undo step
+ * - Files scope searches a folder, with include/exclude globs, and shows
+ *   the results in a panel; Replace in Files is previewed first
+ * - Keyboard shortcuts (Enter for next, Shift+Enter for previous, Enter in
+ *   the replace field to replace, Esc to close)
  */
-const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({ editor, onClose }) => {
+const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({
+  editor,
+  searchFolder,
+  onChooseSearchFolder,
+  onSearchFiles,
+  onReplaceInFiles,
+  onClose
+}) => {
   // Dialog state management
-  const [findText, setFindText] = useState('');         // Search query
-  const [replaceText, setReplaceText] = useState('');   // Replacement text
-  const [caseSensitive, setCaseSensitive] = useState(false);  // Case sensitivity toggle
-  const [, setCurrentMatch] = useState(0);              // Current match position (for future enhancement)
-  const [totalMatches, setTotalMatches] = useState(0);  // Total matches found
-
-  // Escape special regex characters to treat them as literals
-  const escapeRegex = (string: string) => {
-    return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-  };
+  const [findText, setFindText] = useState(() => {
+    // Start from the selected text when it is a short single line
+    const { from, to } = editor.state.selection;
+    const selected = editor.state.doc.textBetween(from, to, '\n');
+    return selected.includes('\n') || selected.length > 100 ? '' : selected;
+  });
+  const [replaceText, setReplaceText] = useState('');        // Replacement text
+  const [caseSensitive, setCaseSensitive] = useState(false); // Case sensitivity toggle
+  const [wholeWord, setWholeWord] = useState(false);         // Whole word toggle
+  const [useRegex, setUseRegex] = useState(false);           // Regular expression toggle
+  const [inSelection, setInSelection] = useState(false);     // Search-in-selection toggle
+  const [scope, setScope] = useState<'document' | 'files'>('document'); // What to search
+  const [includeText, setIncludeText] = useState('');        // Find in Files include globs
+  const [excludeText, setExcludeText] = useState('');        // Find in Files exclude globs
 
-  // Find next occurrence and update match counter
-  const findNext = () => {
-    if (!findText) return;
-
-    const content = editor.getHTML();
-    const flags = caseSensitive ? 'g' : 'gi';
-    const regex = new RegExp(escapeRegex(findText), flags);
-    const matches = content.match(regex);
-
-    if (matches) {
-      setTotalMatches(matches.length);
-      // TODO: Implement proper highlighting and navigation between matches
-      // Current implementation only shows match count
-    } else {
-      setTotalMatches(0);
-      setCurrentMatch(0);
-    }
-  };
+  // Re-render as the editor's search results and selection change
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => {
+    editor.on('transaction', forceUpdate);
+    return () => {
+      editor.off('transaction', forceUpdate);
+    };
+  }, [editor]);
 
-  // Replace the next occurrence of the search text
-  const replaceNext = () => {
-    if (!findText) return;
+  // Search again whenever the query or its options change; the document is
+  // not highlighted while searching files
+  useEffect(() => {
+    editor.commands.setSearchQuery(findText && scope === 'document'
+      ? { search: findText, caseSensitive, regex: useRegex, wholeWord, inSelection }
+      : null
+    );
+  }, [editor, findText, caseSensitive, useRegex, wholeWord, inSelection, scope]);
 
-    const content = editor.getHTML();
-    const flags = caseSensitive ? '' : 'i';
-    const regex = new RegExp(escapeRegex(findText), flags);
-    const newContent = content.replace(regex, replaceText);
+  // Remove the highlights when the dialog closes
+  useEffect(() => {
+    return () => {
+      editor.commands.setSearchQuery(null);
+    };
+  }, [editor]);
 
-    if (newContent !== content) {
-      editor.commands.setContent(newContent);
-      findNext(); // Update match count after replacement
-    }
-  };
+  const { matches, error } = getSearchState(editor.state);
+  const current = currentMatchIndex(editor.state);
 
-  // Replace all occurrences of the search text
-  const replaceAll = () => {
-    if (!findText) return;
+  const findNext = () => editor.commands.findNext();
+  const findPrevious = () => editor.commands.findPrevious();
+  const replaceNext = () => editor.commands.replaceNext(replaceText);
+  const replaceAll = () => editor.commands.replaceAll(replaceText);
 
-    const content = editor.getHTML();
-    const flags = caseSensitive ? 'g' : 'gi';
-    const regex = new RegExp(escapeRegex(findText), flags);
-    const newContent = content.replace(regex, replaceText);
+  // Find in Files request from the current fields
+  const fileRequest = (): FileSearchRequest | null => searchFolder && findText ? {
+    root: searchFolder,
+    search: findText,
+    caseSensitive,
+    regex: useRegex,
+    wholeWord,
+    include: parseGlobs(includeText),
+    exclude: parseGlobs(excludeText)
+  } : null;
 
-    if (newContent !== content) {
-      editor.commands.setContent(newContent);
-      setTotalMatches(0);  // Reset counters after replacing all
-      setCurrentMatch(0);
-    }
+  const findInFiles = () => {
+    const request = fileRequest();
+    if (request) onSearchFiles(request);
   };
 
-  // Keyboard shortcuts handler
-  useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Escape') {
-        onClose();  // Close dialog on Escape key
-      } else if (event.key === 'Enter') {
-        event.preventDefault();
-        if (event.shiftKey) {
-          replaceNext();  // Shift+Enter to replace
-        } else {
-          findNext();     // Enter to find next
-        }
-      }
-    };
+  const replaceInFiles = () => {
+    const request = fileRequest();
+    if (request) onReplaceInFiles(request, replaceText);
+  };
 
-    document.addEventListener('keydown', handleKeyDown);
-    return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [onClose]);
+  // Keyboard shortcuts handler, scoped to the dialog
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();  // Close dialog on Escape key
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      if (scope === 'files') {
+        findInFiles();  // Enter runs Find in Files
+      } else if (event.target instanceof HTMLInputElement && event.target.name === 'replace') {
+        replaceNext();  // Enter in the replace field replaces
+      } else if (event.shiftKey) {
+        findPrevious(); // Shift+Enter to find previous
+      } else {
+        findNext();     // Enter to find next
+      }
+    }
+  };
 
-  // Auto-search when find text or case sensitivity changes
-  useEffect(() => {
-    findNext();
-  }, [findText, caseSensitive]);
+  // Match counter text
+  const status = error
+    ? error
+    : !findText || scope === 'files'
+      ? ''
+      : matches.length === 0
+        ? 'No results'
+        : current === -1
+          ? `${matches.length} match${matches.length !== 1 ? 'es' : ''}`
+          : `${current + 1} of ${matches.length}`;
 
   return (
-    <div className="find-replace-dialog">
+    <div className="find-replace-dialog" onKeyDown={handleKeyDown}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
         <h3 style={{ margin: 0, fontSize: '16px' }}>Find & Replace</h3>
         <button onClick={onClose} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
       </div>
 
+      {/* Search scope */}
+      <select
+        value={scope}
+        onChange={(e) => setScope(e.target.value as 'document' | 'files')}
+        style={{ width: '100%', marginBottom: '8px', padding: '4px' }}
+      >
+        <option value="document">Current document</option>
+        <option value="files">Files in folder</option>
+      </select>
+
+      {/* Folder and file filters for Find in Files */}
+      {scope === 'files' && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px', fontSize: '12px' }}>
+            <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: searchFolder ? '#333' : '#999' }}>
+              {searchFolder ?? 'No folder chosen'}
+            </span>
+            <button onClick={onChooseSearchFolder}>Choose Folder…</button>
+          </div>
+          <input
+            type="text"
+            name="include"
+            placeholder="Files to include (e.g. *.md, notes/**)"
+            value={includeText}
+            onChange={(e) => setIncludeText(e.target.value)}
+          />
+          <input
+            type="text"
+            name="exclude"
+            placeholder="Files to exclude (e.g. drafts/**)"
+            value={excludeText}
+            onChange={(e) => setExcludeText(e.target.value)}
+          />
+        </>
+      )}
+
       {/* Find input field */}
       <input
         type="text"
-        placeholder="Find..."
+        name="find"
+        placeholder={useRegex ? 'Find (regular expression)...' : 'Find...'}
         value={findText}
         onChange={(e) => setFindText(e.target.value)}
         autoFocus
@@ -122,13 +190,14 @@ const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({ editor, onClose }
       {/* Replace input field */}
       <input
         type="text"
-        placeholder="Replace with..."
+        name="replace"
+        placeholder={useRegex ? 'Replace with ($1, $<name>)...' : 'Replace with...'}
         value={replaceText}
         onChange={(e) => setReplaceText(e.target.value)}
       />
 
-      {/* Case sensitivity option */}
-      <div style={{ margin: '8px 0' }}>
+      {/* Search options */}
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '4px', margin: '8px 0' }}>
         <label style={{ display: 'flex', alignItems: 'center', fontSize: '14px' }}>
           <input
             type="checkbox"
@@ -138,24 +207,62 @@ const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({ editor, onClose }
           />
           Case sensitive
         </label>
+        <label style={{ display: 'flex', alignItems: 'center', fontSize: '14px' }}>
+          <input
+            type="checkbox"
+            checked={wholeWord}
+            onChange={(e) => setWholeWord(e.target.checked)}
+            style={{ marginRight: '6px' }}
+          />
+          Whole word
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', fontSize: '14px' }}>
+          <input
+            type="checkbox"
+            checked={useRegex}
+            onChange={(e) => setUseRegex(e.target.checked)}
+            style={{ marginRight: '6px' }}
+          />
+          Regular expression
+        </label>
+        {scope === 'document' && (
+          <label style={{ display: 'flex', alignItems: 'center', fontSize: '14px' }}>
+            <input
+              type="checkbox"
+              checked={inSelection}
+              onChange={(e) => setInSelection(e.target.checked)}
+              style={{ marginRight: '6px' }}
+            />
+            In selection
+          </label>
+        )}
       </div>
 
       {/* Match counter display */}
-      {totalMatches > 0 && (
-        <div style={{ fontSize: '12px', color: '#666', margin: '4px 0' }}>
-          {totalMatches} match{totalMatches !== 1 ? 'es' : ''} found
+      {status && (
+        <div style={{ fontSize: '12px', color: error ? '#d32f2f' : '#666', margin: '4px 0' }}>
+          {status}
         </div>
       )}
 
       {/* Action buttons */}
-      <div className="buttons">
-        <button onClick={findNext}>Find Next</button>
-        <button onClick={replaceNext}>Replace</button>
-        <button onClick={replaceAll}>Replace All</button>
-        <button onClick={onClose}>Close</button>
-      </div>
+      {scope === 'document' ? (
+        <div className="buttons">
+          <button onClick={findPrevious} disabled={matches.length === 0}>Previous</button>
+          <button onClick={findNext} disabled={matches.length === 0}>Next</button>
+          <button onClick={replaceNext} disabled={matches.length === 0}>Replace</button>
+          <button onClick={replaceAll} disabled={matches.length === 0}>Replace All</button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      ) : (
+        <div className="buttons">
+          <button onClick={findInFiles} disabled={!searchFolder || !findText}>Find All</button>
+          <button onClick={replaceInFiles} disabled={!searchFolder || !findText}>Replace in Files…</button>
+          <button onClick={onClose}>Close</button>
+        </div>
+      )}
     </div>
   );
 };
 
-export default FindReplaceDialog;
\ No newline at end of file
+export default FindReplaceDialog;
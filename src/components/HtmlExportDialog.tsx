@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ExportTheme, HtmlExportSettings, ImageMode } from '../export/html';
+
+// Props for HtmlExportDialog component
+interface HtmlExportDialogProps {
+  settings: HtmlExportSettings;                         // Choices from the last export
+  onExport: (settings: HtmlExportSettings) => void;     // Choose a file and export
+  onCancel: () => void;                                 // Close without exporting
+}
+
+const THEMES: { theme: ExportTheme; label: string }[] = [
+  { theme: 'light', label: 'Light' },
+  { theme: 'dark', label: 'Dark' },
+];
+
+const IMAGE_MODES: { mode: ImageMode; label: string }[] = [
+  { mode: 'inline', label: 'Embed in the HTML file' },
+  { mode: 'folder', label: 'Copy to a folder beside it' },
+];
+
+/**
+ * HtmlExportDialog Component
+ * Options for exporting the active document as a standalone web page
+ * Features:
+ * - Light or dark theme
+ * - Local images embedded as data URIs or copied to a sibling folder
+ * - Optional table of contents built from the headings
+ */
+const HtmlExportDialog: React.FC<HtmlExportDialogProps> = ({
+  settings,
+  onExport,
+  onCancel
+}) => {
+  const [choices, setChoices] = useState(settings);
+
+  const update = (changes: Partial<HtmlExportSettings>) =>
+    setChoices(prev => ({ ...prev, ...changes }));
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-dialog" style={{ maxWidth: '420px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h3 style={{ margin: 0, fontSize: '16px' }}>Export as HTML</h3>
+          <button onClick={onCancel} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
+        </div>
+
+        <div className="export-option">
+          <span className="export-option-label">Theme</span>
+          {THEMES.map(({ theme, label }) => (
+            <label key={theme}>
+              <input
+                type="radio"
+                checked={choices.theme === theme}
+                onChange={() => update({ theme })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="export-option">
+          <span className="export-option-label">Images</span>
+          {IMAGE_MODES.map(({ mode, label }) => (
+            <label key={mode}>
+              <input
+                type="radio"
+                checked={choices.images === mode}
+                onChange={() => update({ images: mode })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="export-option">
+          <label>
+            <input
+              type="checkbox"
+              checked={choices.toc}
+              onChange={(e) => update({ toc: e.target.checked })}
+            />
+            Table of contents
+          </label>
+        </div>
+
+        <div className="buttons" style={{ justifyContent: 'flex-end' }}>
+          <button className="primary" onClick={() => onExport(choices)}>Export…</button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HtmlExportDialog;
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+
+// Editable details of an image
+export interface ImageFields {
+  src: string;
+  alt: string;
+  title: string;
+  width: number | null;  // Display width in pixels; null for the natural size
+}
+
+// Props for ImageDialog component
+interface ImageDialogProps {
+  image: ImageFields;                                   // Selected image, or blank fields for a new one
+  editing: boolean;                                     // Whether a selected image is being edited
+  assetsFolder: string;                                 // Folder beside the document that images are copied to
+  onBrowse: (assetsFolder: string) => Promise<string | null>; // Choose an image file, returning its link
+  onApply: (image: ImageFields, assetsFolder: string) => void; // Insert or update the image
+  onCancel: () => void;                                 // Close without changes
+}
+
+/**
+ * ImageDialog Component
+ * Insert an image or edit the selected one
+ * Features:
+ * - Web address, or a local file copied into the assets folder
+ * - Alt text and title
+ * - Display width (also set by dragging the image's resize handle)
+ * - Assets folder used for browsed, pasted and dropped images
+ */
+const ImageDialog: React.FC<ImageDialogProps> = ({
+  image,
+  editing,
+  assetsFolder,
+  onBrowse,
+  onApply,
+  onCancel
+}) => {
+  const [fields, setFields] = useState(image);
+  const [folder, setFolder] = useState(assetsFolder);
+
+  const update = (changes: Partial<ImageFields>) =>
+    setFields(prev => ({ ...prev, ...changes }));
+
+  const browse = async () => {
+    const link = await onBrowse(folder.trim() || assetsFolder);
+    if (link) update({ src: link });
+  };
+
+  const apply = () => {
+    if (fields.src.trim()) {
+      onApply({ ...fields, src: fields.src.trim() }, folder.trim() || assetsFolder);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-dialog" style={{ maxWidth: '460px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h3 style={{ margin: 0, fontSize: '16px' }}>{editing ? 'Edit Image' : 'Insert Image'}</h3>
+          <button onClick={onCancel} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
+        </div>
+
+        <div className="export-option">
+          <span className="export-option-label">Image</span>
+          <input
+            value={fields.src}
+            onChange={(e) => update({ src: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && apply()}
+            placeholder="https://… or a path"
+            style={{ flex: 1 }}
+            autoFocus
+          />
+          <button onClick={browse}>Browse…</button>
+        </div>
+        <div className="export-option">
+          <span className="export-option-label">Alt text</span>
+          <input
+            value={fields.alt}
+            onChange={(e) => update({ alt: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && apply()}
+            placeholder="What the image shows"
+            style={{ flex: 1 }}
+          />
+        </div>
+        <div className="export-option">
+          <span className="export-option-label">Title</span>
+          <input
+            value={fields.title}
+            onChange={(e) => update({ title: e.target.value })}
+            onKeyDown={(e) => e.key === 'Enter' && apply()}
+            placeholder="Shown on hover"
+            style={{ flex: 1 }}
+          />
+        </div>
+        <div className="export-option">
+          <span className="export-option-label">Width</span>
+          <input
+            type="number"
+            min={1}
+            value={fields.width ?? ''}
+            onChange={(e) => update({ width: Math.round(Number(e.target.value)) || null })}
+            placeholder="Natural"
+            style={{ width: '80px' }}
+          />
+          <span style={{ color: '#666' }}>px</span>
+        </div>
+        <div className="export-option">
+          <span className="export-option-label">Assets folder</span>
+          <input
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            style={{ flex: 1 }}
+          />
+        </div>
+        <div style={{ fontSize: '11px', color: '#666' }}>
+          Browsed, pasted and dropped images are copied into this folder beside the document and linked by a relative path.
+        </div>
+
+        <div className="buttons" style={{ justifyContent: 'flex-end' }}>
+          <button className="primary" onClick={apply} disabled={!fields.src.trim()}>
+            {editing ? 'Update' : 'Insert'}
+          </button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageDialog;
@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useReducer, useRef } from 'react';
+import { Editor } from '@tiptap/react';
+import { TextSelection } from '@tiptap/pm/state';
+import { ExternalLink, Pencil, Unlink } from 'lucide-react';
+import {
+  HeadingAnchor,
+  LinkRange,
+  fileAnchors,
+  headingAnchors,
+  isExternalLink,
+  linkAtSelection,
+  siblingDocuments,
+} from '../links';
+import { joinPath, parentPath } from '../workspace';
+
+// Props for LinkPopover component
+interface LinkPopoverProps {
+  editor: Editor;                       // TipTap editor instance
+  editing: boolean;                     // Show the edit form rather than the link summary
+  documentPath: string | null;          // Active document, for completing links to its neighbours
+  onEdit: () => void;                   // Switch to the edit form
+  onClose: () => void;                  // Leave the edit form
+  onOpen: (href: string) => void;       // Follow a link
+}
+
+// A suggested link target
+interface Suggestion {
+  href: string;
+  label: string;   // What is shown in the list
+  detail: string;  // Heading level or "file"
+}
+
+// Most suggestions listed at once
+const MAX_SUGGESTIONS = 8;
+
+const anchorSuggestions = (anchors: HeadingAnchor[], prefix: string, query: string): Suggestion[] =>
+  anchors
+    .filter(({ slug, text }) => slug.includes(query) || text.toLowerCase().includes(query))
+    .map(({ slug, text, level }) => ({ href: `${prefix}#${slug}`, label: text, detail: `H${level}` }));
+
+/**
+ * LinkPopover Component
+ * Inline popover for the link at the cursor
+ * Features:
+ * - Shows the target of the link the cursor is in, with edit, open and unlink
+ * - Edits the link text and target, or creates a link from the selection
+ * - Completes targets: headings in this document (#slug), Markdown files
+ *   in the same folder, and headings in those files (other.md#slug)
+ * - Keyboard: arrows pick a suggestion, Enter/Tab take it, Enter applies,
+ *   Esc cancels
+ */
+const LinkPopover: React.FC<LinkPopoverProps> = ({
+  editor,
+  editing,
+  documentPath,
+  onEdit,
+  onClose,
+  onOpen
+}) => {
+  // Link (or selection) being edited, fixed when the form opens
+  const [target, setTarget] = useState<LinkRange | null>(null);
+  const [text, setText] = useState('');
+  const [href, setHref] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [files, setFiles] = useState<string[]>([]);
+  const [anchorsByFile, setAnchorsByFile] = useState<Map<string, HeadingAnchor[]>>(new Map());
+  const hrefInputRef = useRef<HTMLInputElement>(null);
+
+  // Follow the cursor and scrolling
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => {
+    editor.on('transaction', forceUpdate);
+    window.addEventListener('scroll', forceUpdate, true);
+    return () => {
+      editor.off('transaction', forceUpdate);
+      window.removeEventListener('scroll', forceUpdate, true);
+    };
+  }, [editor]);
+
+  // Start the form from the link at the cursor, or from the selected text
+  useEffect(() => {
+    if (!editing) {
+      setTarget(null);
+      return;
+    }
+    const link = linkAtSelection(editor);
+    const { from, to } = editor.state.selection;
+    const range = link ?? { from, to, href: '', text: editor.state.doc.textBetween(from, to, ' ') };
+    setTarget(range);
+    setText(range.text);
+    setHref(range.href);
+    setShowSuggestions(!range.href);
+    setHighlighted(0);
+    setTimeout(() => hrefInputRef.current?.focus(), 0);
+  }, [editing]);
+
+  // Markdown files beside the document
+  useEffect(() => {
+    if (!editing || !documentPath) {
+      setFiles([]);
+      return;
+    }
+    siblingDocuments(documentPath).then(setFiles).catch(error => {
+      console.error('Error listing documents:', error);
+    });
+  }, [editing, documentPath]);
+
+  // Headings of another file, once its name is followed by `#`
+  const hashIndex = href.indexOf('#');
+  const linkedFile = hashIndex > 0 ? decodeURI(href.slice(0, hashIndex)) : null;
+  useEffect(() => {
+    if (!linkedFile || !documentPath || anchorsByFile.has(linkedFile) || !files.includes(linkedFile)) return;
+    fileAnchors(editor.schema, joinPath(parentPath(documentPath), linkedFile))
+      .then(anchors => setAnchorsByFile(prev => new Map(prev).set(linkedFile, anchors)))
+      .catch(error => {
+        console.error('Error reading headings:', error);
+      });
+  }, [linkedFile, documentPath, files]);
+
+  // The summary only shows while typing in the editor
+  const link = editing ? target : editor.isFocused ? linkAtSelection(editor) : null;
+  if (!link || !editor.isEditable) return null;
+
+  // Targets matching what has been typed so far
+  const suggestions = ((): Suggestion[] => {
+    if (!editing || !showSuggestions || isExternalLink(href)) return [];
+    const query = href.slice(hashIndex + 1).toLowerCase();
+    if (hashIndex === 0) {
+      return anchorSuggestions(headingAnchors(editor.state.doc), '', query);
+    }
+    if (linkedFile) {
+      return anchorSuggestions(anchorsByFile.get(linkedFile) ?? [], encodeURI(linkedFile), query);
+    }
+    const typed = href.toLowerCase();
+    return [
+      ...anchorSuggestions(headingAnchors(editor.state.doc), '', typed),
+      ...files
+        .filter(name => name.toLowerCase().includes(typed))
+        .map(name => ({ href: encodeURI(name), label: name, detail: 'file' })),
+    ];
+  })().slice(0, MAX_SUGGESTIONS);
+
+  const close = () => {
+    onClose();
+    editor.commands.focus();
+  };
+
+  // Write the link text and target over the edited range
+  const apply = () => {
+    const target = link;
+    const destination = href.trim();
+    if (!destination) {
+      close();
+      return;
+    }
+    const { state } = editor;
+    const linkMark = state.schema.marks.link.create({ href: destination });
+    const content = text || destination;
+    const tr = state.tr;
+    if (content !== target.text) {
+      // New text keeps the formatting the old text started with
+      const marks = target.to > target.from
+        ? state.doc.resolve(target.from + 1).marks()
+        : state.selection.$from.marks();
+      tr.replaceWith(target.from, target.to, state.schema.text(content, linkMark.addToSet(marks)));
+    } else {
+      tr.removeMark(target.from, target.to, linkMark.type).addMark(target.from, target.to, linkMark);
+    }
+    tr.setSelection(TextSelection.create(tr.doc, target.from + content.length));
+    editor.view.dispatch(tr);
+    close();
+  };
+
+  const unlink = () => {
+    editor.chain().focus().setTextSelection({ from: link.from, to: link.to }).unsetLink().run();
+    onClose();
+  };
+
+  const choose = (suggestion: Suggestion) => {
+    setHref(suggestion.href);
+    setHighlighted(0);
+    // A file can still be narrowed down to one of its headings
+    setShowSuggestions(suggestion.detail === 'file');
+    hrefInputRef.current?.focus();
+  };
+
+  const handleHrefKeyDown = (event: React.KeyboardEvent) => {
+    const open = suggestions.length > 0;
+    if (event.key === 'ArrowDown' && open) {
+      event.preventDefault();
+      setHighlighted((highlighted + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp' && open) {
+      event.preventDefault();
+      setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length);
+    } else if ((event.key === 'Enter' || event.key === 'Tab') && open && suggestions[highlighted].href !== href) {
+      event.preventDefault();
+      choose(suggestions[highlighted]);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      apply();
+    } else if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    }
+  };
+
+  // Below the start of the link, kept inside the window
+  const coords = editor.view.coordsAtPos(Math.min(link.from, editor.state.doc.content.size));
+  const style: React.CSSProperties = {
+    top: coords.bottom + 6,
+    left: Math.max(8, Math.min(coords.left, window.innerWidth - (editing ? 380 : 320))),
+  };
+
+  if (!editing) {
+    return (
+      <div className="link-popover" style={style} onMouseDown={(e) => e.preventDefault()}>
+        <span className="link-popover-href" title={link.href}>{link.href || '(no target)'}</span>
+        <button onClick={onEdit} title="Edit Link (Ctrl+L)"><Pencil size={14} /></button>
+        <button onClick={() => onOpen(link.href)} title="Open Link (Ctrl+Click)" disabled={!link.href}><ExternalLink size={14} /></button>
+        <button onClick={unlink} title="Remove Link"><Unlink size={14} /></button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="link-popover editing" style={style}>
+      <label>
+        Text
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') apply();
+            if (e.key === 'Escape') close();
+          }}
+          placeholder="Link text"
+        />
+      </label>
+      <label>
+        Link
+        <input
+          ref={hrefInputRef}
+          value={href}
+          onChange={(e) => {
+            setHref(e.target.value);
+            setHighlighted(0);
+            setShowSuggestions(true);
+          }}
+          onKeyDown={handleHrefKeyDown}
+          placeholder="https://…, #heading or file.md"
+        />
+      </label>
+      {suggestions.length > 0 && (
+        <ul className="link-suggestions">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.href}
+              className={index === highlighted ? 'highlighted' : ''}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                choose(suggestion);
+              }}
+            >
+              <span>{suggestion.label}</span>
+              <span className="link-suggestion-detail">{suggestion.detail === 'file' ? suggestion.href : suggestion.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="buttons">
+        <button className="primary" onClick={apply}>Apply</button>
+        {target?.href && <button onClick={unlink}>Unlink</button>}
+        <button onClick={close}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default LinkPopover;
@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { mergeText } from '../merge';
+
+// Props for MergeDialog component
+interface MergeDialogProps {
+  fileName: string;                     // Name of the file being merged
+  base: string;                         // Markdown as last read from or written to disk
+  mine: string;                         // Markdown of the tab's current document
+  theirs: string;                       // Markdown now on disk
+  onApply: (merged: string) => void;    // Load the merged Markdown into the tab
+  onCancel: () => void;                 // Close without changing anything
+}
+
+// Count the conflict regions still marked in the merged text
+const countConflicts = (text: string) =>
+  text.split('\n').filter(line => line.startsWith('<<<<<<< ')).length;
+
+/**
+ * MergeDialog Component
+ * Three-way merge of the tab's changes with changes made to the file on disk
+ * Features:
+ * - Changes made on only one side are combined automatically
+ * - Conflicting regions are marked for editing in the merged text
+ * - Your version and the disk version shown for reference
+ */
+const MergeDialog: React.FC<MergeDialogProps> = ({
+  fileName,
+  base,
+  mine,
+  theirs,
+  onApply,
+  onCancel
+}) => {
+  const initial = useMemo(() => mergeText(base, mine, theirs), [base, mine, theirs]);
+  const [merged, setMerged] = useState(initial.text);
+  const conflicts = countConflicts(merged);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-dialog" style={{ width: 'min(1100px, 95vw)' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h3 style={{ margin: 0, fontSize: '16px' }}>Merge Changes – {fileName}</h3>
+          <button onClick={onCancel} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
+        </div>
+
+        {/* Both versions for reference */}
+        <div style={{ display: 'flex', gap: '8px' }}>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>Yours</div>
+            <pre className="compare-text" style={{ maxHeight: '200px' }}>{mine}</pre>
+          </div>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>On disk</div>
+            <pre className="compare-text" style={{ maxHeight: '200px' }}>{theirs}</pre>
+          </div>
+        </div>
+
+        {/* Editable merge result */}
+        <div style={{ fontSize: '12px', color: '#666', margin: '12px 0 4px' }}>
+          Merged result
+          {conflicts > 0
+            ? ` – ${conflicts} conflict${conflicts !== 1 ? 's' : ''} left; edit the marked regions`
+            : ' – no conflicts'}
+        </div>
+        <textarea
+          className="merge-editor"
+          value={merged}
+          spellCheck={false}
+          onChange={(e) => setMerged(e.target.value)}
+        />
+
+        <div className="buttons" style={{ justifyContent: 'flex-end' }}>
+          <button
+            className="primary"
+            onClick={() => onApply(merged)}
+            disabled={conflicts > 0}
+            title={conflicts > 0 ? 'Resolve all conflicts first' : undefined}
+          >
+            Use Merged Text
+          </button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeDialog;
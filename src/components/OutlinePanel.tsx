@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useReducer, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { OutlineItem, getOutline, sectionIndexAt } from '../extensions/Outline';
+
+// Props for OutlinePanel component
+interface OutlinePanelProps {
+  editor: Editor;                       // TipTap editor instance
+  onNavigate: (pos: number) => void;    // Jump to a heading
+  onClose: () => void;                  // Close panel handler
+}
+
+/**
+ * OutlinePanel Component
+ * Heading structure of the active document beside the editor
+ * Features:
+ * - Updates live as the document changes
+ * - Highlights the section holding the cursor
+ * - Click a heading to jump to it
+ * - Drag a heading to move its whole section
+ * - Promote/demote a section's headings together
+ */
+const OutlinePanel: React.FC<OutlinePanelProps> = ({ editor, onNavigate, onClose }) => {
+  // Re-render as the document and selection change
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => {
+    editor.on('transaction', forceUpdate);
+    return () => {
+      editor.off('transaction', forceUpdate);
+    };
+  }, [editor]);
+
+  const { doc, selection } = editor.state;
+  const items = useMemo(() => getOutline(doc), [doc]);
+  const current = sectionIndexAt(items, selection.from);
+
+  const [dragged, setDragged] = useState<OutlineItem | null>(null); // Section being dragged
+  const [dropTarget, setDropTarget] = useState<number | null>(null); // Position it would land at
+
+  // Sections cannot be dropped inside themselves
+  const canDrop = (target: number) =>
+    dragged !== null && (target < dragged.pos || target > dragged.end);
+
+  const dropHandlers = (target: number) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDrop(target)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === target ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      if (dragged && canDrop(target)) {
+        editor.commands.moveSection(dragged.pos, target);
+      }
+      setDragged(null);
+      setDropTarget(null);
+    },
+  });
+
+  // Smallest level present, so the outline starts at the left edge
+  const minLevel = Math.min(...items.map(item => item.level));
+
+  return (
+    <div className="outline-panel">
+      <div className="outline-header">
+        <span style={{ flex: 1, fontWeight: 600 }}>Outline</span>
+        <button className="toolbar-button" onClick={onClose} title="Close Outline">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="outline-list">
+        {items.length === 0 && (
+          <div style={{ padding: '8px', color: '#999', fontSize: '12px' }}>
+            Headings in the document appear here.
+          </div>
+        )}
+        {items.map((item, index) => (
+          <div
+            key={`${item.pos}-${index}`}
+            className={[
+              'outline-item',
+              index === current ? 'current' : '',
+              item.pos === dropTarget ? 'drop-target' : ''
+            ].filter(Boolean).join(' ')}
+            style={{ paddingLeft: `${8 + (item.level - minLevel) * 12}px` }}
+            draggable
+            onDragStart={(e) => {
+              setDragged(item);
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', item.text);
+            }}
+            onDragEnd={() => {
+              setDragged(null);
+              setDropTarget(null);
+            }}
+            {...dropHandlers(item.pos)}
+            onClick={() => onNavigate(item.pos)}
+            title={item.text}
+          >
+            <span className="outline-item-text">{item.text || 'Untitled heading'}</span>
+            <button
+              className="outline-item-button"
+              onClick={(e) => {
+                e.stopPropagation();
+                editor.commands.shiftSectionLevel(item.pos, -1);
+              }}
+              disabled={!editor.can().shiftSectionLevel(item.pos, -1)}
+              title="Promote section"
+            >
+              <ChevronLeft size={12} />
+            </button>
+            <button
+              className="outline-item-button"
+              onClick={(e) => {
+                e.stopPropagation();
+                editor.commands.shiftSectionLevel(item.pos, 1);
+              }}
+              disabled={!editor.can().shiftSectionLevel(item.pos, 1)}
+              title="Demote section"
+            >
+              <ChevronRight size={12} />
+            </button>
+          </div>
+        ))}
+        {/* Dropping below the last heading moves a section to the end */}
+        {items.length > 0 && (
+          <div
+            className={`outline-end ${dropTarget === doc.content.size ? 'drop-target' : ''}`}
+            {...dropHandlers(doc.content.size)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OutlinePanel;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Orientation, PAGE_SIZES, PageMargins, PageSize, PdfExportSettings } from '../export/pdf';
+
+// Props for PdfExportDialog component
+interface PdfExportDialogProps {
+  settings: PdfExportSettings;                          // Choices from the last export
+  onExport: (settings: PdfExportSettings) => void;      // Choose a file and export
+  onCancel: () => void;                                 // Close without exporting
+}
+
+const ORIENTATIONS: { orientation: Orientation; label: string }[] = [
+  { orientation: 'portrait', label: 'Portrait' },
+  { orientation: 'landscape', label: 'Landscape' },
+];
+
+const MARGIN_SIDES: { side: keyof PageMargins; label: string }[] = [
+  { side: 'top', label: 'Top' },
+  { side: 'bottom', label: 'Bottom' },
+  { side: 'left', label: 'Left' },
+  { side: 'right', label: 'Right' },
+];
+
+/**
+ * PdfExportDialog Component
+ * Page setup for exporting the active document as a PDF
+ * Features:
+ * - Paper size, orientation and margins
+ * - Optional title page from the first H1
+ * - Header and footer templates with title, page numbers and date
+ */
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({
+  settings,
+  onExport,
+  onCancel
+}) => {
+  const [choices, setChoices] = useState(settings);
+
+  const update = (changes: Partial<PdfExportSettings>) =>
+    setChoices(prev => ({ ...prev, ...changes }));
+
+  const updateMargin = (side: keyof PageMargins, value: string) =>
+    setChoices(prev => ({ ...prev, margins: { ...prev.margins, [side]: Math.max(0, Number(value) || 0) } }));
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-dialog" style={{ maxWidth: '460px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h3 style={{ margin: 0, fontSize: '16px' }}>Export as PDF</h3>
+          <button onClick={onCancel} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
+        </div>
+
+        <div className="export-option">
+          <span className="export-option-label">Paper</span>
+          <select
+            value={choices.pageSize}
+            onChange={(e) => update({ pageSize: e.target.value as PageSize })}
+          >
+            {Object.entries(PAGE_SIZES).map(([size, { label }]) => (
+              <option key={size} value={size}>{label}</option>
+            ))}
+          </select>
+          {ORIENTATIONS.map(({ orientation, label }) => (
+            <label key={orientation}>
+              <input
+                type="radio"
+                checked={choices.orientation === orientation}
+                onChange={() => update({ orientation })}
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div className="export-option">
+          <span className="export-option-label">Margins</span>
+          {MARGIN_SIDES.map(({ side, label }) => (
+            <label key={side}>
+              {label}
+              <input
+                type="number"
+                min={0}
+                value={choices.margins[side]}
+                onChange={(e) => updateMargin(side, e.target.value)}
+                style={{ width: '52px' }}
+              />
+            </label>
+          ))}
+          <span style={{ color: '#666' }}>mm</span>
+        </div>
+
+        <div className="export-option">
+          <label>
+            <input
+              type="checkbox"
+              checked={choices.titlePage}
+              onChange={(e) => update({ titlePage: e.target.checked })}
+            />
+            Title page from the first heading
+          </label>
+        </div>
+
+        <div className="export-option">
+          <span className="export-option-label">Header</span>
+          <input
+            value={choices.header}
+            onChange={(e) => update({ header: e.target.value })}
+            placeholder="e.g. {title} | {date}"
+            style={{ flex: 1 }}
+          />
+        </div>
+        <div className="export-option">
+          <span className="export-option-label">Footer</span>
+          <input
+            value={choices.footer}
+            onChange={(e) => update({ footer: e.target.value })}
+            placeholder="e.g. {page} / {pages}"
+            style={{ flex: 1 }}
+          />
+        </div>
+        <div style={{ fontSize: '11px', color: '#666' }}>
+          Use {'{title}'}, {'{page}'}, {'{pages}'} and {'{date}'}; separate left, centre and right parts with |.
+          Insert page breaks from the toolbar.
+        </div>
+
+        <div className="buttons" style={{ justifyContent: 'flex-end' }}>
+          <button className="primary" onClick={() => onExport(choices)}>Export…</button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportDialog;
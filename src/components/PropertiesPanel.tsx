@@ -0,0 +1,307 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import { Braces, Trash2, X } from 'lucide-react';
+import { Document, YAMLMap, isMap, isScalar, isSeq, parseDocument } from 'yaml';
+
+// Props for PropertiesPanel component
+interface PropertiesPanelProps {
+  editor: Editor;  // TipTap editor instance
+}
+
+// How a property's value is edited
+type FieldKind = 'text' | 'number' | 'boolean' | 'date' | 'list' | 'other';
+
+// Kinds offered when adding a property
+const NEW_FIELD_KINDS: { kind: FieldKind; label: string }[] = [
+  { kind: 'text', label: 'Text' },
+  { kind: 'list', label: 'List' },
+  { kind: 'boolean', label: 'Checkbox' },
+  { kind: 'date', label: 'Date' },
+  { kind: 'number', label: 'Number' },
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Flow lists as `[a, b]`, the way they are usually hand-written
+const YAML_OPTIONS = { flowCollectionPadding: false };
+
+const fieldKind = (node: unknown): FieldKind => {
+  if (isSeq(node)) return node.items.every(isScalar) ? 'list' : 'other';
+  if (!isScalar(node)) return 'other';
+  const { value } = node;
+  if (typeof value === 'boolean') return 'boolean';
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'string' && DATE_PATTERN.test(value)) return 'date';
+  return value === null || typeof value === 'string' ? 'text' : 'other';
+};
+
+const initialValue = (kind: FieldKind): unknown => {
+  switch (kind) {
+    case 'list':
+      return [];
+    case 'boolean':
+      return false;
+    case 'date':
+      return new Date().toISOString().slice(0, 10);
+    case 'number':
+      return 0;
+    default:
+      return '';
+  }
+};
+
+// Text of a scalar for an input field
+const scalarText = (node: unknown) =>
+  isScalar(node) && node.value !== null && node.value !== undefined ? String(node.value) : '';
+
+// Text input that reports its value when left or on Enter
+const CommitInput: React.FC<{
+  value: string;
+  type?: string;
+  placeholder?: string;
+  onCommit: (value: string) => void;
+}> = ({ value, type = 'text', placeholder, onCommit }) => {
+  const [text, setText] = useState(value);
+  useEffect(() => setText(value), [value]);
+
+  const commit = () => {
+    if (text !== value) onCommit(text);
+  };
+
+  return (
+    <input
+      type={type}
+      value={text}
+      placeholder={placeholder}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setText(value);
+      }}
+    />
+  );
+};
+
+/**
+ * PropertiesPanel Component
+ * Key/value editor for the document's YAML front matter, above the text
+ * Features:
+ * - Fields suited to each value: text, number, checkbox, date and lists
+ * - Add, rename and remove properties
+ * - Raw YAML editing, applied only when it parses
+ * - Comments, quoting and untouched lines are kept when a value changes
+ */
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ editor }) => {
+  // Re-render as the document changes
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => {
+    editor.on('update', forceUpdate);
+    return () => {
+      editor.off('update', forceUpdate);
+    };
+  }, [editor]);
+
+  const [rawText, setRawText] = useState<string | null>(null);       // YAML being edited as text
+  const [rawError, setRawError] = useState<string | null>(null);     // Why the text was not applied
+  const [newKey, setNewKey] = useState('');
+  const [newKind, setNewKind] = useState<FieldKind>('text');
+
+  const first = editor.state.doc.firstChild;
+  if (first?.type.name !== 'frontMatter') return null;
+
+  const yaml: string = first.attrs.yaml;
+  const doc = parseDocument(yaml);
+  const parseError = doc.errors[0]?.message ?? null;
+  // Only a mapping (or nothing yet) can be shown as fields
+  const editable = !parseError && (doc.contents === null || isMap(doc.contents));
+  const pairs = isMap(doc.contents) ? (doc.contents as YAMLMap).items : [];
+
+  // Apply a change to a fresh copy of the YAML and store the result
+  const updateYaml = (change: (doc: Document) => void) => {
+    const updated = parseDocument(yaml);
+    change(updated);
+    editor.commands.setFrontMatter(updated.toString(YAML_OPTIONS));
+  };
+
+  // Set a value, keeping the quoting and comments of the existing scalar
+  const setValue = (key: unknown, value: unknown) => {
+    updateYaml(updated => {
+      const node = updated.get(key, true);
+      if (isScalar(node) && !Array.isArray(value)) {
+        node.value = value;
+      } else if (isSeq(node) && Array.isArray(value)) {
+        // Keep the list's flow or block style
+        node.items = value.map(item => updated.createNode(item));
+      } else {
+        updated.set(key, value);
+      }
+    });
+  };
+
+  const renameKey = (index: number, name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || pairs.some(pair => scalarText(pair.key) === trimmed)) return;
+    updateYaml(updated => {
+      const pair = (updated.contents as YAMLMap).items[index];
+      if (isScalar(pair.key)) {
+        pair.key.value = trimmed;
+      } else {
+        pair.key = updated.createNode(trimmed);
+      }
+    });
+  };
+
+  const addProperty = () => {
+    const key = newKey.trim();
+    if (!key || pairs.some(pair => scalarText(pair.key) === key)) return;
+    updateYaml(updated => updated.set(key, initialValue(newKind)));
+    setNewKey('');
+  };
+
+  const applyRaw = () => {
+    if (rawText === null) return;
+    const error = parseDocument(rawText).errors[0];
+    if (error) {
+      setRawError(error.message);
+      return;
+    }
+    editor.commands.setFrontMatter(rawText && !rawText.endsWith('\n') ? rawText + '\n' : rawText);
+    setRawText(null);
+    setRawError(null);
+  };
+
+  const renderField = (key: unknown, value: unknown) => {
+    switch (fieldKind(value)) {
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={isScalar(value) && value.value === true}
+            onChange={(e) => setValue(key, e.target.checked)}
+          />
+        );
+      case 'number':
+        return (
+          <CommitInput
+            type="number"
+            value={scalarText(value)}
+            onCommit={(text) => setValue(key, text === '' ? null : Number(text))}
+          />
+        );
+      case 'date':
+        return (
+          <CommitInput
+            type="date"
+            value={scalarText(value)}
+            onCommit={(text) => setValue(key, text || null)}
+          />
+        );
+      case 'list':
+        return (
+          <CommitInput
+            value={isSeq(value) ? value.items.map(scalarText).join(', ') : ''}
+            placeholder="Comma-separated values"
+            onCommit={(text) => setValue(key, text.split(',').map(item => item.trim()).filter(Boolean))}
+          />
+        );
+      case 'text':
+        return <CommitInput value={scalarText(value)} onCommit={(text) => setValue(key, text)} />;
+      default:
+        // Nested structures are edited as YAML
+        return <code style={{ fontSize: '12px', color: '#666' }}>{String(value)}</code>;
+    }
+  };
+
+  const showRaw = rawText !== null || !editable;
+
+  return (
+    <div className="properties-panel">
+      <div className="properties-header">
+        <span style={{ flex: 1, fontWeight: 600 }}>Properties</span>
+        <button
+          className={`toolbar-button ${showRaw ? 'active' : ''}`}
+          onClick={() => {
+            setRawText(rawText === null ? yaml : null);
+            setRawError(null);
+          }}
+          disabled={!editable}
+          title="Edit as YAML"
+        >
+          <Braces size={14} />
+        </button>
+        <button
+          className="toolbar-button"
+          onClick={() => editor.commands.setFrontMatter(null)}
+          title="Remove Properties"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      {showRaw ? (
+        <div>
+          <textarea
+            className="properties-yaml"
+            value={rawText ?? yaml}
+            onChange={(e) => setRawText(e.target.value)}
+            spellCheck={false}
+            rows={Math.max(3, (rawText ?? yaml).split('\n').length)}
+          />
+          {(rawError || parseError) && (
+            <div style={{ fontSize: '12px', color: '#d32f2f', whiteSpace: 'pre-wrap' }}>
+              {rawError ?? parseError}
+            </div>
+          )}
+          {!editable && !parseError && (
+            <div style={{ fontSize: '12px', color: '#666' }}>
+              Only key/value front matter can be edited as fields.
+            </div>
+          )}
+          <div className="properties-actions">
+            <button onClick={applyRaw} disabled={rawText === null || rawText === yaml}>Apply</button>
+            {editable && (
+              <button onClick={() => { setRawText(null); setRawError(null); }}>Cancel</button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <div>
+          {pairs.map((pair, index) => (
+            <div key={index} className="properties-row">
+              <CommitInput value={scalarText(pair.key)} onCommit={(name) => renameKey(index, name)} />
+              {renderField(pair.key, pair.value)}
+              <button
+                className="toolbar-button"
+                onClick={() => updateYaml(updated => updated.delete(pair.key))}
+                title="Remove Property"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="properties-row">
+            <input
+              value={newKey}
+              placeholder="New property"
+              onChange={(e) => setNewKey(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') addProperty();
+              }}
+            />
+            <select value={newKind} onChange={(e) => setNewKind(e.target.value as FieldKind)}>
+              {NEW_FIELD_KINDS.map(({ kind, label }) => (
+                <option key={kind} value={kind}>{label}</option>
+              ))}
+            </select>
+            <button className="toolbar-button" onClick={addProperty} disabled={!newKey.trim()}>
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PropertiesPanel;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { JournalRecord } from '../journal';
+
+// Journal entry offered for recovery, with the current file text for comparing
+export interface RecoveryItem extends JournalRecord {
+  diskText: string | null;  // File contents on disk (null for untitled or missing files)
+}
+
+// Props for RecoveryDialog component
+interface RecoveryDialogProps {
+  items: RecoveryItem[];                      // Documents with recoverable changes
+  onRecover: (item: RecoveryItem) => void;    // Reopen the journaled content
+  onDiscard: (item: RecoveryItem) => void;    // Drop the journal entry
+  onClose: () => void;                        // Decide later; entries stay in the journal
+}
+
+// Lines of `text` that do not appear anywhere in `other`
+const changedLines = (text: string, other: string) => {
+  const otherLines = new Set(other.split('\n'));
+  return text.split('\n').map(line => ({ line, changed: !otherLines.has(line) }));
+};
+
+// One side of the comparison view
+const ComparePane: React.FC<{ label: string; text: string; other: string; color: string }> = ({
+  label,
+  text,
+  other,
+  color
+}) => (
+  <div style={{ flex: 1, minWidth: 0 }}>
+    <div style={{ fontSize: '12px', color: '#666', marginBottom: '4px' }}>{label}</div>
+    <pre className="compare-text">
+      {changedLines(text, other).map(({ line, changed }, index) => (
+        <div key={index} style={{ background: changed ? color : 'transparent' }}>
+          {line || ' '}
+        </div>
+      ))}
+    </pre>
+  </div>
+);
+
+/**
+ * RecoveryDialog Component
+ * Offers documents whose journaled changes are newer than the file on disk
+ * Features:
+ * - Recover, compare or discard each document separately
+ * - Side-by-side comparison with changed lines highlighted
+ * - Closing keeps the remaining entries for the next launch
+ */
+const RecoveryDialog: React.FC<RecoveryDialogProps> = ({
+  items,
+  onRecover,
+  onDiscard,
+  onClose
+}) => {
+  // Entry whose comparison view is expanded
+  const [comparing, setComparing] = useState<string | null>(null);
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-dialog">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h3 style={{ margin: 0, fontSize: '16px' }}>Recover Unsaved Changes</h3>
+          <button onClick={onClose} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
+        </div>
+        <p style={{ fontSize: '13px', color: '#666', margin: '0 0 12px' }}>
+          These documents have changes from a previous session that were never saved.
+        </p>
+
+        {items.map(item => (
+          <div key={item.tabId} className="recovery-item">
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 'bold', fontSize: '13px' }}>{item.title}</div>
+                <div style={{ color: '#666', fontSize: '11px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {item.filePath ?? 'Not saved to a file'} · changed {new Date(item.savedAt).toLocaleString()}
+                </div>
+              </div>
+              <button className="primary" onClick={() => onRecover(item)}>Recover</button>
+              {item.diskText !== null && (
+                <button onClick={() => setComparing(comparing === item.tabId ? null : item.tabId)}>
+                  {comparing === item.tabId ? 'Hide' : 'Compare'}
+                </button>
+              )}
+              <button onClick={() => onDiscard(item)}>Discard</button>
+            </div>
+
+            {/* Disk and journal versions side by side */}
+            {comparing === item.tabId && item.diskText !== null && (
+              <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+                <ComparePane label="On disk" text={item.diskText} other={item.content} color="#fdecea" />
+                <ComparePane label="Recovered" text={item.content} other={item.diskText} color="#e6f4ea" />
+              </div>
+            )}
+          </div>
+        ))}
+
+        <div className="buttons" style={{ justifyContent: 'flex-end' }}>
+          <button onClick={onClose}>Decide Later</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryDialog;
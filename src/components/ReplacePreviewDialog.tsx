@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+
+// A line as it is now and as it will be after replacing
+export interface PreviewLine {
+  line: number;
+  before: string;
+  after: string;
+}
+
+// Planned replacements in one file
+export interface PreviewFile {
+  path: string;
+  label: string;         // Path relative to the searched folder
+  count: number;         // Number of replacements
+  lines: PreviewLine[];
+  openModified: boolean; // Open in a tab with unsaved changes
+}
+
+// Props for ReplacePreviewDialog component
+interface ReplacePreviewDialogProps {
+  files: PreviewFile[];                  // Every planned change, by file
+  onApply: (paths: string[]) => void;    // Write the changes to the chosen files
+  onCancel: () => void;                  // Close without writing anything
+}
+
+/**
+ * ReplacePreviewDialog Component
+ * Shows every Replace in Files change before anything is written
+ * Features:
+ * - Before and after of each affected line, grouped by file
+ * - Per-file checkboxes to leave files out
+ * - Warning for files open with unsaved changes
+ */
+const ReplacePreviewDialog: React.FC<ReplacePreviewDialogProps> = ({
+  files,
+  onApply,
+  onCancel
+}) => {
+  // Files the user has unticked
+  const [skipped, setSkipped] = useState<Set<string>>(new Set());
+
+  const chosen = files.filter(file => !skipped.has(file.path));
+  const total = chosen.reduce((count, file) => count + file.count, 0);
+
+  const toggleFile = (path: string) => {
+    setSkipped(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal-dialog">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '8px' }}>
+          <h3 style={{ margin: 0, fontSize: '16px' }}>Replace in Files</h3>
+          <button onClick={onCancel} style={{ border: 'none', background: 'none', cursor: 'pointer', fontSize: '18px' }}>×</button>
+        </div>
+
+        {files.map(file => (
+          <div key={file.path} className="recovery-item">
+            <label style={{ display: 'flex', alignItems: 'center', fontSize: '13px', fontWeight: 'bold' }}>
+              <input
+                type="checkbox"
+                checked={!skipped.has(file.path)}
+                onChange={() => toggleFile(file.path)}
+                style={{ marginRight: '6px' }}
+              />
+              {file.label}
+              <span style={{ color: '#666', fontWeight: 'normal', marginLeft: '6px' }}>
+                {file.count} replacement{file.count !== 1 ? 's' : ''}
+              </span>
+            </label>
+            {file.openModified && (
+              <div style={{ fontSize: '11px', color: '#b7791f', margin: '4px 0 0 22px' }}>
+                Open with unsaved changes; the tab will offer to reload or merge.
+              </div>
+            )}
+            <pre className="compare-text" style={{ marginTop: '6px', maxHeight: '200px' }}>
+              {file.lines.map(line => (
+                <div key={line.line}>
+                  <div style={{ background: '#fdecea' }}>{line.line}: {line.before}</div>
+                  <div style={{ background: '#e6f4ea' }}>{line.line}: {line.after}</div>
+                </div>
+              ))}
+            </pre>
+          </div>
+        ))}
+
+        <div className="buttons" style={{ justifyContent: 'flex-end' }}>
+          <button
+            className="primary"
+            onClick={() => onApply(chosen.map(file => file.path))}
+            disabled={total === 0}
+          >
+            Replace {total} in {chosen.length} file{chosen.length !== 1 ? 's' : ''}
+          </button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplacePreviewDialog;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, X } from 'lucide-react';
+import { FileSearchResults, LineMatch } from '../fileSearch';
+
+// Props for SearchResultsPanel component
+interface SearchResultsPanelProps {
+  root: string;                                          // Folder that was searched
+  search: string;                                        // Search text, for the header
+  results: FileSearchResults | null;                     // Null while searching
+  error: string | null;                                  // Why the search failed
+  onOpenMatch: (path: string, match: LineMatch) => void; // Open the file at a match
+  onClose: () => void;                                   // Close panel handler
+}
+
+// Path shown relative to the searched folder
+export const relativePath = (root: string, path: string) => {
+  return path.startsWith(root) ? path.slice(root.length).replace(/^[\\/]/, '') : path;
+};
+
+// A result line with the matched text emphasised
+const MatchLine: React.FC<{ match: LineMatch }> = ({ match }) => {
+  const { text, column, length } = match;
+  // Keep long lines readable by starting shortly before the match
+  const start = Math.max(0, column - 40);
+  return (
+    <span>
+      {start > 0 && '…'}
+      {text.slice(start, column)}
+      <mark className="search-match">{text.slice(column, column + length)}</mark>
+      {text.slice(column + length, column + length + 120)}
+    </span>
+  );
+};
+
+/**
+ * SearchResultsPanel Component
+ * Find in Files results below the editor, grouped by file
+ * Features:
+ * - Match count summary, noting when the result limit was reached
+ * - Collapsible file groups with line numbers and highlighted matches
+ * - Clicking a match opens or focuses its tab and selects it
+ */
+const SearchResultsPanel: React.FC<SearchResultsPanelProps> = ({
+  root,
+  search,
+  results,
+  error,
+  onOpenMatch,
+  onClose
+}) => {
+  // Files whose matches are hidden
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const toggleFile = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const total = results?.files.reduce((count, file) => count + file.matches.length, 0) ?? 0;
+  const summary = error
+    ? error
+    : !results
+      ? `Searching for "${search}"…`
+      : `${total} result${total !== 1 ? 's' : ''} in ${results.files.length} file${results.files.length !== 1 ? 's' : ''}` +
+        (results.truncated ? ' (stopped at the result limit)' : '');
+
+  return (
+    <div className="search-results-panel">
+      <div className="search-results-header">
+        <span style={{ color: error ? '#d32f2f' : '#333' }}>{summary}</span>
+        <span style={{ color: '#999', marginLeft: '8px', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {root}
+        </span>
+        <button className="toolbar-button" onClick={onClose} title="Close Results">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="search-results-list">
+        {results?.files.map(file => (
+          <div key={file.path}>
+            <div className="search-results-file" onClick={() => toggleFile(file.path)}>
+              {collapsed.has(file.path) ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+              <span style={{ fontWeight: 500 }}>{relativePath(root, file.path)}</span>
+              <span style={{ color: '#999', marginLeft: '6px' }}>{file.matches.length}</span>
+            </div>
+            {!collapsed.has(file.path) && file.matches.map((match, index) => (
+              <div
+                key={index}
+                className="search-results-match"
+                onClick={() => onOpenMatch(file.path, match)}
+              >
+                <span style={{ color: '#999', minWidth: '40px', textAlign: 'right', marginRight: '8px' }}>
+                  {match.line}
+                </span>
+                <MatchLine match={match} />
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchResultsPanel;
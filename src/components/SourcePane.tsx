@@ -0,0 +1,228 @@
+import React, { useEffect, useImperativeHandle, useRef } from 'react';
+import { Editor } from '@tiptap/react';
+import {
+  MarkdownSource,
+  blockOffsets,
+  posToSourceOffset,
+  sourceOffsetToPos,
+} from '../markdown';
+
+// Props for SourcePane component
+interface SourcePaneProps {
+  editor: Editor;                                        // TipTap editor instance
+  value: string;                                         // Markdown source text
+  layout: MarkdownSource | null;                         // Block layout of `value`
+  syncScroll: boolean;                                   // Keep scroll aligned with the rich view
+  richContainerRef: React.RefObject<HTMLDivElement>;    // Scroll container of the rich view
+  onChange: (markdown: string) => void;                  // Source edited handler
+}
+
+// Handle exposed to App for moving focus between panes
+export interface SourcePaneHandle {
+  focusAt: (pos: number) => void;   // Focus the source with the caret at a document position
+  currentPos: () => number | null;  // Document position of the source caret
+}
+
+/**
+ * Measure the vertical pixel offset of each character offset in a
+ * textarea, using a hidden mirror element with the same text layout.
+ */
+const measureOffsets = (textarea: HTMLTextAreaElement, offsets: number[]) => {
+  const style = window.getComputedStyle(textarea);
+  const mirror = document.createElement('div');
+  mirror.style.position = 'absolute';
+  mirror.style.visibility = 'hidden';
+  mirror.style.top = '0';
+  mirror.style.left = '-9999px';
+  mirror.style.whiteSpace = 'pre-wrap';
+  mirror.style.overflowWrap = 'break-word';
+  mirror.style.boxSizing = style.boxSizing;
+  mirror.style.width = `${textarea.clientWidth}px`;
+  mirror.style.padding = style.padding;
+  mirror.style.font = style.font;
+  mirror.style.lineHeight = style.lineHeight;
+  mirror.style.letterSpacing = style.letterSpacing;
+  mirror.style.tabSize = style.tabSize;
+
+  const text = textarea.value;
+  const markers: HTMLSpanElement[] = [];
+  let previous = 0;
+  for (const offset of offsets) {
+    mirror.appendChild(document.createTextNode(text.slice(previous, offset)));
+    const marker = document.createElement('span');
+    mirror.appendChild(marker);
+    markers.push(marker);
+    previous = offset;
+  }
+  mirror.appendChild(document.createTextNode(text.slice(previous)));
+
+  document.body.appendChild(mirror);
+  const tops = markers.map(marker => marker.offsetTop);
+  document.body.removeChild(mirror);
+  return tops;
+};
+
+// Map a scroll offset from one list of block tops onto another
+const mapScroll = (scrollTop: number, from: number[], fromHeight: number, to: number[], toHeight: number) => {
+  let index = 0;
+  while (index + 1 < from.length && from[index + 1] <= scrollTop) index++;
+
+  const fromStart = from[index] ?? 0;
+  const fromEnd = from[index + 1] ?? fromHeight;
+  const toStart = to[index] ?? 0;
+  const toEnd = to[index + 1] ?? toHeight;
+  const fraction = fromEnd > fromStart ? (scrollTop - fromStart) / (fromEnd - fromStart) : 0;
+  return toStart + Math.max(0, Math.min(1, fraction)) * (toEnd - toStart);
+};
+
+/**
+ * SourcePane Component
+ * Plain-text Markdown editor shown beside or instead of the rich view
+ * Features:
+ * - Edits flow back into the TipTap document through `onChange`
+ * - Caret position is mirrored between the source and the rich view
+ * - Scroll position follows the rich view block by block in split mode
+ */
+const SourcePane = React.forwardRef<SourcePaneHandle, SourcePaneProps>(({
+  editor,
+  value,
+  layout,
+  syncScroll,
+  richContainerRef,
+  onChange
+}, ref) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Ignore the scroll event caused by our own scroll syncing
+  const ignoreScrollRef = useRef<'source' | 'rich' | null>(null);
+
+  // Cached pixel offsets of each block's first line in the textarea
+  const sourceTopsRef = useRef<{ key: string; tops: number[] } | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    focusAt: (pos: number) => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      const offset = layout ? posToSourceOffset(editor.state.doc, layout, pos) : 0;
+      textarea.focus();
+      textarea.setSelectionRange(offset, offset);
+      // Bring the caret line into view
+      const [top] = measureOffsets(textarea, [offset]);
+      textarea.scrollTop = Math.max(0, top - textarea.clientHeight / 3);
+    },
+    currentPos: () => {
+      const textarea = textareaRef.current;
+      if (!textarea || !layout) return null;
+      return sourceOffsetToPos(editor.state.doc, layout, textarea.selectionStart);
+    },
+  }), [editor, layout]);
+
+  const getSourceTops = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !layout) return [];
+    const key = `${textarea.clientWidth}:${value}`;
+    if (sourceTopsRef.current?.key !== key) {
+      sourceTopsRef.current = { key, tops: measureOffsets(textarea, blockOffsets(layout)) };
+    }
+    return sourceTopsRef.current.tops;
+  };
+
+  const getRichTops = () => {
+    const container = richContainerRef.current;
+    if (!container) return [];
+    const containerTop = container.getBoundingClientRect().top - container.scrollTop;
+    const tops: number[] = [];
+    editor.state.doc.forEach((_node, offset) => {
+      const dom = editor.view.nodeDOM(offset);
+      if (dom instanceof HTMLElement) {
+        tops.push(dom.getBoundingClientRect().top - containerTop);
+      }
+    });
+    return tops;
+  };
+
+  // Mirror the rich view's caret into the source while the rich view has focus
+  useEffect(() => {
+    const handleSelectionUpdate = () => {
+      const textarea = textareaRef.current;
+      if (!textarea || !layout || !editor.isFocused) return;
+      const offset = posToSourceOffset(editor.state.doc, layout, editor.state.selection.head);
+      textarea.setSelectionRange(offset, offset);
+    };
+
+    editor.on('selectionUpdate', handleSelectionUpdate);
+    return () => {
+      editor.off('selectionUpdate', handleSelectionUpdate);
+    };
+  }, [editor, layout]);
+
+  // Follow the rich view's scrolling in split mode
+  useEffect(() => {
+    const container = richContainerRef.current;
+    if (!syncScroll || !container) return;
+
+    const handleRichScroll = () => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      if (ignoreScrollRef.current === 'rich') {
+        ignoreScrollRef.current = null;
+        return;
+      }
+      const target = mapScroll(
+        container.scrollTop, getRichTops(), container.scrollHeight,
+        getSourceTops(), textarea.scrollHeight
+      );
+      if (Math.abs(target - textarea.scrollTop) >= 1) {
+        ignoreScrollRef.current = 'source';
+        textarea.scrollTop = target;
+      }
+    };
+
+    container.addEventListener('scroll', handleRichScroll);
+    return () => container.removeEventListener('scroll', handleRichScroll);
+  });
+
+  const handleSourceScroll = () => {
+    const textarea = textareaRef.current;
+    const container = richContainerRef.current;
+    if (!syncScroll || !textarea || !container) return;
+    if (ignoreScrollRef.current === 'source') {
+      ignoreScrollRef.current = null;
+      return;
+    }
+    const target = mapScroll(
+      textarea.scrollTop, getSourceTops(), textarea.scrollHeight,
+      getRichTops(), container.scrollHeight
+    );
+    if (Math.abs(target - container.scrollTop) >= 1) {
+      ignoreScrollRef.current = 'rich';
+      container.scrollTop = target;
+    }
+  };
+
+  // Mirror the source caret into the rich view while the source has focus
+  const handleSourceSelect = () => {
+    const textarea = textareaRef.current;
+    if (!textarea || !layout || document.activeElement !== textarea) return;
+    const pos = sourceOffsetToPos(editor.state.doc, layout, textarea.selectionStart);
+    editor.commands.setTextSelection(pos);
+  };
+
+  return (
+    <div className="source-container">
+      <textarea
+        ref={textareaRef}
+        className="source-editor"
+        value={value}
+        spellCheck={false}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={handleSourceScroll}
+        onSelect={handleSourceSelect}
+        onKeyUp={handleSourceSelect}
+        onClick={handleSourceSelect}
+      />
+    </div>
+  );
+});
+
+export default SourcePane;
@@ -1,13 +1,13 @@
 import React from 'react';
-import { X, Plus } from 'lucide-react';
+import { X, Plus, History } from 'lucide-react';
 
-// Tab data structure matching App.tsx
+// Tab fields the tab bar reads (see the Tab interface in App.tsx)
 interface Tab {
   id: string;
   title: string;
   filePath: string | null;
-  content: string;
   isModified: boolean;
+  restoredDraft: boolean;
 }
 
 // Props for TabBar component
@@ -25,6 +25,7 @@ interface TabBarProps {
  * Features:
  * - Visual tab selection with active highlighting
  * - Modified indicator (*) for unsaved changes
+ * - Restored-draft indicator for changes carried over from the last session
  * - Close button per tab with hover effect
  * - New tab button with Ctrl+T shortcut hint
  */
@@ -65,6 +66,20 @@ const TabBar: React.FC<TabBarProps> = ({
           }}
           onClick={() => onTabSelect(tab.id)}
         >
+          {/* Changes restored from the last session that are not on disk yet */}
+          {tab.restoredDraft && (
+            <span
+              title="Restored unsaved changes from the last session"
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                color: '#d97706',
+                marginRight: '6px'
+              }}
+            >
+              <History size={12} />
+            </span>
+          )}
           {/* Tab title with modified indicator */}
           <span
             style={{
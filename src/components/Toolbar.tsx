@@ -26,77 +26,148 @@ import {
   Rows,
   Type,
   Clock,
-  ChevronDown
+  ChevronDown,
+  Eye,
+  SplitSquareHorizontal,
+  FileCode,
+  Timer,
+  FolderTree,
+  ListTree,
+  Tags,
+  Download,
+  SeparatorHorizontal,
+  ClipboardPaste,
+  ArrowLeft,
+  ArrowRight,
+  Link2,
+  Superscript,
+  Info
 } from 'lucide-react';
+import type { AutosaveMode } from '../autosave';
+
+// How the active document is displayed
+export type ViewMode = 'rich' | 'source' | 'split';
+
+// Autosave choices in menu order
+const AUTOSAVE_OPTIONS: { mode: AutosaveMode; label: string }[] = [
+  { mode: 'off', label: 'Off' },
+  { mode: 'delay', label: 'After a short delay' },
+  { mode: 'focus', label: 'When the window loses focus' },
+  { mode: 'tabSwitch', label: 'When switching tabs' },
+];
 
 // Props for the main toolbar component
 interface ToolbarProps {
   editor: Editor;                               // TipTap editor instance
   onNewFile: () => void;                        // New file handler
   onOpenFile: () => void;                       // Open file handler
+  onOpenFolder: () => void;                     // Open workspace folder handler
   onSaveFile: () => void;                       // Save file handler
   onSaveAsFile: () => void;                     // Save as handler
+  onExportHtml: () => void;                     // Export as HTML handler
+  onExportPdf: () => void;                      // Export as PDF handler
+  onExportDocx: () => void;                     // Export as DOCX handler
+  onPastePlainText: () => void;                 // Paste clipboard text without formatting
+  onPasteMarkdown: () => void;                  // Paste clipboard text parsed as Markdown
+  onEditLink: () => void;                       // Insert/edit link popover
+  canGoBack: boolean;                           // Whether a followed link can be gone back from
+  canGoForward: boolean;                        // Whether a link gone back from can be followed again
+  onGoBack: () => void;                         // Return to where the last link was followed from
+  onGoForward: () => void;                      // Follow the link gone back from again
+  onInsertImage: () => void;                    // Insert/edit image dialog
   onFindReplace: () => void;                    // Find/replace dialog toggle
   onOpenRecentFile: (filePath: string) => void; // Open recent file handler
   currentFile: string | null;                   // Current file path
   isModified: boolean;                          // Current file modification state
   recentFiles: string[];                        // List of recent files
+  viewMode: ViewMode;                           // Active tab's view mode
+  onViewModeChange: (viewMode: ViewMode) => void; // View mode switch handler
+  showOutline: boolean;                         // Outline panel visibility
+  onToggleOutline: () => void;                  // Outline panel toggle
+  showBacklinks: boolean;                       // Backlinks panel visibility
+  onToggleBacklinks: () => void;                // Backlinks panel toggle
+  autosaveMode: AutosaveMode;                   // When files are saved automatically
+  onAutosaveModeChange: (mode: AutosaveMode) => void; // Autosave mode handler
 }
 
 /**
  * Toolbar Component
  * Main editor toolbar with all formatting and file operations
  * Features:
- * - File operations (New, Open, Save)
+ * - File operations (New, Open, Open Folder, Save)
  * - Recent files dropdown menu
+ * - Autosave mode menu
+ * - Export menu
+ * - Paste as plain text / Markdown source
  * - Text formatting controls
  * - Headers and lists management
  * - Table insertion and management
+ * - Back/forward through followed links
+ * - Page breaks for PDF export
+ * - Front matter properties
  * - Find/Replace functionality
+ * - Rich / split / source view switcher
+ * - Outline and backlinks panel toggles
  * - Current file status display
  */
 const Toolbar: React.FC<ToolbarProps> = ({
   editor,
   onNewFile,
   onOpenFile,
+  onOpenFolder,
   onSaveFile,
+  onExportHtml,
+  onExportPdf,
+  onExportDocx,
+  onPastePlainText,
+  onPasteMarkdown,
+  onEditLink,
+  canGoBack,
+  canGoForward,
+  onGoBack,
+  onGoForward,
+  onInsertImage,
   onFindReplace,
   onOpenRecentFile,
   currentFile,
   isModified,
-  recentFiles
+  recentFiles,
+  viewMode,
+  onViewModeChange,
+  showOutline,
+  onToggleOutline,
+  showBacklinks,
+  onToggleBacklinks,
+  autosaveMode,
+  onAutosaveModeChange
 }) => {
   // Recent files dropdown visibility state
   const [showRecentFiles, setShowRecentFiles] = React.useState(false);
 
-  // Auto-close recent files menu when clicking outside
+  // Autosave menu visibility state
+  const [showAutosave, setShowAutosave] = React.useState(false);
+
+  // Export menu visibility state
+  const [showExport, setShowExport] = React.useState(false);
+
+  // Paste menu visibility state
+  const [showPaste, setShowPaste] = React.useState(false);
+
+  // Auto-close dropdown menus when clicking outside
   React.useEffect(() => {
     const handleClickOutside = () => {
       setShowRecentFiles(false);
+      setShowAutosave(false);
+      setShowExport(false);
+      setShowPaste(false);
     };
 
-    if (showRecentFiles) {
+    if (showRecentFiles || showAutosave || showExport || showPaste) {
       document.addEventListener('click', handleClickOutside);
       return () => document.removeEventListener('click', handleClickOutside);
     }
-  }, [showRecentFiles]);
+  }, [showRecentFiles, showAutosave, showExport, showPaste]);
   // ========== Helper Functions ==========
-  // Prompt for link URL and insert into document
-  const addLink = () => {
-    const url = window.prompt('Enter link URL:');
-    if (url) {
-      editor.chain().focus().setLink({ href: url }).run();
-    }
-  };
-
-  // Prompt for image URL and insert into document
-  const addImage = () => {
-    const url = window.prompt('Enter image URL:');
-    if (url) {
-      editor.chain().focus().setImage({ src: url }).run();
-    }
-  };
-
   // Insert default 3x3 table with header row
   const insertTable = () => {
     editor.chain().focus().insertTable({ rows: 3, cols: 3, withHeaderRow: true }).run();
@@ -141,6 +212,9 @@ const Toolbar: React.FC<ToolbarProps> = ({
   // Check if cursor is currently inside a table
   const isInTable = editor.isActive('table');
 
+  // Front matter can only be added once, at the top of the document
+  const hasFrontMatter = editor.state.doc.firstChild?.type.name === 'frontMatter';
+
   return (
     <div className="toolbar">
       {/* ========== File Operations Section ========== */}
@@ -159,6 +233,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <FolderOpen size={16} />
         </button>
+        <button
+          className="toolbar-button"
+          onClick={onOpenFolder}
+          title="Open Folder"
+        >
+          <FolderTree size={16} />
+        </button>
         {/* Recent files dropdown container */}
         <div style={{ position: 'relative' }}>
           <button
@@ -229,6 +310,124 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <Save size={16} />
         </button>
+        {/* Autosave mode dropdown container */}
+        <div style={{ position: 'relative' }}>
+          <button
+            className={`toolbar-button ${autosaveMode !== 'off' ? 'active' : ''}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowAutosave(!showAutosave);
+            }}
+            title="Autosave"
+            style={{ paddingRight: '20px' }}
+          >
+            <Timer size={16} />
+            <ChevronDown size={12} style={{ position: 'absolute', right: '4px' }} />
+          </button>
+          {/* Autosave mode menu */}
+          {showAutosave && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '100%',
+                left: '0',
+                background: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                zIndex: 1000,
+                minWidth: '220px'
+              }}
+            >
+              <div style={{ padding: '8px 12px 4px', color: '#666', fontSize: '10px' }}>
+                Autosave files
+              </div>
+              {AUTOSAVE_OPTIONS.map(({ mode, label }) => (
+                <button
+                  key={mode}
+                  onClick={() => {
+                    onAutosaveModeChange(mode);
+                    setShowAutosave(false);
+                  }}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '8px 12px',
+                    border: 'none',
+                    background: 'white',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    fontSize: '12px',
+                    fontWeight: mode === autosaveMode ? 'bold' : 'normal'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.background = '#f0f0f0'}
+                  onMouseLeave={(e) => e.currentTarget.style.background = 'white'}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {/* Export dropdown container */}
+        <div style={{ position: 'relative' }}>
+          <button
+            className="toolbar-button"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowExport(!showExport);
+            }}
+            title="Export"
+            style={{ paddingRight: '20px' }}
+          >
+            <Download size={16} />
+            <ChevronDown size={12} style={{ position: 'absolute', right: '4px' }} />
+          </button>
+          {/* Export formats menu */}
+          {showExport && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '100%',
+                left: '0',
+                background: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                zIndex: 1000,
+                minWidth: '180px'
+              }}
+            >
+              {[
+                { label: 'Export as HTML…', action: onExportHtml },
+                { label: 'Export as PDF…', action: onExportPdf },
+                { label: 'Export as DOCX…', action: onExportDocx },
+              ].map(({ label, action }) => (
+                <button
+                  key={label}
+                  onClick={() => {
+                    action();
+                    setShowExport(false);
+                  }}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '8px 12px',
+                    border: 'none',
+                    background: 'white',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    fontSize: '12px'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.background = '#f0f0f0'}
+                  onMouseLeave={(e) => e.currentTarget.style.background = 'white'}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* ========== Undo/Redo Section ========== */}
@@ -249,6 +448,64 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <Redo size={16} />
         </button>
+        {/* Paste dropdown container */}
+        <div style={{ position: 'relative' }}>
+          <button
+            className="toolbar-button"
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowPaste(!showPaste);
+            }}
+            title="Paste Special"
+            style={{ paddingRight: '20px' }}
+          >
+            <ClipboardPaste size={16} />
+            <ChevronDown size={12} style={{ position: 'absolute', right: '4px' }} />
+          </button>
+          {/* Paste variants menu */}
+          {showPaste && (
+            <div
+              style={{
+                position: 'absolute',
+                top: '100%',
+                left: '0',
+                background: 'white',
+                border: '1px solid #ccc',
+                borderRadius: '4px',
+                boxShadow: '0 4px 12px rgba(0,0,0,0.1)',
+                zIndex: 1000,
+                minWidth: '240px'
+              }}
+            >
+              {[
+                { label: 'Paste as Plain Text (Ctrl+Shift+V)', action: onPastePlainText },
+                { label: 'Paste Markdown Source (Ctrl+Alt+V)', action: onPasteMarkdown },
+              ].map(({ label, action }) => (
+                <button
+                  key={label}
+                  onClick={() => {
+                    action();
+                    setShowPaste(false);
+                  }}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    padding: '8px 12px',
+                    border: 'none',
+                    background: 'white',
+                    textAlign: 'left',
+                    cursor: 'pointer',
+                    fontSize: '12px'
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.background = '#f0f0f0'}
+                  onMouseLeave={(e) => e.currentTarget.style.background = 'white'}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
       </div>
 
       {/* ========== Text Formatting Section ========== */}
@@ -342,6 +599,13 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <Quote size={16} />
         </button>
+        <button
+          className={`toolbar-button ${editor.isActive('callout') ? 'active' : ''}`}
+          onClick={() => editor.chain().focus().toggleCallout().run()}
+          title="Callout"
+        >
+          <Info size={16} />
+        </button>
         <button
           className={`toolbar-button ${editor.isActive('codeBlock') ? 'active' : ''}`}
           onClick={() => editor.chain().focus().toggleCodeBlock().run()}
@@ -349,21 +613,44 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <Code size={16} />
         </button>
+        <button
+          className="toolbar-button"
+          onClick={() => editor.chain().focus().setPageBreak().run()}
+          title="Page Break"
+        >
+          <SeparatorHorizontal size={16} />
+        </button>
       </div>
 
       {/* ========== Links and Media Section ========== */}
       <div className="toolbar-group">
         <button
           className="toolbar-button"
-          onClick={addLink}
-          title="Insert Link (Ctrl+L)"
+          onClick={onGoBack}
+          disabled={!canGoBack}
+          title="Back (Alt+Left)"
         >
-          <LinkIcon size={16} />
+          <ArrowLeft size={16} />
         </button>
         <button
           className="toolbar-button"
-          onClick={addImage}
-          title="Insert Image"
+          onClick={onGoForward}
+          disabled={!canGoForward}
+          title="Forward (Alt+Right)"
+        >
+          <ArrowRight size={16} />
+        </button>
+        <button
+          className={`toolbar-button ${editor.isActive('link') ? 'active' : ''}`}
+          onClick={onEditLink}
+          title="Insert or Edit Link (Ctrl+L)"
+        >
+          <LinkIcon size={16} />
+        </button>
+        <button
+          className={`toolbar-button ${editor.isActive('image') ? 'active' : ''}`}
+          onClick={onInsertImage}
+          title="Insert or Edit Image"
         >
           <ImageIcon size={16} />
         </button>
@@ -374,6 +661,22 @@ const Toolbar: React.FC<ToolbarProps> = ({
         >
           <TableIcon size={16} />
         </button>
+        <button
+          className="toolbar-button"
+          onClick={() => editor.chain().focus().insertFootnote().run()}
+          disabled={!editor.can().insertFootnote()}
+          title="Insert Footnote"
+        >
+          <Superscript size={16} />
+        </button>
+        <button
+          className="toolbar-button"
+          onClick={() => editor.chain().focus().setFrontMatter('').run()}
+          disabled={hasFrontMatter}
+          title="Add Properties"
+        >
+          <Tags size={16} />
+        </button>
       </div>
 
       {/* ========== Contextual Table Management ========== */}
@@ -451,6 +754,45 @@ const Toolbar: React.FC<ToolbarProps> = ({
         </button>
       </div>
 
+      {/* ========== View Mode Section ========== */}
+      <div className="toolbar-group">
+        <button
+          className={`toolbar-button ${viewMode === 'rich' ? 'active' : ''}`}
+          onClick={() => onViewModeChange('rich')}
+          title="Rich View"
+        >
+          <Eye size={16} />
+        </button>
+        <button
+          className={`toolbar-button ${viewMode === 'split' ? 'active' : ''}`}
+          onClick={() => onViewModeChange('split')}
+          title="Split View"
+        >
+          <SplitSquareHorizontal size={16} />
+        </button>
+        <button
+          className={`toolbar-button ${viewMode === 'source' ? 'active' : ''}`}
+          onClick={() => onViewModeChange('source')}
+          title="Markdown Source"
+        >
+          <FileCode size={16} />
+        </button>
+        <button
+          className={`toolbar-button ${showOutline ? 'active' : ''}`}
+          onClick={onToggleOutline}
+          title="Outline"
+        >
+          <ListTree size={16} />
+        </button>
+        <button
+          className={`toolbar-button ${showBacklinks ? 'active' : ''}`}
+          onClick={onToggleBacklinks}
+          title="Backlinks"
+        >
+          <Link2 size={16} />
+        </button>
+      </div>
+
       {/* ========== File Status Display ========== */}
       {/* Auto-positioned to the right */}
       <div className="toolbar-group" style={{ marginLeft: 'auto' }}>
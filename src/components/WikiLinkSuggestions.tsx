@@ -0,0 +1,173 @@
+import React, { useEffect, useImperativeHandle, useReducer, useState } from 'react';
+import { Editor } from '@tiptap/react';
+import { WikiLinkQuery, dismissWikiLinkQuery, wikiLinkQuery } from '../extensions/WikiLink';
+import { HeadingAnchor, fileAnchors, headingAnchors } from '../links';
+import { Note, noteTarget, resolveNote } from '../notes';
+import type { WikiLinkAttrs } from '../markdown';
+
+// Props for WikiLinkSuggestions component
+interface WikiLinkSuggestionsProps {
+  editor: Editor;   // TipTap editor instance
+  notes: Note[];    // Notes that links can name
+}
+
+// Imperative handle for the editor's key handling
+export interface WikiLinkSuggestionsHandle {
+  onKeyDown: (event: KeyboardEvent) => boolean;  // True if the key was used
+}
+
+// A link the list offers
+interface Suggestion {
+  attrs: WikiLinkAttrs;
+  label: string;
+  detail: string;  // Folder, heading level, or "new note"
+}
+
+// Most suggestions listed at once
+const MAX_SUGGESTIONS = 8;
+
+// Notes whose name or path contains the query, names starting with it first
+const noteSuggestions = (notes: Note[], query: string): Suggestion[] => {
+  const lower = query.trim().toLowerCase();
+  const matching = notes
+    .filter(note => note.relative.toLowerCase().includes(lower))
+    .sort((a, b) =>
+      Number(!a.name.toLowerCase().startsWith(lower)) - Number(!b.name.toLowerCase().startsWith(lower)) ||
+      a.name.localeCompare(b.name)
+    )
+    .map(note => ({
+      attrs: { target: noteTarget(notes, note), anchor: null, label: null },
+      label: note.name,
+      detail: note.relative.includes('/') ? note.relative.slice(0, note.relative.lastIndexOf('/')) : '',
+    }));
+  // Linking to a note that does not exist yet is how new notes start
+  if (lower && !notes.some(note => note.name.toLowerCase() === lower || note.relative.toLowerCase() === lower)) {
+    matching.push({ attrs: { target: query.trim(), anchor: null, label: null }, label: query.trim(), detail: 'new note' });
+  }
+  return matching;
+};
+
+const headingSuggestions = (anchors: HeadingAnchor[], target: string, query: string): Suggestion[] => {
+  const lower = query.trim().toLowerCase();
+  return anchors
+    .filter(anchor => anchor.text.toLowerCase().includes(lower))
+    .map(anchor => ({ attrs: { target, anchor: anchor.text, label: null }, label: anchor.text, detail: `H${anchor.level}` }));
+};
+
+/**
+ * WikiLinkSuggestions Component
+ * Completion list shown while typing a `[[` wiki link
+ * Features:
+ * - Notes in the note folder matching what follows `[[`, plus a link to
+ *   a new note when none has that name
+ * - After `Note#`, the headings of that note (`[[#` for this document)
+ * - Arrow keys move through the list, Enter or Tab inserts the link,
+ *   Escape hides the list
+ */
+const WikiLinkSuggestions = React.forwardRef<WikiLinkSuggestionsHandle, WikiLinkSuggestionsProps>(({
+  editor,
+  notes
+}, ref) => {
+  const [highlighted, setHighlighted] = useState(0);
+  // Headings of other notes by path, read as they are asked for
+  const [anchorsByPath, setAnchorsByPath] = useState<Map<string, HeadingAnchor[]>>(new Map());
+
+  // Follow typing in the editor and scrolling
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  useEffect(() => {
+    editor.on('transaction', forceUpdate);
+    window.addEventListener('scroll', forceUpdate, true);
+    return () => {
+      editor.off('transaction', forceUpdate);
+      window.removeEventListener('scroll', forceUpdate, true);
+    };
+  }, [editor]);
+
+  const query: WikiLinkQuery | null = editor.isEditable ? wikiLinkQuery(editor.state) : null;
+  const hash = query ? query.text.indexOf('#') : -1;
+  const noteName = hash >= 0 ? query!.text.slice(0, hash) : null;
+  const linkedNote = noteName?.trim() ? resolveNote(notes, noteName) : null;
+
+  useEffect(() => {
+    if (!linkedNote || anchorsByPath.has(linkedNote.path)) return;
+    fileAnchors(editor.schema, linkedNote.path)
+      .then(anchors => setAnchorsByPath(prev => new Map(prev).set(linkedNote.path, anchors)))
+      .catch(error => {
+        console.error('Error reading headings:', error);
+      });
+  }, [linkedNote?.path]);
+
+  // Start at the top whenever the query changes
+  useEffect(() => {
+    setHighlighted(0);
+  }, [query?.text]);
+
+  const suggestions = !query
+    ? []
+    : noteName === null
+      ? noteSuggestions(notes, query.text)
+      : noteName.trim()
+        ? linkedNote
+          ? headingSuggestions(anchorsByPath.get(linkedNote.path) ?? [], noteTarget(notes, linkedNote), query.text.slice(hash + 1))
+          : []
+        : headingSuggestions(headingAnchors(editor.state.doc), '', query.text.slice(hash + 1));
+  const shown = suggestions.slice(0, MAX_SUGGESTIONS);
+
+  const choose = (suggestion: Suggestion) => {
+    if (!query) return;
+    editor.chain().focus().insertWikiLink(suggestion.attrs, { from: query.from, to: query.to }).run();
+  };
+
+  useImperativeHandle(ref, () => ({
+    onKeyDown: (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        dismissWikiLinkQuery(editor);
+        return true;
+      }
+      if (shown.length === 0) return false;
+      switch (event.key) {
+        case 'ArrowDown':
+          setHighlighted((highlighted + 1) % shown.length);
+          return true;
+        case 'ArrowUp':
+          setHighlighted((highlighted - 1 + shown.length) % shown.length);
+          return true;
+        case 'Enter':
+        case 'Tab':
+          choose(shown[Math.min(highlighted, shown.length - 1)]);
+          return true;
+        default:
+          return false;
+      }
+    },
+  }));
+
+  if (!query || shown.length === 0) return null;
+
+  // Below the `[[`, kept inside the window
+  const coords = editor.view.coordsAtPos(query.from);
+  const style: React.CSSProperties = {
+    top: coords.bottom + 4,
+    left: Math.max(8, Math.min(coords.left, window.innerWidth - 300)),
+  };
+
+  return (
+    <ul className="link-suggestions wiki-link-suggestions" style={style}>
+      {shown.map((suggestion, index) => (
+        <li
+          key={`${suggestion.attrs.target}#${suggestion.attrs.anchor ?? ''}:${suggestion.detail}`}
+          className={index === highlighted ? 'highlighted' : ''}
+          onMouseDown={(e) => {
+            e.preventDefault();
+            choose(suggestion);
+          }}
+        >
+          <span>{suggestion.label}</span>
+          <span className="link-suggestion-detail">{suggestion.detail}</span>
+        </li>
+      ))}
+    </ul>
+  );
+});
+
+export default WikiLinkSuggestions;
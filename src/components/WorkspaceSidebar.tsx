@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  FileImage,
+  FilePlus,
+  FileText,
+  Folder,
+  FolderOpen,
+  FolderPlus,
+  Image as ImageIcon,
+  RefreshCw,
+  X
+} from 'lucide-react';
+import { TreeEntry, baseName, isWithin, joinPath, parentPath } from '../workspace';
+
+// Props for WorkspaceSidebar component
+interface WorkspaceSidebarProps {
+  root: string;                                      // Workspace folder
+  entries: TreeEntry[];                              // Tree below the workspace folder
+  error: string | null;                              // Why the tree could not be read
+  activePath: string | null;                         // File of the active tab
+  expanded: string[];                                // Folders opened in the tree
+  showImages: boolean;                               // Images listed as well as documents
+  onToggleFolder: (path: string) => void;            // Open or close a folder
+  onToggleImages: () => void;                        // Show or hide images
+  onOpenFile: (path: string) => void;                // Open a document in a tab
+  onCreate: (path: string, directory: boolean) => void; // Create a file or folder
+  onMove: (from: string, to: string) => void;        // Rename or move an entry
+  onDuplicate: (path: string) => void;               // Copy an entry beside itself
+  onDelete: (path: string) => void;                  // Move an entry to the trash
+  onRefresh: () => void;                             // Read the tree again
+  onClose: () => void;                               // Close the workspace
+}
+
+// Name being typed for a new or renamed entry
+type Editing =
+  | { kind: 'create'; parent: string; directory: boolean }
+  | { kind: 'rename'; path: string };
+
+// Right-click menu position and target
+interface ContextMenu {
+  x: number;
+  y: number;
+  entry: TreeEntry | null;  // Null for the workspace folder itself
+}
+
+const isDocument = (name: string) => /\.(md|markdown|txt)$/i.test(name);
+
+// Inline name field; Enter or leaving the field commits, Escape cancels
+const NameInput: React.FC<{
+  initial: string;
+  depth: number;
+  onCommit: (name: string) => void;
+  onCancel: () => void;
+}> = ({ initial, depth, onCommit, onCancel }) => {
+  const [name, setName] = useState(initial);
+  const doneRef = useRef(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Select the name without its extension, ready to be typed over
+  useEffect(() => {
+    const dot = initial.lastIndexOf('.');
+    inputRef.current?.setSelectionRange(0, dot > 0 ? dot : initial.length);
+  }, [initial]);
+
+  const finish = (commit: boolean) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    const trimmed = name.trim();
+    if (commit && trimmed && trimmed !== initial) {
+      onCommit(trimmed);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <input
+      ref={inputRef}
+      className="workspace-name-input"
+      style={{ marginLeft: `${8 + depth * 14}px` }}
+      value={name}
+      autoFocus
+      onChange={(e) => setName(e.target.value)}
+      onBlur={() => finish(true)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') finish(true);
+        if (e.key === 'Escape') finish(false);
+      }}
+    />
+  );
+};
+
+/**
+ * WorkspaceSidebar Component
+ * File tree of the workspace folder beside the editor
+ * Features:
+ * - Collapsible folders, with the active tab's file highlighted
+ * - Documents only, or documents and images
+ * - Create, rename, duplicate and move-to-trash from the right-click menu
+ * - Drag entries onto a folder (or the empty area for the top level) to move them
+ */
+const WorkspaceSidebar: React.FC<WorkspaceSidebarProps> = ({
+  root,
+  entries,
+  error,
+  activePath,
+  expanded,
+  showImages,
+  onToggleFolder,
+  onToggleImages,
+  onOpenFile,
+  onCreate,
+  onMove,
+  onDuplicate,
+  onDelete,
+  onRefresh,
+  onClose
+}) => {
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [menu, setMenu] = useState<ContextMenu | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null); // Folder under a drag
+  const dragPathRef = useRef<string | null>(null);                  // Entry being dragged
+
+  // Close the context menu on any click elsewhere
+  useEffect(() => {
+    if (!menu) return;
+    const handleClick = () => setMenu(null);
+    document.addEventListener('click', handleClick);
+    return () => document.removeEventListener('click', handleClick);
+  }, [menu]);
+
+  // Start naming a new entry, opening its folder first
+  const startCreate = (parent: string, directory: boolean) => {
+    if (parent !== root && !expanded.includes(parent)) {
+      onToggleFolder(parent);
+    }
+    setEditing({ kind: 'create', parent, directory });
+  };
+
+  const commitCreate = (parent: string, directory: boolean, name: string) => {
+    // New documents are Markdown unless given another extension
+    const fileName = directory || name.includes('.') ? name : `${name}.md`;
+    onCreate(joinPath(parent, fileName), directory);
+  };
+
+  // ========== Drag and Drop ==========
+  // Whether the dragged entry may be dropped into `folder`
+  const canDrop = (folder: string) => {
+    const from = dragPathRef.current;
+    return from !== null && parentPath(from) !== folder && !isWithin(folder, from);
+  };
+
+  const dropHandlers = (folder: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!canDrop(folder)) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(folder);
+    },
+    onDragLeave: () => setDropTarget(prev => prev === folder ? null : prev),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      const from = dragPathRef.current;
+      setDropTarget(null);
+      if (from && canDrop(folder)) {
+        onMove(from, joinPath(folder, baseName(from)));
+      }
+    },
+  });
+
+  // ========== Tree Rendering ==========
+  const renderEntries = (items: TreeEntry[], parent: string, depth: number): React.ReactNode => (
+    <>
+      {editing?.kind === 'create' && editing.parent === parent && (
+        <NameInput
+          initial={editing.directory ? 'New Folder' : 'Untitled.md'}
+          depth={depth}
+          onCommit={(name) => {
+            setEditing(null);
+            commitCreate(parent, editing.directory, name);
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      )}
+      {items.map(entry => renderEntry(entry, depth))}
+    </>
+  );
+
+  const renderEntry = (entry: TreeEntry, depth: number): React.ReactNode => {
+    if (editing?.kind === 'rename' && editing.path === entry.path) {
+      return (
+        <NameInput
+          key={entry.path}
+          initial={entry.name}
+          depth={depth}
+          onCommit={(name) => {
+            setEditing(null);
+            onMove(entry.path, joinPath(parentPath(entry.path), name));
+          }}
+          onCancel={() => setEditing(null)}
+        />
+      );
+    }
+
+    const isOpen = entry.isDir && expanded.includes(entry.path);
+    const openable = entry.isDir || isDocument(entry.name);
+    const Icon = entry.isDir ? (isOpen ? FolderOpen : Folder) : openable ? FileText : FileImage;
+
+    return (
+      <div key={entry.path}>
+        <div
+          className={[
+            'workspace-entry',
+            entry.path === activePath ? 'active' : '',
+            entry.path === dropTarget ? 'drop-target' : '',
+            openable ? '' : 'inert'
+          ].filter(Boolean).join(' ')}
+          style={{ paddingLeft: `${8 + depth * 14}px` }}
+          title={entry.path}
+          draggable
+          onDragStart={(e) => {
+            dragPathRef.current = entry.path;
+            e.dataTransfer.effectAllowed = 'move';
+            e.dataTransfer.setData('text/plain', entry.path);
+          }}
+          onDragEnd={() => {
+            dragPathRef.current = null;
+            setDropTarget(null);
+          }}
+          {...(entry.isDir ? dropHandlers(entry.path) : {})}
+          onClick={() => entry.isDir ? onToggleFolder(entry.path) : openable && onOpenFile(entry.path)}
+          onContextMenu={(e) => {
+            e.preventDefault();
+            e.stopPropagation();
+            setMenu({ x: e.clientX, y: e.clientY, entry });
+          }}
+        >
+          {entry.isDir
+            ? (isOpen ? <ChevronDown size={12} /> : <ChevronRight size={12} />)
+            : <span style={{ width: '12px', flexShrink: 0 }} />}
+          <Icon size={14} style={{ flexShrink: 0 }} />
+          <span className="workspace-entry-name">{entry.name}</span>
+        </div>
+        {isOpen && renderEntries(entry.children, entry.path, depth + 1)}
+      </div>
+    );
+  };
+
+  // Folder that New File / New Folder in the menu create into
+  const menuFolder = menu?.entry ? (menu.entry.isDir ? menu.entry.path : parentPath(menu.entry.path)) : root;
+
+  return (
+    <div className="workspace-sidebar">
+      <div className="workspace-header">
+        <span className="workspace-title" title={root}>{baseName(root) || root}</span>
+        <button className="toolbar-button" onClick={() => startCreate(root, false)} title="New File">
+          <FilePlus size={14} />
+        </button>
+        <button className="toolbar-button" onClick={() => startCreate(root, true)} title="New Folder">
+          <FolderPlus size={14} />
+        </button>
+        <button
+          className={`toolbar-button ${showImages ? 'active' : ''}`}
+          onClick={onToggleImages}
+          title={showImages ? 'Hide Images' : 'Show Images'}
+        >
+          <ImageIcon size={14} />
+        </button>
+        <button className="toolbar-button" onClick={onRefresh} title="Refresh">
+          <RefreshCw size={14} />
+        </button>
+        <button className="toolbar-button" onClick={onClose} title="Close Folder">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Dropping on the empty area moves an entry to the top level */}
+      <div
+        className={`workspace-tree ${dropTarget === root ? 'drop-target' : ''}`}
+        {...dropHandlers(root)}
+        onContextMenu={(e) => {
+          e.preventDefault();
+          setMenu({ x: e.clientX, y: e.clientY, entry: null });
+        }}
+      >
+        {error
+          ? <div style={{ padding: '8px', color: '#d32f2f', fontSize: '12px' }}>{error}</div>
+          : renderEntries(entries, root, 0)}
+      </div>
+
+      {menu && (
+        <div className="workspace-menu" style={{ left: menu.x, top: menu.y }}>
+          <button onClick={() => startCreate(menuFolder, false)}>New File</button>
+          <button onClick={() => startCreate(menuFolder, true)}>New Folder</button>
+          {menu.entry && (
+            <>
+              <button onClick={() => setEditing({ kind: 'rename', path: menu.entry!.path })}>Rename</button>
+              <button onClick={() => onDuplicate(menu.entry!.path)}>Duplicate</button>
+              <button onClick={() => onDelete(menu.entry!.path)}>Move to Trash</button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkspaceSidebar;
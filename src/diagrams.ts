@@ -0,0 +1,53 @@
+// A rendered Mermaid diagram, or why it could not be drawn
+export type DiagramResult = { svg: string } | { error: string };
+
+// Code block language that is drawn as a diagram
+export const DIAGRAM_LANGUAGE = 'mermaid';
+
+// Diagrams kept for redrawing and export, oldest dropped first
+const MAX_CACHED_DIAGRAMS = 100;
+
+const cache = new Map<string, DiagramResult>();
+let queue: Promise<unknown> = Promise.resolve();
+let diagramCount = 0;
+let initialized = false;
+
+// Mermaid is large, so it is loaded from the bundle the first time a diagram
+// is drawn rather than at startup
+const loadMermaid = async () => {
+  const mermaid = (await import('mermaid')).default;
+  if (!initialized) {
+    mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', suppressErrorRendering: true });
+    initialized = true;
+  }
+  return mermaid;
+};
+
+const remember = (source: string, result: DiagramResult) => {
+  cache.delete(source);
+  cache.set(source, result);
+  if (cache.size > MAX_CACHED_DIAGRAMS) cache.delete(cache.keys().next().value!);
+  return result;
+};
+
+// The diagram for `source` if it has been drawn already
+export const cachedDiagram = (source: string) => cache.get(source);
+
+// Draw the diagram for `source` as SVG. Mermaid renders one diagram at a
+// time, so calls are queued; results are cached by source
+export const renderDiagram = (source: string): Promise<DiagramResult> => {
+  const cached = cache.get(source);
+  if (cached) return Promise.resolve(cached);
+
+  const result = queue.then(async () => {
+    try {
+      const mermaid = await loadMermaid();
+      const { svg } = await mermaid.render(`mermaid-diagram-${++diagramCount}`, source);
+      return remember(source, { svg });
+    } catch (error) {
+      return remember(source, { error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+  queue = result;
+  return result;
+};
@@ -0,0 +1,453 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document as WordDocument,
+  ExternalHyperlink,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  ILevelsOptions,
+  ImageRun,
+  LevelFormat,
+  PageBreak,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { fs } from '@tauri-apps/api';
+import { localImagePath, parentPath } from '../workspace';
+import { documentTitle } from './html';
+import { CalloutType, WikiLinkAttrs, calloutTitle, wikiLinkText } from '../markdown';
+import { footnoteNumbers } from '../extensions/Footnotes';
+
+// What to export and where from
+export interface DocxExportRequest {
+  doc: ProseMirrorNode;
+  title: string;              // Tab title, used when the document has none of its own
+  sourcePath: string | null;  // Document file; relative image paths resolve against its folder
+  targetPath: string;         // Word file to write
+}
+
+// Image ready to embed; formats Word cannot show are converted to PNG
+interface LoadedImage {
+  type: 'png' | 'jpg' | 'gif' | 'bmp';
+  data: Uint8Array;
+  width: number;   // Natural size in pixels
+  height: number;
+}
+
+// Where a block sits: inside a quote, a list item or a table cell
+interface BlockScope {
+  style?: string;                 // Paragraph style, e.g. inside a blockquote
+  indent: number;                 // Left indent in twips, for text under list items
+  bold: boolean;                  // Table header cells
+  alignment?: (typeof AlignmentType)[keyof typeof AlignmentType];
+}
+
+// State collected while converting
+interface Conversion {
+  images: Map<string, LoadedImage | null>;  // By source; null if it could not be loaded
+  orderedLists: number[];                   // Start number of each ordered list so far
+  footnotes: Map<string, number>;           // Word footnote number by label
+}
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const ALIGNMENTS: Record<string, (typeof AlignmentType)[keyof typeof AlignmentType]> = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+};
+
+// Indent of one list level, in twips (half an inch)
+const LIST_INDENT = 720;
+
+// Widest an image may be: the text width of an A4 page with one-inch margins
+const MAX_IMAGE_WIDTH = 600;
+
+// ========== Numbering ==========
+// Nine list levels, each indented one step further
+const listLevels = (format: (level: number) => Omit<ILevelsOptions, 'level' | 'style'>): ILevelsOptions[] =>
+  Array.from({ length: 9 }, (_, level) => ({
+    level,
+    alignment: AlignmentType.LEFT,
+    ...format(level),
+    style: { paragraph: { indent: { left: LIST_INDENT * (level + 1), hanging: 360 } } },
+  }));
+
+const BULLETS = ['•', '◦', '▪'];
+const ORDERED_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN];
+
+const bulletLevels = (symbol?: string) => listLevels(level => ({
+  format: LevelFormat.BULLET,
+  text: symbol ?? BULLETS[level % BULLETS.length],
+}));
+
+// Each ordered list gets its own definition, so it starts at its own number
+const orderedLevels = (start: number) => listLevels(level => ({
+  format: ORDERED_FORMATS[level % ORDERED_FORMATS.length],
+  text: `%${level + 1}.`,
+  start,
+}));
+
+// ========== Images ==========
+// Formats Word reads directly, from the file's first bytes
+const rasterType = (bytes: Uint8Array): LoadedImage['type'] | null => {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpg';
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) return 'gif';
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) return 'bmp';
+  return null;
+};
+
+const readImageBytes = async (src: string, baseDir: string | null) => {
+  const path = localImagePath(src, baseDir);
+  if (path) return fs.readBinaryFile(path);
+  if (!/^(https?|data):/i.test(src)) throw new Error(`Cannot find ${src}`);
+  const response = await fetch(src);
+  if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+// Read an image and measure it, converting SVG, WebP and the like to PNG
+const loadImage = async (src: string, baseDir: string | null): Promise<LoadedImage> => {
+  const bytes = await readImageBytes(src, baseDir);
+  const isSvg = new TextDecoder().decode(bytes.subarray(0, 256)).trimStart().startsWith('<');
+  const url = URL.createObjectURL(new Blob([new Uint8Array(bytes)], { type: isSvg ? 'image/svg+xml' : '' }));
+
+  try {
+    const element = new window.Image();
+    element.src = url;
+    await element.decode();
+    // SVGs without a size of their own get the browser's default
+    const width = element.naturalWidth || 300;
+    const height = element.naturalHeight || 150;
+
+    const type = rasterType(bytes);
+    if (type) return { type, data: bytes, width, height };
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(element, 0, 0, width, height);
+    const png = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!png) throw new Error(`Cannot convert ${src}`);
+    return { type: 'png', data: new Uint8Array(await png.arrayBuffer()), width, height };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Load every image in the document once, before converting
+const loadImages = async (doc: ProseMirrorNode, baseDir: string | null) => {
+  const images = new Map<string, LoadedImage | null>();
+  const sources: string[] = [];
+  doc.descendants(node => {
+    if (node.type.name === 'image' && node.attrs.src) sources.push(node.attrs.src);
+  });
+
+  for (const src of sources) {
+    if (images.has(src)) continue;
+    try {
+      images.set(src, await loadImage(src, baseDir));
+    } catch (error) {
+      console.error('Error loading image for DOCX export:', error);
+      images.set(src, null);
+    }
+  }
+  return images;
+};
+
+// ========== Conversion ==========
+// Runs of a paragraph, heading or code line: formatted text, links, wiki
+// links, footnote references, math, line breaks and images
+const inlineRuns = (node: ProseMirrorNode, scope: BlockScope, conversion: Conversion) => {
+  const runs: ParagraphChild[] = [];
+  node.forEach(child => {
+    if (child.isText) {
+      const has = (name: string) => child.marks.some(mark => mark.type.name === name);
+      const link = child.marks.find(mark => mark.type.name === 'link');
+      const run = new TextRun({
+        text: child.text ?? '',
+        bold: has('bold') || scope.bold || undefined,
+        italics: has('italic') || undefined,
+        strike: has('strike') || undefined,
+        style: has('code') ? 'InlineCode' : link ? 'Hyperlink' : undefined,
+      });
+      runs.push(link ? new ExternalHyperlink({ link: link.attrs.href, children: [run] }) : run);
+    } else if (child.type.name === 'wikiLink') {
+      runs.push(new TextRun({ text: wikiLinkText(child.attrs as WikiLinkAttrs), bold: scope.bold || undefined }));
+    } else if (child.type.name === 'footnoteReference') {
+      const number = conversion.footnotes.get(child.attrs.label);
+      if (number) runs.push(new FootnoteReferenceRun(number));
+    } else if (child.type.name === 'mathInline') {
+      // Word has no TeX input, so formulas keep their source
+      runs.push(new TextRun({ text: child.attrs.tex, style: 'InlineCode' }));
+    } else if (child.type.name === 'hardBreak') {
+      runs.push(new TextRun({ break: 1 }));
+    } else if (child.type.name === 'image') {
+      const image = conversion.images.get(child.attrs.src);
+      if (!image) {
+        // Keep a trace of images that could not be embedded
+        runs.push(new TextRun({ text: `[${child.attrs.alt || child.attrs.src}]`, italics: true }));
+        return;
+      }
+      // Resized images keep their width from the editor
+      const scale = Math.min(child.attrs.width ?? image.width, MAX_IMAGE_WIDTH) / image.width;
+      runs.push(new ImageRun({
+        type: image.type,
+        data: image.data,
+        transformation: { width: Math.round(image.width * scale), height: Math.round(image.height * scale) },
+        altText: child.attrs.alt ? { name: child.attrs.alt, description: child.attrs.alt } : undefined,
+      }));
+    }
+  });
+  return runs;
+};
+
+const paragraph = (node: ProseMirrorNode, scope: BlockScope, conversion: Conversion) => new Paragraph({
+  style: scope.style,
+  alignment: scope.alignment,
+  indent: scope.indent ? { left: scope.indent } : undefined,
+  children: inlineRuns(node, scope, conversion),
+});
+
+// List items as numbered paragraphs; text after an item's first paragraph
+// lines up with it, and nested lists go one level deeper
+const convertList = (
+  list: ProseMirrorNode,
+  level: number,
+  scope: BlockScope,
+  conversion: Conversion
+): (Paragraph | Table)[] => {
+  let reference = 'bullets';
+  if (list.type.name === 'orderedList') {
+    conversion.orderedLists.push(list.attrs.start ?? 1);
+    reference = `ordered-${conversion.orderedLists.length - 1}`;
+  }
+
+  const blocks: (Paragraph | Table)[] = [];
+  list.forEach(item => {
+    const itemReference = item.type.name === 'taskItem'
+      ? (item.attrs.checked ? 'task-done' : 'task-open')
+      : reference;
+    const itemScope = { ...scope, indent: LIST_INDENT * (level + 1) };
+    let numbered = false;
+
+    item.forEach(child => {
+      if (['bulletList', 'orderedList', 'taskList'].includes(child.type.name)) {
+        blocks.push(...convertList(child, level + 1, scope, conversion));
+      } else if (!numbered && child.type.name === 'paragraph') {
+        numbered = true;
+        blocks.push(new Paragraph({
+          style: scope.style,
+          numbering: { reference: itemReference, level: Math.min(level, 8) },
+          children: inlineRuns(child, scope, conversion),
+        }));
+      } else {
+        blocks.push(...convertBlock(child, itemScope, conversion));
+      }
+    });
+  });
+  return blocks;
+};
+
+const convertTable = (table: ProseMirrorNode, scope: BlockScope, conversion: Conversion) => {
+  const rows: TableRow[] = [];
+  table.forEach((row, _offset, rowIndex) => {
+    let isHeader = row.childCount > 0;
+    const cells: TableCell[] = [];
+    row.forEach(cell => {
+      const header = cell.type.name === 'tableHeader';
+      isHeader = isHeader && header;
+      const cellScope: BlockScope = {
+        ...scope,
+        indent: 0,
+        bold: header,
+        alignment: cell.attrs.align ? ALIGNMENTS[cell.attrs.align] : undefined,
+      };
+      const children: (Paragraph | Table)[] = [];
+      cell.forEach(child => children.push(...convertBlock(child, cellScope, conversion)));
+      cells.push(new TableCell({
+        columnSpan: cell.attrs.colspan > 1 ? cell.attrs.colspan : undefined,
+        rowSpan: cell.attrs.rowspan > 1 ? cell.attrs.rowspan : undefined,
+        shading: header ? { type: ShadingType.CLEAR, fill: 'F5F5F5', color: 'auto' } : undefined,
+        // Word requires a paragraph in every cell
+        children: children.length > 0 ? children : [new Paragraph({})],
+      }));
+    });
+    // A leading header row repeats at the top of each page
+    rows.push(new TableRow({ tableHeader: (isHeader && rowIndex === 0) || undefined, cantSplit: true, children: cells }));
+  });
+  return new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows });
+};
+
+const convertBlock = (node: ProseMirrorNode, scope: BlockScope, conversion: Conversion): (Paragraph | Table)[] => {
+  switch (node.type.name) {
+    case 'paragraph':
+      return [paragraph(node, scope, conversion)];
+    case 'heading':
+      return [new Paragraph({
+        heading: HEADING_LEVELS[node.attrs.level - 1],
+        indent: scope.indent ? { left: scope.indent } : undefined,
+        children: inlineRuns(node, scope, conversion),
+      })];
+    case 'blockquote': {
+      const blocks: (Paragraph | Table)[] = [];
+      node.forEach(child => blocks.push(...convertBlock(child, { ...scope, style: 'Quote' }, conversion)));
+      return blocks;
+    }
+    case 'callout': {
+      // A quote headed by the callout's title
+      const title = calloutTitle({ type: node.attrs.type as CalloutType, title: node.attrs.title });
+      const blocks: (Paragraph | Table)[] = [new Paragraph({
+        style: 'Quote',
+        indent: scope.indent ? { left: scope.indent } : undefined,
+        keepNext: true,
+        children: [new TextRun({ text: title, bold: true, italics: false })],
+      })];
+      node.forEach(child => blocks.push(...convertBlock(child, { ...scope, style: 'Quote' }, conversion)));
+      return blocks;
+    }
+    case 'bulletList':
+    case 'orderedList':
+    case 'taskList':
+      return convertList(node, 0, scope, conversion);
+    case 'codeBlock':
+      // One paragraph, so the block stays together on a page
+      return [new Paragraph({
+        style: 'CodeBlock',
+        indent: scope.indent ? { left: scope.indent } : undefined,
+        keepLines: true,
+        children: node.textContent.replace(/\t/g, '    ').split('\n')
+          .map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined })),
+      })];
+    case 'mathBlock':
+      return [new Paragraph({
+        style: 'CodeBlock',
+        indent: scope.indent ? { left: scope.indent } : undefined,
+        keepLines: true,
+        children: (node.attrs.tex as string).split('\n')
+          .map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined })),
+      })];
+    case 'table':
+      return [convertTable(node, scope, conversion)];
+    case 'horizontalRule':
+      return [new Paragraph({
+        border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'DDDDDD', space: 1 } },
+      })];
+    case 'pageBreak':
+      return [new Paragraph({ children: [new PageBreak()] })];
+    case 'frontMatter':
+      // Its title becomes the document title instead
+      return [];
+    case 'footnotes':
+      // Footnotes become Word footnotes at the foot of their pages instead
+      return [];
+    default:
+      // Unknown blocks keep at least their text
+      return node.textContent ? [new Paragraph({ style: scope.style, text: node.textContent })] : [];
+  }
+};
+
+// ========== Export ==========
+// Write the document as an editable Word file; returns the image sources
+// that could not be embedded
+export const exportDocx = async ({ doc, title, sourcePath, targetPath }: DocxExportRequest) => {
+  const conversion: Conversion = {
+    images: await loadImages(doc, sourcePath ? parentPath(sourcePath) : null),
+    orderedLists: [],
+    footnotes: footnoteNumbers(doc),
+  };
+
+  const children: (Paragraph | Table)[] = [];
+  const scope: BlockScope = { indent: 0, bold: false };
+  doc.forEach(node => children.push(...convertBlock(node, scope, conversion)));
+
+  // Word footnotes hold paragraphs only, so tables in footnotes are left out
+  const footnotes: Record<string, { children: Paragraph[] }> = {};
+  doc.descendants(node => {
+    if (node.type.name !== 'footnote') return !node.isTextblock;
+    const number = conversion.footnotes.get(node.attrs.label);
+    if (number && !footnotes[number]) {
+      const blocks: (Paragraph | Table)[] = [];
+      node.forEach(child => blocks.push(...convertBlock(child, scope, conversion)));
+      footnotes[number] = { children: blocks.filter((block): block is Paragraph => block instanceof Paragraph) };
+    }
+    return false;
+  });
+
+  const word = new WordDocument({
+    title: documentTitle(doc, title),
+    styles: {
+      paragraphStyles: [
+        {
+          id: 'CodeBlock',
+          name: 'Code Block',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { font: 'Consolas', size: 20 },
+          paragraph: {
+            spacing: { before: 120, after: 120 },
+            shading: { type: ShadingType.CLEAR, fill: 'F5F5F5', color: 'auto' },
+          },
+        },
+        {
+          id: 'Quote',
+          name: 'Quote',
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: { italics: true, color: '666666' },
+          paragraph: {
+            indent: { left: 360 },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: 'DDDDDD', space: 8 } },
+          },
+        },
+      ],
+      characterStyles: [
+        {
+          id: 'InlineCode',
+          name: 'Inline Code',
+          basedOn: 'DefaultParagraphFont',
+          run: {
+            font: 'Consolas',
+            shading: { type: ShadingType.CLEAR, fill: 'F0F0F0', color: 'auto' },
+          },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        { reference: 'bullets', levels: bulletLevels() },
+        { reference: 'task-open', levels: bulletLevels('☐') },
+        { reference: 'task-done', levels: bulletLevels('☒') },
+        ...conversion.orderedLists.map((start, index) => ({
+          reference: `ordered-${index}`,
+          levels: orderedLevels(start),
+        })),
+      ],
+    },
+    footnotes,
+    sections: [{ children }],
+  });
+
+  const blob = await Packer.toBlob(word);
+  await fs.writeBinaryFile(targetPath, new Uint8Array(await blob.arrayBuffer()));
+
+  return Array.from(conversion.images.entries())
+    .filter(([, image]) => image === null)
+    .map(([src]) => src);
+};
@@ -0,0 +1,466 @@
+import { DOMSerializer, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { fs } from '@tauri-apps/api';
+import { createLowlight, common } from 'lowlight';
+import { parse as parseYaml } from 'yaml';
+import katex from 'katex';
+import { baseName, joinPath, localImagePath, parentPath } from '../workspace';
+import { slugify } from '../links';
+import { DIAGRAM_LANGUAGE, renderDiagram } from '../diagrams';
+import { footnoteNumbers } from '../extensions/Footnotes';
+import { CalloutType, calloutTitle } from '../markdown';
+
+// Colour scheme of the exported page
+export type ExportTheme = 'light' | 'dark';
+
+// How local images end up in the export
+export type ImageMode = 'inline' | 'folder';
+
+export interface HtmlExportSettings {
+  theme: ExportTheme;
+  images: ImageMode;  // Embedded as data URIs, or copied to a folder beside the page
+  toc: boolean;       // Table of contents generated from the headings
+}
+
+// What to export and where from
+export interface HtmlExportRequest {
+  doc: ProseMirrorNode;
+  title: string;              // Tab title, used when the document has none of its own
+  sourcePath: string | null;  // Document file; relative image paths resolve against its folder
+  targetPath: string;         // HTML file to write
+  settings: HtmlExportSettings;
+}
+
+const HTML_EXPORT_KEY = 'docmarkings-export-html';
+
+export const DEFAULT_HTML_EXPORT: HtmlExportSettings = { theme: 'light', images: 'inline', toc: false };
+
+export const loadHtmlExportSettings = (): HtmlExportSettings => {
+  try {
+    const saved = localStorage.getItem(HTML_EXPORT_KEY);
+    return saved ? { ...DEFAULT_HTML_EXPORT, ...JSON.parse(saved) } : DEFAULT_HTML_EXPORT;
+  } catch (error) {
+    console.error('Error loading HTML export settings:', error);
+    return DEFAULT_HTML_EXPORT;
+  }
+};
+
+export const saveHtmlExportSettings = (settings: HtmlExportSettings) => {
+  try {
+    localStorage.setItem(HTML_EXPORT_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving HTML export settings:', error);
+  }
+};
+
+// ========== Stylesheet ==========
+// Same typography as the editor (`.ProseMirror` in styles.css), with
+// GitHub-like highlight.js colours for each theme
+const THEME_COLORS: Record<ExportTheme, Record<string, string>> = {
+  light: {
+    text: '#333', background: '#fff', muted: '#666', border: '#ddd', link: '#0969da',
+    code: '#f0f0f0', pre: '#f5f5f5', th: '#f5f5f5',
+    keyword: '#cf222e', title: '#8250df', string: '#0a3069', number: '#0550ae',
+    comment: '#6e7781', variable: '#953800', tag: '#116329', addition: '#e6ffec', deletion: '#ffebe9',
+  },
+  dark: {
+    text: '#d4d4d4', background: '#1e1e1e', muted: '#9a9a9a', border: '#444', link: '#4493f8',
+    code: '#2d2d2d', pre: '#262626', th: '#2a2a2a',
+    keyword: '#ff7b72', title: '#d2a8ff', string: '#a5d6ff', number: '#79c0ff',
+    comment: '#8b949e', variable: '#ffa657', tag: '#7ee787', addition: '#033a16', deletion: '#67060c',
+  },
+};
+
+export const exportStylesheet = (theme: ExportTheme) => {
+  const c = THEME_COLORS[theme];
+  return `
+:root { color-scheme: ${theme}; }
+body {
+  margin: 0;
+  background: ${c.background};
+  color: ${c.text};
+  font-family: Inter, system-ui, Avenir, Helvetica, Arial, sans-serif;
+  font-size: 16px;
+  line-height: 1.6;
+}
+main { max-width: 800px; margin: 0 auto; padding: 2em 1.5em; }
+h1, h2, h3, h4, h5, h6 { font-weight: bold; margin: 1em 0 0.5em 0; }
+h1 { font-size: 2em; }
+h2 { font-size: 1.5em; }
+h3 { font-size: 1.3em; }
+h4 { font-size: 1.1em; }
+h5 { font-size: 1em; }
+h6 { font-size: 0.9em; }
+p { margin: 0.5em 0; }
+a { color: ${c.link}; }
+ul, ol { padding-left: 2em; margin: 0.5em 0; }
+blockquote {
+  border-left: 3px solid ${c.border};
+  margin-left: 0;
+  padding-left: 1em;
+  font-style: italic;
+  color: ${c.muted};
+}
+pre {
+  background: ${c.pre};
+  padding: 1em;
+  border-radius: 4px;
+  overflow-x: auto;
+  font-family: 'Courier New', Courier, monospace;
+}
+code {
+  background: ${c.code};
+  padding: 2px 4px;
+  border-radius: 3px;
+  font-family: 'Courier New', Courier, monospace;
+  font-size: 0.9em;
+}
+pre code { background: none; padding: 0; }
+table { border-collapse: collapse; width: 100%; margin: 1em 0; }
+th, td { border: 1px solid ${c.border}; padding: 8px 12px; text-align: left; vertical-align: top; }
+th { background: ${c.th}; font-weight: bold; }
+td p, th p { margin: 0; }
+img { max-width: 100%; }
+.mermaid-diagram { margin: 1em 0; text-align: center; break-inside: avoid; }
+.mermaid-diagram svg { max-width: 100%; height: auto; }
+hr { border: none; border-top: 1px solid ${c.border}; margin: 1.5em 0; }
+div[data-page-break] { break-after: page; }
+sup[data-footnote-ref] a { text-decoration: none; }
+section.footnotes { border-top: 1px solid ${c.border}; margin-top: 2em; font-size: 0.9em; color: ${c.muted}; }
+section.footnotes li p { margin: 0.25em 0; }
+a.footnote-back { text-decoration: none; }
+.callout { margin: 1em 0; padding: 0.5em 1em; border-left: 4px solid; border-radius: 4px; background: ${c.code}; }
+.callout-title { margin: 0.25em 0; font-weight: bold; }
+summary.callout-title { cursor: pointer; }
+.callout-note { border-color: #0969da; } .callout-note .callout-title { color: #0969da; }
+.callout-tip { border-color: #1a7f37; } .callout-tip .callout-title { color: #1a7f37; }
+.callout-important { border-color: #8250df; } .callout-important .callout-title { color: #8250df; }
+.callout-warning { border-color: #9a6700; } .callout-warning .callout-title { color: #9a6700; }
+.callout-caution { border-color: #cf222e; } .callout-caution .callout-title { color: #cf222e; }
+ul[data-type="taskList"] { list-style: none; padding-left: 0.5em; }
+ul[data-type="taskList"] li { display: flex; gap: 0.5em; align-items: baseline; }
+ul[data-type="taskList"] li > div { flex: 1; }
+ul[data-type="taskList"] li > div > p { margin: 0; }
+ul[data-type="taskList"] li[data-checked="true"] > div { color: ${c.muted}; text-decoration: line-through; }
+nav.toc { border-bottom: 1px solid ${c.border}; margin-bottom: 1.5em; padding-bottom: 1em; }
+nav.toc > ul { padding-left: 1em; }
+nav.toc a { text-decoration: none; }
+.hljs-comment, .hljs-quote { color: ${c.comment}; font-style: italic; }
+.hljs-keyword, .hljs-selector-tag, .hljs-type, .hljs-doctag, .hljs-template-tag { color: ${c.keyword}; }
+.hljs-title, .hljs-section, .hljs-function .hljs-title { color: ${c.title}; }
+.hljs-string, .hljs-regexp, .hljs-meta .hljs-string { color: ${c.string}; }
+.hljs-number, .hljs-literal, .hljs-built_in, .hljs-attr, .hljs-attribute, .hljs-symbol, .hljs-meta { color: ${c.number}; }
+.hljs-variable, .hljs-params, .hljs-template-variable, .hljs-property { color: ${c.variable}; }
+.hljs-name, .hljs-selector-id, .hljs-selector-class, .hljs-bullet { color: ${c.tag}; }
+.hljs-addition { background: ${c.addition}; }
+.hljs-deletion { background: ${c.deletion}; }
+.hljs-emphasis { font-style: italic; }
+.hljs-strong { font-weight: bold; }
+`;
+};
+
+// ========== Rendering ==========
+const lowlight = createLowlight(common);
+
+type HighlightNode = ReturnType<typeof lowlight.highlight>['children'][number];
+
+// Add lowlight's tree to `parent`, keeping its hljs-* classes
+const appendHighlighted = (parent: HTMLElement, nodes: HighlightNode[]) => {
+  nodes.forEach(node => {
+    if (node.type === 'text') {
+      parent.appendChild(document.createTextNode(node.value));
+    } else if (node.type === 'element') {
+      const element = document.createElement(node.tagName);
+      const className = node.properties.className;
+      if (Array.isArray(className)) element.className = className.join(' ');
+      appendHighlighted(element, node.children);
+      parent.appendChild(element);
+    }
+  });
+};
+
+// Colour code blocks the way the editor does: by their language, or guessed
+const highlightCode = (code: HTMLElement) => {
+  const language = Array.from(code.classList)
+    .find(name => name.startsWith('language-'))
+    ?.slice('language-'.length);
+  const text = code.textContent ?? '';
+  const tree = language && lowlight.registered(language)
+    ? lowlight.highlight(language, text)
+    : lowlight.highlightAuto(text);
+  code.textContent = '';
+  code.classList.add('hljs');
+  appendHighlighted(code, tree.children);
+};
+
+// Give a callout its title; collapsible ones become <details>
+const expandCallout = (callout: HTMLElement) => {
+  const title = calloutTitle({
+    type: callout.getAttribute('data-callout') as CalloutType,
+    title: callout.getAttribute('data-title'),
+  });
+  const collapsible = callout.hasAttribute('data-collapsible');
+  const heading = document.createElement(collapsible ? 'summary' : 'p');
+  heading.className = 'callout-title';
+  heading.textContent = title;
+  if (!collapsible) {
+    callout.insertBefore(heading, callout.firstChild);
+    return;
+  }
+  const details = document.createElement('details');
+  details.className = callout.className;
+  details.open = !callout.hasAttribute('data-collapsed');
+  details.append(heading, ...Array.from(callout.childNodes));
+  callout.replaceWith(details);
+};
+
+// Number footnote references and link them to a list of the footnotes;
+// footnotes nothing refers to are left out, as on GitHub
+const numberFootnotes = (body: HTMLElement, numbers: Map<string, number>) => {
+  body.querySelectorAll('sup[data-footnote-ref]').forEach(reference => {
+    const label = reference.getAttribute('data-label') ?? '';
+    const link = document.createElement('a');
+    link.href = `#fn-${encodeURIComponent(label)}`;
+    link.textContent = String(numbers.get(label) ?? '?');
+    if (!body.querySelector(`[id="fnref-${CSS.escape(label)}"]`)) reference.id = `fnref-${label}`;
+    reference.replaceChildren(link);
+  });
+  body.querySelectorAll('section[data-footnotes]').forEach(section => {
+    const list = document.createElement('ol');
+    Array.from(section.querySelectorAll<HTMLElement>(':scope > div[data-footnote]'))
+      .filter(footnote => numbers.has(footnote.getAttribute('data-label') ?? ''))
+      .sort((a, b) => numbers.get(a.getAttribute('data-label')!)! - numbers.get(b.getAttribute('data-label')!)!)
+      .forEach(footnote => {
+        const label = footnote.getAttribute('data-label')!;
+        const item = document.createElement('li');
+        item.id = `fn-${label}`;
+        item.value = numbers.get(label)!;
+        item.append(...Array.from(footnote.childNodes));
+        const back = document.createElement('a');
+        back.href = `#fnref-${encodeURIComponent(label)}`;
+        back.className = 'footnote-back';
+        back.textContent = '↩';
+        (item.lastElementChild ?? item).append(' ', back);
+        list.appendChild(item);
+      });
+    section.replaceChildren(list);
+    if (!list.firstChild) section.remove();
+  });
+};
+
+// Nested list of links to `headings`, following their levels
+const buildToc = (headings: HTMLElement[]) => {
+  const nav = document.createElement('nav');
+  nav.className = 'toc';
+  const stack: { level: number; list: HTMLElement; last: HTMLElement | null }[] = [];
+
+  headings.forEach(heading => {
+    const level = Number(heading.tagName.slice(1));
+    while (stack.length > 1 && level < stack[stack.length - 1].level) stack.pop();
+    let top = stack[stack.length - 1];
+    if (!top || (level > top.level && top.last)) {
+      const list = document.createElement('ul');
+      (top?.last ?? nav).appendChild(list);
+      top = { level, list, last: null };
+      stack.push(top);
+    }
+
+    const item = document.createElement('li');
+    const link = document.createElement('a');
+    link.href = `#${heading.id}`;
+    link.textContent = heading.textContent;
+    item.appendChild(link);
+    top.list.appendChild(item);
+    top.last = item;
+  });
+  return nav;
+};
+
+// Title from the front matter, then the first H1, then the tab
+export const documentTitle = (doc: ProseMirrorNode, fallback: string) => {
+  const first = doc.firstChild;
+  if (first?.type.name === 'frontMatter') {
+    try {
+      const data = parseYaml(first.attrs.yaml);
+      if (data && typeof data.title === 'string' && data.title.trim()) return data.title.trim();
+    } catch {
+      // Unparseable front matter just has no title
+    }
+  }
+  let heading = '';
+  doc.forEach(node => {
+    if (!heading && node.type.name === 'heading' && node.attrs.level === 1) heading = node.textContent;
+  });
+  return heading.trim() || fallback.replace(/\.(md|markdown|txt)$/i, '');
+};
+
+// Body of the page: the document as HTML with highlighted code, read-only
+// checkboxes, table header rows, heading anchors and (optionally) a table
+// of contents
+export const renderDocumentBody = (doc: ProseMirrorNode, toc: boolean) => {
+  const body = document.createElement('main');
+  body.appendChild(DOMSerializer.fromSchema(doc.type.schema).serializeFragment(doc.content));
+
+  body.querySelectorAll('div[data-front-matter]').forEach(element => element.remove());
+  numberFootnotes(body, footnoteNumbers(doc));
+  body.querySelectorAll<HTMLElement>('div[data-callout]').forEach(expandCallout);
+  body.querySelectorAll<HTMLElement>('pre > code').forEach(highlightCode);
+  // Math as MathML, which browsers draw without KaTeX's fonts and styles
+  body.querySelectorAll<HTMLElement>('[data-math-inline], [data-math-block]').forEach(element => {
+    const displayMode = element.hasAttribute('data-math-block');
+    element.innerHTML = katex.renderToString(element.getAttribute('data-tex') ?? '', {
+      displayMode,
+      output: 'mathml',
+      throwOnError: false,
+    });
+  });
+  body.querySelectorAll<HTMLInputElement>('input[type="checkbox"]').forEach(input => {
+    input.disabled = true;
+  });
+  // Header rows go in a <thead>, which printing repeats on every page
+  body.querySelectorAll('table').forEach(table => {
+    const first = table.querySelector('tr');
+    if (first && first.children.length > 0 && Array.from(first.children).every(cell => cell.tagName === 'TH')) {
+      const head = document.createElement('thead');
+      head.appendChild(first);
+      table.insertBefore(head, table.querySelector('tbody'));
+    }
+  });
+
+  // Top-level headings only, like the outline panel
+  const used = new Map<string, number>();
+  const headings = Array.from(body.children)
+    .filter((element): element is HTMLElement => /^H[1-6]$/.test(element.tagName));
+  headings.forEach(heading => {
+    heading.id = slugify(heading.textContent ?? '', used);
+  });
+  if (toc && headings.length > 0) {
+    body.insertBefore(buildToc(headings), body.firstChild);
+  }
+  return body;
+};
+
+// ========== Images ==========
+// Content type for each image file extension
+export const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+};
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunks keep fromCharCode below the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Point every local image at a copy in `assetsDir`, or at a data URI when
+// there is none; returns the sources that could not be read
+export const embedImages = async (
+  body: HTMLElement,
+  baseDir: string | null,
+  assetsDir: string | null
+) => {
+  const failed: string[] = [];
+  const copies = new Map<string, string>(); // Source file -> name in the assets folder
+  let createdDir = false;
+
+  for (const image of Array.from(body.querySelectorAll('img'))) {
+    const src = image.getAttribute('src') ?? '';
+    const path = localImagePath(src, baseDir);
+    if (!path) continue;
+
+    try {
+      if (!assetsDir) {
+        const extension = path.split('.').pop()?.toLowerCase() ?? '';
+        const type = IMAGE_TYPES[extension] ?? 'application/octet-stream';
+        image.src = `data:${type};base64,${toBase64(await fs.readBinaryFile(path))}`;
+        continue;
+      }
+
+      let name = copies.get(path);
+      if (!name) {
+        // Same-named images from different folders get numbered
+        const taken = new Set(copies.values());
+        const original = baseName(path);
+        const dot = original.lastIndexOf('.');
+        name = original;
+        for (let n = 2; taken.has(name); n++) {
+          name = dot > 0 ? `${original.slice(0, dot)}-${n}${original.slice(dot)}` : `${original}-${n}`;
+        }
+        if (!createdDir) {
+          await fs.createDir(assetsDir, { recursive: true });
+          createdDir = true;
+        }
+        await fs.copyFile(path, joinPath(assetsDir, name));
+        copies.set(path, name);
+      }
+      image.setAttribute('src', `${encodeURIComponent(baseName(assetsDir))}/${encodeURIComponent(name)}`);
+    } catch (error) {
+      console.error('Error exporting image:', error);
+      failed.push(src);
+    }
+  }
+  return failed;
+};
+
+// ========== Diagrams ==========
+// Replace Mermaid code blocks with their drawings, reusing those the editor
+// has made; blocks that cannot be drawn stay as code
+export const embedDiagrams = async (body: HTMLElement) => {
+  for (const code of Array.from(body.querySelectorAll(`pre > code.language-${DIAGRAM_LANGUAGE}`))) {
+    const result = await renderDiagram(code.textContent ?? '');
+    if (!('svg' in result)) continue;
+    const diagram = document.createElement('div');
+    diagram.className = 'mermaid-diagram';
+    diagram.innerHTML = result.svg;
+    code.parentElement!.replaceWith(diagram);
+  }
+};
+
+// ========== Export ==========
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Folder images are copied to in 'folder' mode: `page_files` beside `page.html`
+export const assetsFolderFor = (targetPath: string) =>
+  joinPath(parentPath(targetPath), `${baseName(targetPath).replace(/\.[^.]*$/, '')}_files`);
+
+// Complete HTML file around a rendered body
+export const buildHtmlPage = (body: HTMLElement, title: string, stylesheet: string) => [
+  '<!DOCTYPE html>',
+  '<html>',
+  '<head>',
+  '<meta charset="utf-8">',
+  '<meta name="viewport" content="width=device-width, initial-scale=1">',
+  `<title>${escapeHtml(title)}</title>`,
+  `<style>${stylesheet}</style>`,
+  '</head>',
+  '<body>',
+  body.outerHTML,
+  '</body>',
+  '</html>',
+  '',
+].join('\n');
+
+// Write the document as one self-contained page; returns the image sources
+// that could not be included
+export const exportHtml = async ({ doc, title, sourcePath, targetPath, settings }: HtmlExportRequest) => {
+  const body = renderDocumentBody(doc, settings.toc);
+  const baseDir = sourcePath ? parentPath(sourcePath) : null;
+  const assetsDir = settings.images === 'folder' ? assetsFolderFor(targetPath) : null;
+  const failed = await embedImages(body, baseDir, assetsDir);
+  await embedDiagrams(body);
+
+  const html = buildHtmlPage(body, documentTitle(doc, title), exportStylesheet(settings.theme));
+  await fs.writeTextFile(targetPath, html);
+  return failed;
+};
@@ -0,0 +1,158 @@
+import { invoke } from '@tauri-apps/api/tauri';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { parentPath } from '../workspace';
+import {
+  buildHtmlPage,
+  documentTitle,
+  embedDiagrams,
+  embedImages,
+  escapeHtml,
+  exportStylesheet,
+  renderDocumentBody
+} from './html';
+
+export type PageSize = 'a4' | 'a5' | 'letter' | 'legal';
+
+export type Orientation = 'portrait' | 'landscape';
+
+// Page margins in millimetres
+export interface PageMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface PdfExportSettings {
+  pageSize: PageSize;
+  orientation: Orientation;
+  margins: PageMargins;
+  titlePage: boolean;  // The first H1 on a page of its own
+  header: string;      // Templates with {title}, {page}, {pages} and {date};
+  footer: string;      // `|` splits left, centre and right parts
+}
+
+// What to export and where from
+export interface PdfExportRequest {
+  doc: ProseMirrorNode;
+  title: string;              // Tab title, used when the document has none of its own
+  sourcePath: string | null;  // Document file; relative image paths resolve against its folder
+  targetPath: string;         // PDF file to write
+  settings: PdfExportSettings;
+}
+
+// Portrait paper sizes in millimetres
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 210, height: 297 },
+  a5: { label: 'A5', width: 148, height: 210 },
+  letter: { label: 'Letter', width: 215.9, height: 279.4 },
+  legal: { label: 'Legal', width: 215.9, height: 355.6 },
+};
+
+const PDF_EXPORT_KEY = 'docmarkings-export-pdf';
+
+export const DEFAULT_PDF_EXPORT: PdfExportSettings = {
+  pageSize: 'a4',
+  orientation: 'portrait',
+  margins: { top: 20, right: 20, bottom: 20, left: 20 },
+  titlePage: false,
+  header: '',
+  footer: '{page} / {pages}',
+};
+
+export const loadPdfExportSettings = (): PdfExportSettings => {
+  try {
+    const saved = localStorage.getItem(PDF_EXPORT_KEY);
+    return saved ? { ...DEFAULT_PDF_EXPORT, ...JSON.parse(saved) } : DEFAULT_PDF_EXPORT;
+  } catch (error) {
+    console.error('Error loading PDF export settings:', error);
+    return DEFAULT_PDF_EXPORT;
+  }
+};
+
+export const savePdfExportSettings = (settings: PdfExportSettings) => {
+  try {
+    localStorage.setItem(PDF_EXPORT_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving PDF export settings:', error);
+  }
+};
+
+// Paper rather than screen: no width limit (the margins do that), no
+// scrolling code, and no page breaks inside rows, code or images, or
+// straight after a heading
+const PRINT_STYLESHEET = `
+main { max-width: none; padding: 0; }
+body { font-size: 11pt; }
+h1, h2, h3, h4, h5, h6 { break-after: avoid; }
+pre { white-space: pre-wrap; overflow-wrap: anywhere; }
+pre, blockquote, img, tr, li { break-inside: avoid; }
+.title-page { padding-top: 35vh; text-align: center; break-after: page; }
+.title-page h1 { font-size: 2.5em; }
+`;
+
+const MM_PER_INCH = 25.4;
+
+// Chromium header/footer markup for a template. Chromium fills the
+// pageNumber and totalPages spans itself
+const headerFooterTemplate = (template: string, title: string, margins: PageMargins) => {
+  if (!template.trim()) return '';
+  const date = new Date().toLocaleDateString();
+  const parts = template.split('|').map(part =>
+    escapeHtml(part.trim())
+      .replace(/\{title\}/g, escapeHtml(title))
+      .replace(/\{date\}/g, escapeHtml(date))
+      .replace(/\{page\}/g, '<span class="pageNumber"></span>')
+      .replace(/\{pages\}/g, '<span class="totalPages"></span>')
+  );
+  const cells = parts.length === 1
+    ? `<span style="flex: 1; text-align: center">${parts[0]}</span>`
+    : parts.map((part, index) => {
+      const align = index === 0 ? 'left' : index === parts.length - 1 ? 'right' : 'center';
+      return `<span style="flex: 1; text-align: ${align}">${part}</span>`;
+    }).join('');
+  return `<div style="display: flex; box-sizing: border-box; width: 100%; padding: 0 ${margins.right}mm 0 ${margins.left}mm; `
+    + `font-family: Inter, system-ui, Helvetica, Arial, sans-serif; font-size: 9px; color: #666">${cells}</div>`;
+};
+
+// Move the first top-level H1 to a page of its own at the start
+const addTitlePage = (body: HTMLElement) => {
+  const heading = Array.from(body.children).find(element => element.tagName === 'H1');
+  if (!heading) return;
+  const page = document.createElement('section');
+  page.className = 'title-page';
+  page.appendChild(heading);
+  body.insertBefore(page, body.firstChild);
+};
+
+// Print the document to a PDF file; returns the image sources that could
+// not be included
+export const exportPdf = async ({ doc, title, sourcePath, targetPath, settings }: PdfExportRequest) => {
+  const body = renderDocumentBody(doc, false);
+  if (settings.titlePage) addTitlePage(body);
+  // Images are always embedded; the page is printed from a temporary file
+  const failed = await embedImages(body, sourcePath ? parentPath(sourcePath) : null, null);
+  await embedDiagrams(body);
+
+  const pageTitle = documentTitle(doc, title);
+  const html = buildHtmlPage(body, pageTitle, exportStylesheet('light') + PRINT_STYLESHEET);
+  const { width, height } = PAGE_SIZES[settings.pageSize];
+  const { margins } = settings;
+
+  await invoke<void>('export_pdf', {
+    html,
+    target: targetPath,
+    options: {
+      paperWidth: width / MM_PER_INCH,
+      paperHeight: height / MM_PER_INCH,
+      landscape: settings.orientation === 'landscape',
+      marginTop: margins.top / MM_PER_INCH,
+      marginRight: margins.right / MM_PER_INCH,
+      marginBottom: margins.bottom / MM_PER_INCH,
+      marginLeft: margins.left / MM_PER_INCH,
+      headerTemplate: headerFooterTemplate(settings.header, pageTitle, margins),
+      footerTemplate: headerFooterTemplate(settings.footer, pageTitle, margins),
+    },
+  });
+  return failed;
+};
@@ -0,0 +1,174 @@
+import { InputRule, Node, mergeAttributes } from '@tiptap/react';
+import { CALLOUT_TYPES, CalloutAttrs, CalloutType, calloutTitle } from '../markdown';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    callout: {
+      // Wrap the selected blocks in a callout, or unwrap them from one
+      toggleCallout: (type?: CalloutType) => ReturnType;
+    };
+  }
+}
+
+// `[!note] ` typed at the start of a blockquote
+const TYPED_MARKER = new RegExp(`^\\[!(${CALLOUT_TYPES.join('|')})\\]\\s$`, 'i');
+
+// How a callout folds, as offered by its fold picker
+const FOLD_OPTIONS = [
+  { value: 'fixed', label: 'Always open' },
+  { value: 'open', label: 'Collapsible' },
+  { value: 'closed', label: 'Collapsed' },
+];
+
+const foldOf = ({ collapsible, collapsed }: CalloutAttrs) =>
+  !collapsible ? 'fixed' : collapsed ? 'closed' : 'open';
+
+/**
+ * Callout Extension
+ * GitHub alerts (`> [!NOTE]`, `[!TIP]`, `[!IMPORTANT]`, `[!WARNING]`,
+ * `[!CAUTION]`) as their own block, with a header to pick the type, give
+ * a title and make it collapsible:
+ * - Typing `[!note] ` at the start of a blockquote turns it into a callout
+ * - Collapsible callouts fold from the arrow in their header; whether one
+ *   starts closed is saved as `[!NOTE]-`, open as `[!NOTE]+`
+ */
+const Callout = Node.create({
+  name: 'callout',
+  group: 'block',
+  content: 'block+',
+  defining: true,
+
+  addAttributes() {
+    return {
+      type: {
+        default: 'note',
+        parseHTML: element => element.getAttribute('data-callout') ?? 'note',
+        renderHTML: attributes => ({ 'data-callout': attributes.type }),
+      },
+      title: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-title'),
+        renderHTML: attributes => (attributes.title ? { 'data-title': attributes.title } : {}),
+      },
+      collapsible: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-collapsible'),
+        renderHTML: attributes => (attributes.collapsible ? { 'data-collapsible': '' } : {}),
+      },
+      collapsed: {
+        default: false,
+        parseHTML: element => element.hasAttribute('data-collapsed'),
+        renderHTML: attributes => (attributes.collapsed ? { 'data-collapsed': '' } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-callout]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['div', mergeAttributes({ class: `callout callout-${node.attrs.type}` }, HTMLAttributes), 0];
+  },
+
+  addNodeView() {
+    return ({ node, editor, getPos }) => {
+      let current = node;
+      const dom = document.createElement('div');
+      const header = document.createElement('div');
+      header.className = 'callout-header';
+      header.contentEditable = 'false';
+      const toggle = document.createElement('button');
+      toggle.className = 'callout-toggle';
+      toggle.title = 'Expand or Collapse';
+      const typePicker = document.createElement('select');
+      typePicker.className = 'callout-type';
+      typePicker.title = 'Callout Type';
+      CALLOUT_TYPES.forEach(type => typePicker.add(new Option(calloutTitle({ type, title: null }), type)));
+      const titleInput = document.createElement('input');
+      titleInput.className = 'callout-title';
+      titleInput.spellcheck = false;
+      const foldPicker = document.createElement('select');
+      foldPicker.className = 'callout-fold';
+      foldPicker.title = 'Collapsible';
+      FOLD_OPTIONS.forEach(({ value, label }) => foldPicker.add(new Option(label, value)));
+      header.append(toggle, typePicker, titleInput, foldPicker);
+      const contentDOM = document.createElement('div');
+      contentDOM.className = 'callout-content';
+      dom.append(header, contentDOM);
+
+      const redraw = () => {
+        const attrs = current.attrs as CalloutAttrs;
+        dom.className = `callout callout-${attrs.type}${attrs.collapsible && attrs.collapsed ? ' collapsed' : ''}`;
+        toggle.hidden = !attrs.collapsible;
+        toggle.textContent = attrs.collapsed ? '▸' : '▾';
+        typePicker.value = attrs.type;
+        if (document.activeElement !== titleInput) titleInput.value = attrs.title ?? '';
+        titleInput.placeholder = calloutTitle({ type: attrs.type, title: null });
+        foldPicker.value = foldOf(attrs);
+        [typePicker, titleInput, foldPicker].forEach(control => {
+          control.disabled = !editor.isEditable;
+        });
+      };
+      redraw();
+
+      const update = (attrs: Partial<CalloutAttrs>) => {
+        editor.view.dispatch(editor.state.tr.setNodeMarkup(getPos(), undefined, { ...current.attrs, ...attrs }));
+      };
+
+      toggle.addEventListener('click', () => update({ collapsed: !current.attrs.collapsed }));
+      typePicker.addEventListener('change', () => update({ type: typePicker.value as CalloutType }));
+      titleInput.addEventListener('input', () => update({ title: titleInput.value.trim() || null }));
+      titleInput.addEventListener('keydown', event => {
+        if (event.key !== 'Enter' && event.key !== 'Escape') return;
+        event.preventDefault();
+        editor.commands.focus(getPos() + 1, { scrollIntoView: false });
+      });
+      foldPicker.addEventListener('change', () => {
+        update({ collapsible: foldPicker.value !== 'fixed', collapsed: foldPicker.value === 'closed' });
+      });
+
+      return {
+        dom,
+        contentDOM,
+        update: updated => {
+          if (updated.type !== current.type) return false;
+          current = updated;
+          redraw();
+          return true;
+        },
+        // The header's controls handle their own typing and clicks
+        stopEvent: event => header.contains(event.target as Element),
+        ignoreMutation: mutation => mutation.type !== 'selection' && !contentDOM.contains(mutation.target),
+      };
+    };
+  },
+
+  addCommands() {
+    return {
+      toggleCallout: (type = 'note') => ({ commands }) =>
+        commands.toggleWrap(this.name, { type }),
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: TYPED_MARKER,
+        handler: ({ state, range, match }) => {
+          const $start = state.doc.resolve(range.from);
+          // Only the first paragraph of a blockquote
+          const depth = $start.depth - 1;
+          if (depth < 1 || $start.node(depth).type.name !== 'blockquote' || $start.index(depth) !== 0) {
+            return null;
+          }
+          state.tr
+            .delete(range.from, range.to)
+            .setNodeMarkup($start.before(depth), this.type, { type: match[1].toLowerCase() });
+        },
+      }),
+    ];
+  },
+});
+
+export default Callout;
@@ -0,0 +1,74 @@
+import { Extension } from '@tiptap/react';
+import { Fragment, Node as ProseMirrorNode, Slice } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { parseMarkdown } from '../markdown';
+import { cleanHtml } from '../import/normalize';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    cleanPaste: {
+      // Insert text at the cursor as it is, one paragraph per line
+      insertPlainText: (text: string) => ReturnType;
+      // Parse Markdown and insert the result at the cursor
+      insertMarkdown: (markdown: string) => ReturnType;
+    };
+  }
+}
+
+/**
+ * CleanPaste Extension
+ * Tidies clipboard HTML from Word, Google Docs and web pages before the
+ * editor parses it (see `normalizeHtml`), and adds commands for pasting
+ * text without formatting or as Markdown source. HTML copied from the
+ * editor itself is left alone.
+ */
+const CleanPaste = Extension.create({
+  name: 'cleanPaste',
+
+  addCommands() {
+    return {
+      insertPlainText: (text) => ({ state, tr, dispatch }) => {
+        if (dispatch) {
+          const lines = text.replace(/\r\n?/g, '\n').split('\n');
+          if (state.selection.$from.parent.type.spec.code) {
+            tr.insertText(lines.join('\n'));
+          } else {
+            const { paragraph } = state.schema.nodes;
+            const paragraphs = lines.map(line => paragraph.create(null, line ? state.schema.text(line) : null));
+            // Open at both ends so the first and last lines join the text around the cursor
+            tr.replaceSelection(new Slice(Fragment.from(paragraphs), 1, 1));
+          }
+          tr.scrollIntoView();
+        }
+        return true;
+      },
+
+      insertMarkdown: (markdown) => ({ state, tr, dispatch }) => {
+        const blocks: ProseMirrorNode[] = [];
+        // Front matter only belongs at the top of a document
+        parseMarkdown(state.schema, markdown).forEach(node => {
+          if (node.type.name !== 'frontMatter') blocks.push(node);
+        });
+        if (blocks.length === 0) return false;
+
+        if (dispatch) {
+          tr.replaceSelection(Slice.maxOpen(Fragment.from(blocks))).scrollIntoView();
+        }
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('cleanPaste'),
+        props: {
+          transformPastedHTML: html => (html.includes('data-pm-slice') ? html : cleanHtml(html)),
+        },
+      }),
+    ];
+  },
+});
+
+export default CleanPaste;
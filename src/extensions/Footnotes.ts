@@ -0,0 +1,330 @@
+import { Node, mergeAttributes } from '@tiptap/react';
+import { Node as ProseMirrorNode, Schema } from '@tiptap/pm/model';
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    footnotes: {
+      // Add a footnote reference at the cursor and move into its new definition
+      insertFootnote: () => ReturnType;
+    };
+  }
+}
+
+// Longest footnote text shown when hovering a reference
+const MAX_PREVIEW_LENGTH = 300;
+
+// Footnote references and definitions of a document
+interface FootnoteLayout {
+  references: { pos: number; label: string }[];  // In document order
+  sections: { pos: number; node: ProseMirrorNode }[];
+  definitions: Map<string, { pos: number; node: ProseMirrorNode }>;  // First definition of each label
+  signature: string;  // Changes when references or definitions are added, removed or reordered
+}
+
+interface FootnoteState {
+  layout: FootnoteLayout;
+  decorations: DecorationSet;
+}
+
+const footnotesKey = new PluginKey<FootnoteState>('footnotes');
+
+const NUMERIC_LABEL = /^\d+$/;
+
+const readLayout = (doc: ProseMirrorNode): FootnoteLayout => {
+  const layout: FootnoteLayout = { references: [], sections: [], definitions: new Map(), signature: '' };
+  const definitionLabels: string[] = [];
+  doc.descendants((node, pos) => {
+    if (node.type.name === 'footnoteReference') {
+      layout.references.push({ pos, label: node.attrs.label });
+    } else if (node.type.name === 'footnotes') {
+      layout.sections.push({ pos, node });
+    } else if (node.type.name === 'footnote') {
+      definitionLabels.push(node.attrs.label);
+      if (!layout.definitions.has(node.attrs.label)) layout.definitions.set(node.attrs.label, { pos, node });
+    }
+    return !node.isLeaf;
+  });
+  const last = layout.sections.length === 1 && doc.lastChild === layout.sections[0].node;
+  layout.signature = [
+    layout.references.map(reference => reference.label).join('\n'),
+    definitionLabels.join('\n'),
+    `${layout.sections.length}${last ? ' last' : ''}`,
+  ].join('\0');
+  return layout;
+};
+
+// Footnote numbers by label, in order of first reference. Definitions that
+// nothing refers to have no number
+export const footnoteNumbers = (doc: ProseMirrorNode) => {
+  const numbers = new Map<string, number>();
+  doc.descendants(node => {
+    if (node.type.name === 'footnoteReference' && !numbers.has(node.attrs.label)) {
+      numbers.set(node.attrs.label, numbers.size + 1);
+    }
+    return !node.isLeaf;
+  });
+  return numbers;
+};
+
+const buildDecorations = (doc: ProseMirrorNode, layout: FootnoteLayout) => {
+  const numbers = footnoteNumbers(doc);
+  const decorations: Decoration[] = [];
+  layout.references.forEach(({ pos, label }) => {
+    const text = layout.definitions.get(label)?.node.textContent.trim() ?? '';
+    decorations.push(Decoration.node(pos, pos + 1, {
+      'data-number': String(numbers.get(label)),
+      'data-preview': text.length > MAX_PREVIEW_LENGTH ? text.slice(0, MAX_PREVIEW_LENGTH) + '…' : text || '(empty footnote)',
+    }));
+  });
+  layout.definitions.forEach(({ pos, node }, label) => {
+    const number = numbers.get(label);
+    decorations.push(Decoration.node(pos, pos + node.nodeSize, number
+      ? { 'data-number': String(number) }
+      : { class: 'unused', 'data-number': '–' }));
+  });
+  return DecorationSet.create(doc, decorations);
+};
+
+/**
+ * Bring the footnotes into their canonical layout: numeric labels follow
+ * the order of first reference, every reference has a definition, and the
+ * definitions sit in one section at the end in reference order. Named
+ * labels are kept; definitions nothing refers to stay, after the others.
+ * Returns the new label of each old one, or null when nothing changed.
+ */
+const normalizeFootnotes = (tr: Transaction, schema: Schema) => {
+  const layout = readLayout(tr.doc);
+  const order = Array.from(new Set(layout.references.map(reference => reference.label)));
+  const unused = Array.from(layout.definitions.keys()).filter(label => !order.includes(label));
+  const all = [...order, ...unused];
+
+  const labels = new Map<string, string>();
+  all.forEach((label, index) => {
+    labels.set(label, NUMERIC_LABEL.test(label) ? String(index + 1) : label);
+  });
+
+  // Labels change in place, so positions stay valid until sections move
+  const relabeled = layout.references.filter(reference => labels.get(reference.label) !== reference.label);
+  relabeled.forEach(({ pos, label }) => {
+    tr.setNodeMarkup(pos, undefined, { ...tr.doc.nodeAt(pos)!.attrs, label: labels.get(label) });
+  });
+
+  // Definitions are taken after relabeling, for references between footnotes
+  const current = relabeled.length > 0 ? readLayout(tr.doc) : layout;
+  const { footnotes, footnote } = schema.nodes;
+  const definitions = all.map(label => {
+    const existing = current.definitions.get(label)?.node;
+    const newLabel = labels.get(label)!;
+    if (!existing) return footnote.createAndFill({ label: newLabel })!;
+    return existing.attrs.label === newLabel
+      ? existing
+      : footnote.create({ ...existing.attrs, label: newLabel }, existing.content, existing.marks);
+  });
+  const section = definitions.length > 0 ? footnotes.create(null, definitions) : null;
+
+  const last = current.sections.length === 1 && tr.doc.lastChild === current.sections[0].node;
+  const inPlace = section ? last && tr.doc.lastChild!.eq(section) : current.sections.length === 0;
+  if (inPlace && relabeled.length === 0) return null;
+
+  if (!inPlace) {
+    current.sections.slice().reverse().forEach(({ pos, node }) => {
+      tr.delete(pos, pos + node.nodeSize);
+    });
+    if (section) tr.insert(tr.doc.content.size, section);
+  }
+  return labels;
+};
+
+/**
+ * FootnoteReference Extension
+ * `[^label]` footnote references, shown as their number:
+ * - Numbers follow the order of the references and update as they are
+ *   added, moved or deleted; numeric labels are renumbered to match
+ * - Hovering a reference shows the footnote's text
+ * - Ctrl+click moves to the footnote
+ * - Insert Footnote adds a reference and an empty footnote to type in
+ */
+export const FootnoteReference = Node.create({
+  name: 'footnoteReference',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      label: {
+        default: '1',
+        parseHTML: element => element.getAttribute('data-label') ?? '1',
+        renderHTML: attributes => ({ 'data-label': attributes.label }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'sup[data-footnote-ref]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['sup', mergeAttributes({ 'data-footnote-ref': '', class: 'footnote-ref' }, HTMLAttributes)];
+  },
+
+  renderText({ node }) {
+    return `[^${node.attrs.label}]`;
+  },
+
+  addCommands() {
+    return {
+      insertFootnote: () => ({ state, tr, dispatch }) => {
+        const { $from } = state.selection;
+        if (!$from.parent.inlineContent || $from.parent.type.spec.code) return false;
+
+        if (dispatch) {
+          // A label no other footnote uses; normalizing then numbers it in place
+          const layout = readLayout(state.doc);
+          const taken = [...layout.references.map(reference => reference.label), ...layout.definitions.keys()]
+            .filter(label => NUMERIC_LABEL.test(label))
+            .map(Number);
+          const label = String(Math.max(0, ...taken) + 1);
+          tr.replaceSelectionWith(this.type.create({ label }), false);
+          const labels = normalizeFootnotes(tr, state.schema);
+          const definition = readLayout(tr.doc).definitions.get(labels?.get(label) ?? label);
+          if (definition) {
+            tr.setSelection(TextSelection.near(tr.doc.resolve(definition.pos + 1)));
+          }
+          tr.scrollIntoView();
+        }
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<FootnoteState>({
+        key: footnotesKey,
+        state: {
+          init: (_config, state) => {
+            const layout = readLayout(state.doc);
+            return { layout, decorations: buildDecorations(state.doc, layout) };
+          },
+          apply: (tr, value, _oldState, newState) => {
+            if (!tr.docChanged) return value;
+            const layout = readLayout(newState.doc);
+            return { layout, decorations: buildDecorations(newState.doc, layout) };
+          },
+        },
+        // Renumber only when references or footnotes come, go or move, so
+        // typing in a document never rewrites footnotes it did not touch
+        appendTransaction: (transactions, oldState, newState) => {
+          if (!transactions.some(tr => tr.docChanged)) return null;
+          const before = footnotesKey.getState(oldState)?.layout.signature;
+          const after = footnotesKey.getState(newState)?.layout.signature;
+          if (before === after) return null;
+          const tr = newState.tr;
+          return normalizeFootnotes(tr, newState.schema) ? tr : null;
+        },
+        props: {
+          decorations: (state: EditorState) => footnotesKey.getState(state)?.decorations,
+          handleClickOn: (view, _pos, node, _nodePos, event) => {
+            if (node.type !== this.type || !event.ctrlKey) return false;
+            const definition = footnotesKey.getState(view.state)?.layout.definitions.get(node.attrs.label);
+            if (!definition) return false;
+            const { state } = view;
+            view.dispatch(state.tr
+              .setSelection(TextSelection.near(state.doc.resolve(definition.pos + 1)))
+              .scrollIntoView());
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Footnotes Extension
+ * The section holding the footnote definitions, kept at the end of the
+ * document by FootnoteReference.
+ */
+export const Footnotes = Node.create({
+  name: 'footnotes',
+  group: 'block',
+  content: 'footnote+',
+  isolating: true,
+  selectable: false,
+
+  parseHTML() {
+    return [{ tag: 'section[data-footnotes]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['section', mergeAttributes({ 'data-footnotes': '', class: 'footnotes' }, HTMLAttributes), 0];
+  },
+});
+
+/**
+ * Footnote Extension
+ * One footnote definition, `[^label]: text`, shown with its number.
+ * Backspace in an empty footnote deletes it along with its references.
+ */
+export const Footnote = Node.create({
+  name: 'footnote',
+  content: 'block+',
+  defining: true,
+  isolating: true,
+
+  addAttributes() {
+    return {
+      label: {
+        default: '1',
+        parseHTML: element => element.getAttribute('data-label') ?? '1',
+        renderHTML: attributes => ({ 'data-label': attributes.label }),
+      },
+    };
+  },
+
+  parseHTML() {
+    // Ahead of list items, which also parse `<li>`
+    return [{ tag: 'div[data-footnote]' }, { tag: 'li[data-footnote]', priority: 60 }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes({ 'data-footnote': '', class: 'footnote' }, HTMLAttributes), 0];
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      Backspace: ({ editor }) => {
+        const { selection, doc } = editor.state;
+        const { $from } = selection;
+        const depth = $from.depth - 1;
+        if (!selection.empty || depth < 1 || $from.node(depth).type !== this.type) return false;
+        const definition = $from.node(depth);
+        if ($from.parentOffset !== 0 || definition.childCount !== 1 || definition.textContent !== '') return false;
+
+        const { tr } = editor.state;
+        const { label } = definition.attrs;
+        const section = $from.node(depth - 1);
+        // The section goes too when this was its only footnote
+        const from = section.childCount === 1 ? $from.before(depth - 1) : $from.before(depth);
+        const to = section.childCount === 1 ? $from.after(depth - 1) : $from.after(depth);
+        tr.delete(from, to);
+        const references: number[] = [];
+        doc.descendants((node, pos) => {
+          if (node.type.name === 'footnoteReference' && node.attrs.label === label) references.push(pos);
+          return !node.isLeaf;
+        });
+        references.reverse().forEach(pos => {
+          const mapped = tr.mapping.map(pos);
+          tr.delete(mapped, mapped + 1);
+        });
+        if (tr.doc.childCount === 0) tr.insert(0, editor.schema.nodes.paragraph.create());
+        editor.view.dispatch(tr.scrollIntoView());
+        return true;
+      },
+    };
+  },
+});
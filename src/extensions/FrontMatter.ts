@@ -0,0 +1,93 @@
+import { Node, mergeAttributes } from '@tiptap/react';
+import { Plugin } from '@tiptap/pm/state';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    frontMatter: {
+      // Add, replace or (with null) remove the document's front matter
+      setFrontMatter: (yaml: string | null) => ReturnType;
+    };
+  }
+}
+
+/**
+ * FrontMatter Extension
+ * YAML front matter as the document's first node. It is hidden in the rich
+ * view and edited through the properties panel, while still taking part in
+ * undo history, unsaved-change tracking and minimal-diff saves.
+ */
+const FrontMatter = Node.create({
+  name: 'frontMatter',
+  group: 'block',
+  atom: true,
+  selectable: false,
+  draggable: false,
+
+  addAttributes() {
+    return {
+      yaml: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-yaml') ?? '',
+        renderHTML: attributes => ({ 'data-yaml': attributes.yaml }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-front-matter]' }];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ['div', mergeAttributes(HTMLAttributes, { 'data-front-matter': '' })];
+  },
+
+  addCommands() {
+    return {
+      setFrontMatter: (yaml) => ({ state, tr, dispatch }) => {
+        const first = state.doc.firstChild;
+        const existing = first?.type === this.type ? first : null;
+        if (yaml === null && !existing) return false;
+
+        if (dispatch) {
+          if (yaml !== null && existing) {
+            tr.setNodeMarkup(0, undefined, { yaml });
+          } else if (yaml !== null) {
+            tr.insert(0, this.type.create({ yaml }));
+          } else if (state.doc.childCount === 1) {
+            // The document cannot be left without a block
+            tr.replaceWith(0, existing!.nodeSize, state.schema.nodes.paragraph.create());
+          } else {
+            tr.delete(0, existing!.nodeSize);
+          }
+        }
+        return true;
+      },
+    };
+  },
+
+  // Front matter only means something at the top; drop copies pasted or dropped elsewhere
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        appendTransaction: (transactions, _oldState, newState) => {
+          if (!transactions.some(tr => tr.docChanged)) return null;
+
+          const misplaced: number[] = [];
+          newState.doc.descendants((node, pos) => {
+            if (node.type === this.type && pos !== 0) misplaced.push(pos);
+            return !node.isTextblock;
+          });
+          if (misplaced.length === 0) return null;
+
+          const tr = newState.tr;
+          for (const pos of misplaced.reverse()) {
+            tr.delete(pos, pos + 1);
+          }
+          return tr;
+        },
+      }),
+    ];
+  },
+});
+
+export default FrontMatter;
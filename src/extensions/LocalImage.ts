@@ -0,0 +1,172 @@
+import { Editor } from '@tiptap/react';
+import Image, { ImageOptions } from '@tiptap/extension-image';
+import { NodeSelection, Plugin, PluginKey } from '@tiptap/pm/state';
+import { convertFileSrc } from '@tauri-apps/api/tauri';
+import { localImagePath } from '../workspace';
+
+export interface LocalImageOptions extends ImageOptions {
+  // Image files pasted or dropped at `pos`, to be stored and inserted
+  onFiles: (files: File[], pos: number, pasted: boolean) => void;
+  // An image was double-clicked (and is now selected) to edit its details
+  onEdit: () => void;
+}
+
+interface LocalImageStorage {
+  baseDir: string | null;    // Folder of the open document, for relative sources
+  views: Set<() => void>;    // Redraw functions of the live image views
+}
+
+// Smallest width an image can be resized to, in pixels
+const MIN_WIDTH = 24;
+
+// Something the webview can load: local files go through the asset protocol
+const displaySrc = (src: string, baseDir: string | null) => {
+  try {
+    const path = localImagePath(src, baseDir);
+    return path ? convertFileSrc(path) : src;
+  } catch {
+    // Malformed escapes; leave the source as written
+    return src;
+  }
+};
+
+const imageFiles = (data: DataTransfer | null) =>
+  Array.from(data?.files ?? []).filter(file => file.type.startsWith('image/'));
+
+// Point relative image sources at a new folder, e.g. after switching tabs
+// or saving under another name
+export const setImageBaseDir = (editor: Editor, baseDir: string | null) => {
+  const storage = editor.storage.image as LocalImageStorage;
+  if (storage.baseDir === baseDir) return;
+  storage.baseDir = baseDir;
+  storage.views.forEach(redraw => redraw());
+};
+
+/**
+ * LocalImage Extension
+ * The stock image node, extended for images stored beside the document:
+ * - Relative and absolute file sources display through Tauri's asset
+ *   protocol, resolved against the open document's folder
+ * - Pasted and dropped image files are handed to `onFiles` to be copied
+ *   into the assets folder
+ * - A `width` attribute set by dragging the handle of a selected image
+ * - Double-click opens the image's details through `onEdit`
+ */
+const LocalImage = Image.extend<LocalImageOptions, LocalImageStorage>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      onFiles: () => {},
+      onEdit: () => {},
+    };
+  },
+
+  addStorage() {
+    return { baseDir: null, views: new Set() };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      width: {
+        default: null,
+        parseHTML: element => Number(element.getAttribute('width')) || null,
+        renderHTML: attributes => (attributes.width ? { width: attributes.width } : {}),
+      },
+    };
+  },
+
+  addNodeView() {
+    return ({ node, editor, getPos }) => {
+      let current = node;
+      const dom = document.createElement('span');
+      dom.className = 'image-view';
+      const img = document.createElement('img');
+      const handle = document.createElement('span');
+      handle.className = 'image-resize-handle';
+      dom.append(img, handle);
+
+      const redraw = () => {
+        img.src = displaySrc(current.attrs.src ?? '', this.storage.baseDir);
+        img.alt = current.attrs.alt ?? '';
+        img.title = current.attrs.title ?? '';
+        img.style.width = current.attrs.width ? `${current.attrs.width}px` : '';
+      };
+      redraw();
+      this.storage.views.add(redraw);
+
+      // Drag the corner handle to set the width; the height follows
+      handle.addEventListener('mousedown', event => {
+        event.preventDefault();
+        const startX = event.clientX;
+        const startWidth = img.getBoundingClientRect().width;
+        let width = Math.round(startWidth);
+
+        const onMove = (move: MouseEvent) => {
+          width = Math.max(MIN_WIDTH, Math.round(startWidth + move.clientX - startX));
+          img.style.width = `${width}px`;
+        };
+        const onUp = () => {
+          document.removeEventListener('mousemove', onMove);
+          document.removeEventListener('mouseup', onUp);
+          if (width === current.attrs.width || !editor.isEditable) {
+            redraw();
+            return;
+          }
+          const tr = editor.state.tr.setNodeMarkup(getPos(), undefined, { ...current.attrs, width });
+          editor.view.dispatch(tr.setSelection(NodeSelection.create(tr.doc, getPos())));
+        };
+        document.addEventListener('mousemove', onMove);
+        document.addEventListener('mouseup', onUp);
+      });
+
+      return {
+        dom,
+        update: updated => {
+          if (updated.type !== current.type) return false;
+          current = updated;
+          redraw();
+          return true;
+        },
+        stopEvent: event => event.target === handle,
+        ignoreMutation: () => true,
+        destroy: () => {
+          this.storage.views.delete(redraw);
+        },
+      };
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: new PluginKey('localImage'),
+        props: {
+          handlePaste: (view, event) => {
+            const files = imageFiles(event.clipboardData);
+            // Rich content (a web page, a Word selection) brings its own image links
+            if (files.length === 0 || event.clipboardData?.getData('text/html')) return false;
+            this.options.onFiles(files, view.state.selection.from, true);
+            return true;
+          },
+          handleDrop: (view, event) => {
+            const files = imageFiles(event.dataTransfer);
+            if (files.length === 0) return false;
+            event.preventDefault();
+            const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos ?? view.state.selection.from;
+            this.options.onFiles(files, pos, false);
+            return true;
+          },
+          handleDoubleClickOn: (view, pos, node) => {
+            if (node.type !== this.type) return false;
+            view.dispatch(view.state.tr.setSelection(NodeSelection.create(view.state.doc, pos)));
+            this.options.onEdit();
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default LocalImage;
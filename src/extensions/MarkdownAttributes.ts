@@ -0,0 +1,51 @@
+import { Extension } from '@tiptap/react';
+
+/**
+ * MarkdownAttributes Extension
+ * Adds the attributes GFM needs to round-trip that the stock TipTap
+ * nodes do not track:
+ * - `tight` on lists (no blank lines between items)
+ * - `align` on table cells (from the `:---:` delimiter row)
+ * - `title` on links (`[text](url "title")`)
+ */
+const MarkdownAttributes = Extension.create({
+  name: 'markdownAttributes',
+
+  addGlobalAttributes() {
+    return [
+      {
+        types: ['bulletList', 'orderedList', 'taskList'],
+        attributes: {
+          tight: {
+            default: true,
+            parseHTML: element => element.getAttribute('data-tight') !== 'false',
+            // Only loose lists need marking, tight is the common case
+            renderHTML: attributes => (attributes.tight ? {} : { 'data-tight': 'false' }),
+          },
+        },
+      },
+      {
+        types: ['tableCell', 'tableHeader'],
+        attributes: {
+          align: {
+            default: null,
+            parseHTML: element => element.style.textAlign || null,
+            renderHTML: attributes => (attributes.align ? { style: `text-align: ${attributes.align}` } : {}),
+          },
+        },
+      },
+      {
+        types: ['link'],
+        attributes: {
+          title: {
+            default: null,
+            parseHTML: element => element.getAttribute('title'),
+            renderHTML: attributes => (attributes.title ? { title: attributes.title } : {}),
+          },
+        },
+      },
+    ];
+  },
+});
+
+export default MarkdownAttributes;
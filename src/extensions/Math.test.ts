@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { getSchema } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { EditorState, NodeSelection } from '@tiptap/pm/state';
+import { MathBlock, MathInline, setTex } from './Math';
+
+const schema = getSchema([StarterKit, MathInline, MathBlock]);
+
+// Type `keys` one at a time into the source field of the math node at
+// `pos`, as its node view does
+const typeInto = (state: EditorState, pos: number, keys: string) =>
+  [...keys].reduce(
+    (current, key) => current.apply(setTex(current.tr, pos, current.doc.nodeAt(pos)!.attrs.tex + key)),
+    state.apply(state.tr.setSelection(NodeSelection.create(state.doc, pos))),
+  );
+
+describe('Math', () => {
+  it('keeps inline math selected while its TeX is typed', () => {
+    const doc = schema.node('doc', null, [
+      schema.node('paragraph', null, [schema.text('Area '), schema.node('mathInline', { tex: 'x' }), schema.text(' m')]),
+    ]);
+    const state = typeInto(EditorState.create({ schema, doc }), 6, '^2');
+    expect(state.selection).toBeInstanceOf(NodeSelection);
+    expect(state.selection.from).toBe(6);
+    expect(state.doc.nodeAt(6)!.attrs.tex).toBe('x^2');
+  });
+
+  it('keeps display math selected while its TeX is typed', () => {
+    const doc = schema.node('doc', null, [
+      schema.node('paragraph', null, [schema.text('Sum')]),
+      schema.node('mathBlock', { tex: 'a' }),
+    ]);
+    const state = typeInto(EditorState.create({ schema, doc }), 5, '+b');
+    expect(state.selection).toBeInstanceOf(NodeSelection);
+    expect(state.doc.nodeAt(5)!.attrs.tex).toBe('a+b');
+  });
+});
@@ -0,0 +1,269 @@
+import { Editor, InputRule, Node, mergeAttributes } from '@tiptap/react';
+import { NodeType, Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { NodeSelection, Selection, TextSelection, Transaction } from '@tiptap/pm/state';
+import katex from 'katex';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    math: {
+      // Insert inline math, by default from the selected text, and edit it
+      insertInlineMath: (tex?: string) => ReturnType;
+      // Insert display math, by default from the selected text, and edit it
+      insertMathBlock: (tex?: string) => ReturnType;
+    };
+  }
+}
+
+// Render TeX into `element`, returning KaTeX's complaint if it cannot be parsed
+export const renderTex = (element: HTMLElement, tex: string, displayMode: boolean) => {
+  try {
+    katex.render(tex, element, { displayMode, throwOnError: true });
+    return null;
+  } catch (error) {
+    element.textContent = tex;
+    return error instanceof katex.ParseError ? error.message : String(error);
+  }
+};
+
+// Change the TeX of the math node at `pos`. Replacing the node would map
+// its selection to a cursor beside it, so it is selected again and the
+// next keystroke in its source field still edits it
+export const setTex = (tr: Transaction, pos: number, tex: string) => {
+  tr.setNodeMarkup(pos, undefined, { tex });
+  return tr.setSelection(NodeSelection.create(tr.doc, pos));
+};
+
+/**
+ * Node view shared by inline and display math: the rendered formula, with
+ * a source field in place of it while the node is selected. Typing in the
+ * field updates the node; Enter (Ctrl+Enter for display math), Escape and
+ * arrows past either end return to the text around it.
+ */
+const mathView = (displayMode: boolean) =>
+  ({ node, editor, getPos }: { node: ProseMirrorNode; editor: Editor; getPos: () => number }) => {
+    let current = node;
+    const dom = document.createElement(displayMode ? 'div' : 'span');
+    dom.className = displayMode ? 'math-view math-block' : 'math-view math-inline';
+    const rendered = document.createElement(displayMode ? 'div' : 'span');
+    rendered.className = 'math-rendered';
+    const source = document.createElement(displayMode ? 'textarea' : 'input') as HTMLInputElement | HTMLTextAreaElement;
+    source.className = 'math-source';
+    source.spellcheck = false;
+    const error = document.createElement(displayMode ? 'div' : 'span');
+    error.className = 'math-error-message';
+    dom.append(rendered, source, error);
+
+    const redraw = () => {
+      const tex: string = current.attrs.tex;
+      const message = tex.trim() ? renderTex(rendered, tex, displayMode) : null;
+      if (!tex.trim()) rendered.textContent = displayMode ? 'Empty formula' : '$ $';
+      dom.classList.toggle('empty', !tex.trim());
+      dom.classList.toggle('invalid', message !== null);
+      error.textContent = message ?? '';
+      dom.title = message ?? '';
+      if (source.value !== tex) source.value = tex;
+      if (source instanceof HTMLTextAreaElement) {
+        source.rows = Math.max(2, tex.split('\n').length);
+      } else {
+        source.size = Math.max(4, tex.length + 1);
+      }
+    };
+    redraw();
+
+    // Leave the field for the document, before (-1) or after (1) the node
+    const leave = (side: -1 | 1) => {
+      const pos = getPos();
+      const { state } = editor.view;
+      const $pos = state.doc.resolve(side < 0 ? pos : pos + current.nodeSize);
+      const selection = displayMode
+        ? Selection.near($pos, side)
+        : TextSelection.create(state.doc, $pos.pos);
+      editor.view.dispatch(state.tr.setSelection(selection).scrollIntoView());
+      editor.view.focus();
+    };
+
+    source.addEventListener('input', () => {
+      if (!editor.isEditable) return;
+      editor.view.dispatch(setTex(editor.state.tr, getPos(), source.value));
+    });
+    (source as HTMLElement).addEventListener('keydown', event => {
+      const atStart = source.selectionStart === 0 && source.selectionEnd === 0;
+      const atEnd = source.selectionStart === source.value.length;
+      if (event.key === 'Escape' || (event.key === 'Enter' && (!displayMode || event.ctrlKey))) {
+        event.preventDefault();
+        leave(1);
+      } else if ((event.key === 'ArrowLeft' || (displayMode && event.key === 'ArrowUp')) && atStart) {
+        event.preventDefault();
+        leave(-1);
+      } else if ((event.key === 'ArrowRight' || (displayMode && event.key === 'ArrowDown')) && atEnd) {
+        event.preventDefault();
+        leave(1);
+      }
+    });
+
+    return {
+      dom,
+      update: (updated: ProseMirrorNode) => {
+        if (updated.type !== current.type) return false;
+        current = updated;
+        redraw();
+        return true;
+      },
+      selectNode: () => {
+        dom.classList.add('editing');
+        if (!editor.isEditable) return;
+        source.focus();
+        source.setSelectionRange(source.value.length, source.value.length);
+      },
+      deselectNode: () => {
+        dom.classList.remove('editing');
+      },
+      // The source field handles its own typing and clicks
+      stopEvent: (event: Event) => event.target === source,
+      ignoreMutation: () => true,
+    };
+  };
+
+// Insert a math node in place of the selection and select it for editing
+const insertMath = (tr: Transaction, type: NodeType, tex: string | undefined) => {
+  const { from, to } = tr.selection;
+  const node = type.create({ tex: tex ?? tr.doc.textBetween(from, to, ' ') });
+  tr.replaceSelectionWith(node);
+  // Display math may land after the paragraph the selection was in
+  let at = -1;
+  tr.doc.nodesBetween(tr.mapping.map(from, -1), tr.doc.content.size, (child, pos) => {
+    if (at < 0 && child.type === type && child.attrs.tex === node.attrs.tex) at = pos;
+    return at < 0;
+  });
+  if (at >= 0) tr.setSelection(NodeSelection.create(tr.doc, at));
+  tr.scrollIntoView();
+};
+
+/**
+ * MathInline Extension
+ * `$…$` inline math rendered by KaTeX. Typing `$x^2$` turns into a
+ * formula; selecting one (by click or arrow keys) opens its TeX for
+ * editing. TeX that KaTeX cannot parse is shown as written and marked,
+ * with the error as its tooltip.
+ */
+export const MathInline = Node.create({
+  name: 'mathInline',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      tex: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-tex') ?? element.textContent ?? '',
+        renderHTML: attributes => ({ 'data-tex': attributes.tex }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-math-inline]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes({ 'data-math-inline': '' }, HTMLAttributes), node.attrs.tex];
+  },
+
+  renderText({ node }) {
+    return `$${node.attrs.tex}$`;
+  },
+
+  addNodeView() {
+    return mathView(false);
+  },
+
+  addCommands() {
+    return {
+      insertInlineMath: (tex) => ({ tr, dispatch }) => {
+        if (dispatch) insertMath(tr, this.type, tex);
+        return true;
+      },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        // A closing `$` typed after `$x^2`, not part of `$$`
+        find: /(?:^|[^$\\])(\$([^\s$](?:[^$]*[^\s$])?)\$)$/,
+        handler: ({ state, range, match }) => {
+          const start = range.to - match[1].length;
+          state.tr.replaceWith(start, range.to, this.type.create({ tex: match[2] }));
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * MathBlock Extension
+ * `$$…$$` display math rendered by KaTeX, edited in a source box while
+ * selected. `$$` followed by a space at the start of an empty paragraph
+ * starts one.
+ */
+export const MathBlock = Node.create({
+  name: 'mathBlock',
+  group: 'block',
+  atom: true,
+  selectable: true,
+
+  addAttributes() {
+    return {
+      tex: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-tex') ?? element.textContent ?? '',
+        renderHTML: attributes => ({ 'data-tex': attributes.tex }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'div[data-math-block]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return ['div', mergeAttributes({ 'data-math-block': '' }, HTMLAttributes), node.attrs.tex];
+  },
+
+  renderText({ node }) {
+    return `$$\n${node.attrs.tex}\n$$`;
+  },
+
+  addNodeView() {
+    return mathView(true);
+  },
+
+  addCommands() {
+    return {
+      insertMathBlock: (tex) => ({ tr, dispatch }) => {
+        if (dispatch) insertMath(tr, this.type, tex);
+        return true;
+      },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: /^\$\$\s$/,
+        handler: ({ state, range }) => {
+          const $start = state.doc.resolve(range.from);
+          // Only a paragraph holding nothing but the `$$` becomes display math
+          if ($start.parent.type.name !== 'paragraph' || $start.parent.textContent.length + 1 !== range.to - range.from) {
+            return null;
+          }
+          const { tr } = state;
+          tr.replaceWith($start.before(), $start.after(), this.type.create());
+          tr.setSelection(NodeSelection.create(tr.doc, tr.mapping.map($start.before())));
+        },
+      }),
+    ];
+  },
+});
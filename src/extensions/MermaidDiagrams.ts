@@ -0,0 +1,98 @@
+import { Extension } from '@tiptap/react';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { DIAGRAM_LANGUAGE, DiagramResult, cachedDiagram, renderDiagram } from '../diagrams';
+
+// Pause in typing before an edited diagram is drawn again
+const RENDER_DELAY = 400;
+
+interface MermaidDiagramsState {
+  decorations: DecorationSet;
+  // Last drawing shown for each diagram, by its order in the document, so
+  // edits do not flash an empty box. Kept with the editor state, as every
+  // tab has its own
+  shown: Map<number, string>;
+}
+
+const mermaidDiagramsKey = new PluginKey<MermaidDiagramsState>('mermaidDiagrams');
+
+// Show a drawn diagram, or the reason it could not be drawn, in `element`
+const showDiagram = (element: HTMLElement, result: DiagramResult) => {
+  element.classList.remove('pending');
+  if ('svg' in result) {
+    element.classList.remove('error');
+    element.innerHTML = result.svg;
+  } else {
+    element.classList.add('error');
+    element.textContent = result.error;
+  }
+};
+
+/**
+ * MermaidDiagrams Extension
+ * Draws code blocks tagged `mermaid` as diagrams below their source:
+ * - Redrawn after a pause in typing, keeping the last drawing meanwhile
+ * - Syntax errors replace the drawing until the source is fixed
+ * - Drawings are cached by source, which the HTML and PDF exports reuse
+ */
+const MermaidDiagrams = Extension.create({
+  name: 'mermaidDiagrams',
+
+  addProseMirrorPlugins() {
+    const diagrams = (doc: ProseMirrorNode, shown: Map<number, string>) => {
+      const decorations: Decoration[] = [];
+      let index = 0;
+      doc.descendants((node, pos) => {
+        if (node.type.name !== 'codeBlock') return true;
+        if (node.attrs.language === DIAGRAM_LANGUAGE && node.textContent.trim()) {
+          const source = node.textContent;
+          const order = index++;
+          decorations.push(Decoration.widget(pos + node.nodeSize, () => {
+            const element = document.createElement('div');
+            element.className = 'mermaid-diagram';
+            element.contentEditable = 'false';
+            const cached = cachedDiagram(source);
+            if (cached) {
+              showDiagram(element, cached);
+              if ('svg' in cached) shown.set(order, cached.svg);
+              return element;
+            }
+            element.classList.add('pending');
+            element.innerHTML = shown.get(order) ?? '';
+            setTimeout(() => {
+              // Replaced by a newer edit before drawing started
+              if (!element.isConnected) return;
+              renderDiagram(source).then(result => {
+                showDiagram(element, result);
+                if ('svg' in result) shown.set(order, result.svg);
+              });
+            }, RENDER_DELAY);
+            return element;
+          }, { key: `mermaid:${source}`, side: -1, ignoreSelection: true }));
+        }
+        return false;
+      });
+      return DecorationSet.create(doc, decorations);
+    };
+
+    return [
+      new Plugin<MermaidDiagramsState>({
+        key: mermaidDiagramsKey,
+        state: {
+          init: (_config, state) => {
+            const shown = new Map<number, string>();
+            return { decorations: diagrams(state.doc, shown), shown };
+          },
+          apply: (tr, value, _oldState, newState) =>
+            tr.docChanged ? { ...value, decorations: diagrams(newState.doc, value.shown) } : value,
+        },
+        props: {
+          decorations: state => mermaidDiagramsKey.getState(state)?.decorations,
+        },
+      }),
+    ];
+  },
+});
+
+export default MermaidDiagrams;
@@ -0,0 +1,96 @@
+import { Extension } from '@tiptap/react';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { TextSelection } from '@tiptap/pm/state';
+
+// A top-level heading and the section it starts
+export interface OutlineItem {
+  pos: number;    // Position of the heading node
+  end: number;    // End of its section: the next same-or-higher heading, or the document end
+  level: number;
+  text: string;
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    outline: {
+      // Move the section starting at `pos` to before the top-level block at
+      // `target` (or to the end with the document size)
+      moveSection: (pos: number, target: number) => ReturnType;
+      // Raise (-1) or lower (+1) every heading level in the section at `pos`
+      shiftSectionLevel: (pos: number, delta: number) => ReturnType;
+    };
+  }
+}
+
+// Headings directly in the document, with their section extents. Headings
+// inside lists or blockquotes belong to their block, not the outline
+export const getOutline = (doc: ProseMirrorNode): OutlineItem[] => {
+  const items: OutlineItem[] = [];
+  doc.forEach((node, pos) => {
+    if (node.type.name === 'heading') {
+      items.push({ pos, end: doc.content.size, level: node.attrs.level, text: node.textContent });
+    }
+  });
+  items.forEach((item, index) => {
+    const next = items.slice(index + 1).find(other => other.level <= item.level);
+    if (next) item.end = next.pos;
+  });
+  return items;
+};
+
+// Index of the heading whose section holds `pos`, or -1 before the first heading
+export const sectionIndexAt = (items: OutlineItem[], pos: number) => {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (items[i].pos <= pos) return i;
+  }
+  return -1;
+};
+
+/**
+ * Outline Extension
+ * Section-level editing for the outline panel, each as one undoable step:
+ * - Moving a heading together with everything up to the next heading of
+ *   the same or a higher level
+ * - Promoting or demoting all headings of a section at once
+ */
+const Outline = Extension.create({
+  name: 'outline',
+
+  addCommands() {
+    return {
+      moveSection: (pos, target) => ({ state, tr, dispatch }) => {
+        const section = getOutline(state.doc).find(item => item.pos === pos);
+        // Dropping a section into itself changes nothing
+        if (!section || (target >= section.pos && target <= section.end)) return false;
+
+        if (dispatch) {
+          const content = state.doc.slice(section.pos, section.end).content;
+          tr.delete(section.pos, section.end);
+          const insertAt = tr.mapping.map(target);
+          tr.insert(insertAt, content);
+          tr.setSelection(TextSelection.near(tr.doc.resolve(insertAt + 1))).scrollIntoView();
+        }
+        return true;
+      },
+
+      shiftSectionLevel: (pos, delta) => ({ state, tr, dispatch }) => {
+        const section = getOutline(state.doc).find(item => item.pos === pos);
+        if (!section) return false;
+
+        const headings = getOutline(state.doc).filter(item => item.pos >= section.pos && item.pos < section.end);
+        // Levels keep their relative depth, so stop at H1 and H6
+        if (headings.some(item => item.level + delta < 1 || item.level + delta > 6)) return false;
+
+        if (dispatch) {
+          headings.forEach(item => {
+            const node = state.doc.nodeAt(item.pos)!;
+            tr.setNodeMarkup(item.pos, undefined, { ...node.attrs, level: item.level + delta });
+          });
+        }
+        return true;
+      },
+    };
+  },
+});
+
+export default Outline;
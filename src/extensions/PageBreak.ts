@@ -0,0 +1,37 @@
+import { Node } from '@tiptap/react';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      // Insert a page break at the cursor
+      setPageBreak: () => ReturnType;
+    };
+  }
+}
+
+/**
+ * PageBreak Extension
+ * A forced page break for PDF export and printing, stored in Markdown as a
+ * `<!-- pagebreak -->` line so other renderers simply skip it.
+ */
+const PageBreak = Node.create({
+  name: 'pageBreak',
+  group: 'block',
+  atom: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-page-break]' }];
+  },
+
+  renderHTML() {
+    return ['div', { 'data-page-break': '' }];
+  },
+
+  addCommands() {
+    return {
+      setPageBreak: () => ({ commands }) => commands.insertContent({ type: this.name }),
+    };
+  },
+});
+
+export default PageBreak;
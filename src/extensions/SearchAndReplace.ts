@@ -0,0 +1,274 @@
+import { Extension } from '@tiptap/react';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { EditorState, Plugin, PluginKey, TextSelection, Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+
+// What to search for and how
+export interface SearchQuery {
+  search: string;
+  caseSensitive: boolean;
+  regex: boolean;        // Treat `search` as a regular expression
+  wholeWord: boolean;    // Only match where no word character touches either end
+  inSelection: boolean;  // Only match inside the selection made when this was turned on
+}
+
+export interface SearchMatch {
+  from: number;
+  to: number;
+  result: RegExpExecArray;  // For expanding `$1`, `$<name>` and `$&` in replacements
+}
+
+interface SearchState {
+  query: SearchQuery | null;
+  pattern: RegExp | null;
+  error: string | null;                      // Why the query could not be compiled
+  range: { from: number; to: number } | null; // Search-in-selection bounds
+  matches: SearchMatch[];
+}
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    searchAndReplace: {
+      // Start, change or (with null) end a search
+      setSearchQuery: (query: SearchQuery | null) => ReturnType;
+      // Select and scroll to the next or previous match, wrapping around
+      findNext: () => ReturnType;
+      findPrevious: () => ReturnType;
+      // Replace the selected match and move on to the next one
+      replaceNext: (replacement: string) => ReturnType;
+      // Replace every match in one undoable step
+      replaceAll: (replacement: string) => ReturnType;
+    };
+  }
+}
+
+export const searchPluginKey = new PluginKey<SearchState>('searchAndReplace');
+
+const emptyState: SearchState = { query: null, pattern: null, error: null, range: null, matches: [] };
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compileQuery = (query: SearchQuery) => {
+  let source = query.regex ? query.search : escapeRegex(query.search);
+  // Words are Unicode letters, digits and `_`, as in Find in Files, so
+  // `ber` is not a whole word inside "über"
+  if (query.wholeWord) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+  return new RegExp(source, query.caseSensitive ? 'gu' : 'giu');
+};
+
+// Text of a textblock with one character per document position; inline
+// leaves such as images and hard breaks become object replacement characters
+const textblockText = (node: ProseMirrorNode) => {
+  let text = '';
+  node.forEach(child => {
+    text += child.isText ? child.text : '\uFFFC'.repeat(child.nodeSize);
+  });
+  return text;
+};
+
+// Matches never span blocks, so each textblock is searched on its own
+const findMatches = (doc: ProseMirrorNode, pattern: RegExp, range: SearchState['range']) => {
+  const matches: SearchMatch[] = [];
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true;
+
+    const text = textblockText(node);
+    const start = pos + 1;
+    pattern.lastIndex = 0;
+    let result: RegExpExecArray | null;
+    while ((result = pattern.exec(text)) !== null) {
+      if (result[0] === '') {
+        pattern.lastIndex++;
+        continue;
+      }
+      const from = start + result.index;
+      const to = from + result[0].length;
+      if (!range || (from >= range.from && to <= range.to)) {
+        matches.push({ from, to, result });
+      }
+    }
+    return false;
+  });
+  return matches;
+};
+
+// Capture groups of a match; index 0 is the whole match
+export interface MatchCaptures {
+  length: number;
+  [index: number]: string | null | undefined;
+  groups?: Record<string, string>;
+}
+
+// Expand `$$`, `$&`, `$1`..`$99` and `$<name>` the way String.replace does
+export const expandReplacement = (template: string, result: MatchCaptures) => {
+  return template.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, key: string, name?: string) => {
+    if (key === '$') return '$';
+    if (key === '&') return result[0] ?? '';
+    if (name !== undefined) return result.groups?.[name] ?? '';
+    const index = Number(key);
+    return index > 0 && index < result.length ? result[index] ?? '' : token;
+  });
+};
+
+// Replace one match, giving the new text the marks of the first matched character
+const replaceMatch = (tr: Transaction, state: EditorState, match: SearchMatch, query: SearchQuery, replacement: string) => {
+  const text = query.regex ? expandReplacement(replacement, match.result) : replacement;
+  if (text === '') {
+    tr.delete(match.from, match.to);
+  } else {
+    const marks = state.doc.nodeAt(match.from)?.marks ?? [];
+    tr.replaceWith(match.from, match.to, state.schema.text(text, marks));
+  }
+};
+
+export const getSearchState = (state: EditorState): SearchState =>
+  searchPluginKey.getState(state) ?? emptyState;
+
+// Index of the match that is currently selected, or -1
+export const currentMatchIndex = (state: EditorState) => {
+  const { from, to } = state.selection;
+  return getSearchState(state).matches.findIndex(match => match.from === from && match.to === to);
+};
+
+const selectMatch = (tr: Transaction, match: SearchMatch) => {
+  tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView();
+};
+
+/**
+ * SearchAndReplace Extension
+ * Searches the document text rather than its HTML, so tag names and
+ * attributes never match:
+ * - Highlights every match, and the selected one more strongly
+ * - Regular expressions with capture groups in replacements
+ * - Whole-word and search-in-selection options
+ * - Replacements keep the marks of the text they replace
+ */
+const SearchAndReplace = Extension.create({
+  name: 'searchAndReplace',
+
+  addCommands() {
+    return {
+      setSearchQuery: (query) => ({ tr, dispatch }) => {
+        if (dispatch) {
+          tr.setMeta(searchPluginKey, { query });
+        }
+        return true;
+      },
+
+      findNext: () => ({ state, tr, dispatch }) => {
+        const { matches } = getSearchState(state);
+        if (matches.length === 0) return false;
+        const next = matches.find(match => match.from >= state.selection.to) ?? matches[0];
+        if (dispatch) selectMatch(tr, next);
+        return true;
+      },
+
+      findPrevious: () => ({ state, tr, dispatch }) => {
+        const { matches } = getSearchState(state);
+        if (matches.length === 0) return false;
+        const previous = [...matches].reverse().find(match => match.to <= state.selection.from)
+          ?? matches[matches.length - 1];
+        if (dispatch) selectMatch(tr, previous);
+        return true;
+      },
+
+      replaceNext: (replacement) => ({ state, tr, dispatch, commands }) => {
+        const { matches, query } = getSearchState(state);
+        const index = currentMatchIndex(state);
+        if (!query || index === -1) {
+          // Nothing selected yet: the first Replace only finds
+          return commands.findNext();
+        }
+        if (dispatch) {
+          replaceMatch(tr, state, matches[index], query, replacement);
+          const next = matches[index + 1] ?? (index > 0 ? matches[0] : null);
+          if (next) {
+            const from = tr.mapping.map(next.from);
+            const to = tr.mapping.map(next.to);
+            tr.setSelection(TextSelection.create(tr.doc, from, to)).scrollIntoView();
+          }
+        }
+        return true;
+      },
+
+      replaceAll: (replacement) => ({ state, tr, dispatch }) => {
+        const { matches, query } = getSearchState(state);
+        if (!query || matches.length === 0) return false;
+        if (dispatch) {
+          // Back to front, so earlier positions stay valid
+          for (let i = matches.length - 1; i >= 0; i--) {
+            replaceMatch(tr, state, matches[i], query, replacement);
+          }
+        }
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: searchPluginKey,
+
+        state: {
+          init: () => emptyState,
+
+          apply: (tr, value, _oldState, newState) => {
+            const meta = tr.getMeta(searchPluginKey) as { query: SearchQuery | null } | undefined;
+
+            if (meta) {
+              const { query } = meta;
+              if (!query || query.search === '') {
+                return { ...emptyState, query };
+              }
+
+              let range: SearchState['range'] = null;
+              if (query.inSelection) {
+                // Keep the bounds chosen when the option was turned on
+                const { from, to } = newState.selection;
+                range = value.query?.inSelection && value.range ? value.range : from < to ? { from, to } : null;
+              }
+
+              try {
+                const pattern = compileQuery(query);
+                return { query, pattern, error: null, range, matches: findMatches(newState.doc, pattern, range) };
+              } catch (error) {
+                return { ...emptyState, query, error: (error as Error).message };
+              }
+            }
+
+            if (!tr.docChanged || !value.pattern) {
+              return value;
+            }
+            const range = value.range
+              ? { from: tr.mapping.map(value.range.from), to: tr.mapping.map(value.range.to) }
+              : null;
+            return { ...value, range, matches: findMatches(newState.doc, value.pattern, range) };
+          },
+        },
+
+        props: {
+          decorations: (state) => {
+            const { matches, range } = getSearchState(state);
+            if (matches.length === 0 && !range) return DecorationSet.empty;
+
+            const current = currentMatchIndex(state);
+            const decorations = matches.map((match, index) =>
+              Decoration.inline(match.from, match.to, {
+                class: index === current ? 'search-match current' : 'search-match',
+              })
+            );
+            if (range) {
+              decorations.push(Decoration.inline(range.from, range.to, { class: 'search-range' }));
+            }
+            return DecorationSet.create(state.doc, decorations);
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default SearchAndReplace;
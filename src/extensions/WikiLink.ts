@@ -0,0 +1,221 @@
+import { Editor, InputRule, Node, mergeAttributes } from '@tiptap/react';
+import { EditorState, Plugin, PluginKey } from '@tiptap/pm/state';
+import { WikiLinkAttrs, parseWikiLink, wikiLinkSource, wikiLinkText } from '../markdown';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    wikiLink: {
+      // Replace `range` (by default the selection) with a wiki link
+      insertWikiLink: (attrs: WikiLinkAttrs, range?: { from: number; to: number }) => ReturnType;
+    };
+  }
+}
+
+export interface WikiLinkOptions {
+  // A wiki link was Ctrl+clicked
+  onFollow: (attrs: WikiLinkAttrs) => void;
+  // A key pressed while a `[[` query is open; true if the suggestions used it
+  onQueryKeyDown: (event: KeyboardEvent) => boolean;
+}
+
+interface WikiLinkStorage {
+  exists: ((target: string) => boolean) | null;  // Whether a note exists; null when unknown
+  views: Set<() => void>;                        // Redraw functions of the live link views
+}
+
+// A `[[` typed before the cursor and not yet closed
+export interface WikiLinkQuery {
+  from: number;   // Position of the `[[`
+  to: number;     // The cursor
+  text: string;   // What follows the `[[`
+}
+
+interface QueryState {
+  query: WikiLinkQuery | null;
+  dismissed: number | null;  // `from` of a query closed with Escape
+}
+
+const wikiLinkKey = new PluginKey<QueryState>('wikiLink');
+
+// A wiki link just closed by typing `]]`
+const TYPED_WIKI_LINK = /\[\[[^[\]\n]*\]\]$/;
+
+const findQuery = (state: EditorState, dismissed: number | null): WikiLinkQuery | null => {
+  const { selection } = state;
+  const { $from } = selection;
+  if (!selection.empty || !$from.parent.isTextblock || $from.parent.type.spec.code) return null;
+  if ($from.marks().some(mark => mark.type.spec.code)) return null;
+  const before = $from.parent.textBetween(0, $from.parentOffset, undefined, '\ufffc');
+  const match = /\[\[([^[\]\n|\ufffc]*)$/.exec(before);
+  if (!match) return null;
+  const from = $from.pos - match[0].length;
+  return from === dismissed ? null : { from, to: $from.pos, text: match[1] };
+};
+
+// The `[[` query at the cursor, if suggestions should show
+export const wikiLinkQuery = (state: EditorState) => wikiLinkKey.getState(state)?.query ?? null;
+
+// Hide the suggestions until another `[[` is typed
+export const dismissWikiLinkQuery = (editor: Editor) => {
+  editor.view.dispatch(editor.state.tr.setMeta(wikiLinkKey, 'dismiss'));
+};
+
+// Tell the link views which notes exist, to mark links to missing ones
+export const setWikiLinkResolver = (editor: Editor, exists: ((target: string) => boolean) | null) => {
+  const storage = editor.storage.wikiLink as WikiLinkStorage;
+  storage.exists = exists;
+  storage.views.forEach(redraw => redraw());
+};
+
+/**
+ * WikiLink Extension
+ * `[[Note Name]]`, `[[Note Name#Heading]]` and `[[Note#Heading|label]]`
+ * links between notes, kept as one inline unit:
+ * - Typing the closing `]]` turns the source into a link
+ * - Tracks a `[[` query at the cursor for the suggestions list, which gets
+ *   first refusal of keys through `onQueryKeyDown`
+ * - Links to notes that do not exist are marked `missing`
+ * - Ctrl+click follows a link through `onFollow`
+ */
+const WikiLink = Node.create<WikiLinkOptions, WikiLinkStorage>({
+  name: 'wikiLink',
+  // Ahead of the list keymaps, so Enter and Tab pick a suggestion
+  priority: 1000,
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      onFollow: () => {},
+      onQueryKeyDown: () => false,
+    };
+  },
+
+  addStorage() {
+    return { exists: null, views: new Set() };
+  },
+
+  addAttributes() {
+    return {
+      target: {
+        default: '',
+        parseHTML: element => element.getAttribute('data-target') ?? '',
+        renderHTML: attributes => ({ 'data-target': attributes.target }),
+      },
+      anchor: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-anchor'),
+        renderHTML: attributes => (attributes.anchor ? { 'data-anchor': attributes.anchor } : {}),
+      },
+      label: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-label'),
+        renderHTML: attributes => (attributes.label ? { 'data-label': attributes.label } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-wiki-link]' }];
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    return [
+      'span',
+      mergeAttributes({ 'data-wiki-link': '', class: 'wiki-link' }, HTMLAttributes),
+      wikiLinkText(node.attrs as WikiLinkAttrs),
+    ];
+  },
+
+  // Plain-text copies keep the wiki syntax
+  renderText({ node }) {
+    return wikiLinkSource(node.attrs as WikiLinkAttrs);
+  },
+
+  addNodeView() {
+    return ({ node }) => {
+      let current = node;
+      const dom = document.createElement('span');
+
+      const redraw = () => {
+        const attrs = current.attrs as WikiLinkAttrs;
+        const { exists } = this.storage;
+        const missing = exists !== null && attrs.target !== '' && !exists(attrs.target);
+        dom.className = missing ? 'wiki-link missing' : 'wiki-link';
+        dom.textContent = wikiLinkText(attrs);
+        dom.title = (missing ? 'Missing note: ' : '') +
+          (attrs.target || '') + (attrs.anchor ? `#${attrs.anchor}` : '') + ' (Ctrl+Click to follow)';
+      };
+      redraw();
+      this.storage.views.add(redraw);
+
+      return {
+        dom,
+        update: updated => {
+          if (updated.type !== current.type) return false;
+          current = updated;
+          redraw();
+          return true;
+        },
+        destroy: () => {
+          this.storage.views.delete(redraw);
+        },
+      };
+    };
+  },
+
+  addCommands() {
+    return {
+      insertWikiLink: (attrs, range) => ({ state, tr, dispatch }) => {
+        if (dispatch) {
+          const { from, to } = range ?? state.selection;
+          tr.replaceWith(from, to, this.type.create(attrs)).scrollIntoView();
+        }
+        return true;
+      },
+    };
+  },
+
+  addInputRules() {
+    return [
+      new InputRule({
+        find: TYPED_WIKI_LINK,
+        handler: ({ state, range, match }) => {
+          const attrs = parseWikiLink(match[0]);
+          if (!attrs) return null;
+          state.tr.replaceWith(range.from, range.to, this.type.create(attrs));
+        },
+      }),
+    ];
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<QueryState>({
+        key: wikiLinkKey,
+        state: {
+          init: (_config, state) => ({ query: findQuery(state, null), dismissed: null }),
+          apply: (tr, value, _oldState, newState) => {
+            const dismissed = tr.getMeta(wikiLinkKey) === 'dismiss'
+              ? value.query?.from ?? null
+              : value.dismissed !== null ? tr.mapping.map(value.dismissed) : null;
+            return { query: findQuery(newState, dismissed), dismissed };
+          },
+        },
+        props: {
+          handleKeyDown: (view, event) =>
+            wikiLinkKey.getState(view.state)?.query ? this.options.onQueryKeyDown(event) : false,
+          handleClickOn: (_view, _pos, node, _nodePos, event) => {
+            if (node.type !== this.type || !event.ctrlKey) return false;
+            this.options.onFollow(node.attrs as WikiLinkAttrs);
+            return true;
+          },
+        },
+      }),
+    ];
+  },
+});
+
+export default WikiLink;
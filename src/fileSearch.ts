@@ -0,0 +1,61 @@
+import { invoke } from '@tauri-apps/api/tauri';
+
+// What Find in Files searches for and where
+export interface FileSearchRequest {
+  root: string;          // Folder to search
+  search: string;
+  caseSensitive: boolean;
+  regex: boolean;        // Rust regex syntax, run by the Tauri side
+  wholeWord: boolean;
+  include: string[];     // Globs of files to search (Markdown files when empty)
+  exclude: string[];     // Globs of files and folders to skip
+}
+
+// One match; column and length count UTF-16 code units
+export interface LineMatch {
+  line: number;          // 1-based
+  column: number;
+  length: number;
+  text: string;          // The whole line, for context
+  captures: (string | null)[];
+  named: Record<string, string>;
+}
+
+export interface FileMatches {
+  path: string;
+  matches: LineMatch[];
+}
+
+export interface FileSearchResults {
+  files: FileMatches[];
+  truncated: boolean;    // The Tauri side stopped at its match limit
+}
+
+export interface LineReplacement {
+  line: number;
+  column: number;
+  length: number;
+  expected: string;      // Matched text; the file is skipped if it no longer matches
+  replacement: string;
+}
+
+export interface FileEdit {
+  path: string;
+  replacements: LineReplacement[];
+}
+
+export interface FileEditResult {
+  path: string;
+  replaced: number;
+  error: string | null;
+}
+
+export const searchFiles = ({ root, include, exclude, ...query }: FileSearchRequest) =>
+  invoke<FileSearchResults>('search_files', { root, query, include, exclude });
+
+export const replaceInFiles = (edits: FileEdit[]) =>
+  invoke<FileEditResult[]>('replace_in_files', { edits });
+
+// Split a comma-separated list of globs
+export const parseGlobs = (text: string) =>
+  text.split(',').map(glob => glob.trim()).filter(glob => glob !== '');
@@ -0,0 +1,52 @@
+import { invoke } from '@tauri-apps/api/tauri';
+
+export interface ImageSettings {
+  assetsFolder: string;  // Folder beside the document that added images are copied to
+}
+
+const IMAGE_SETTINGS_KEY = 'docmarkings-images';
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = { assetsFolder: 'assets' };
+
+export const loadImageSettings = (): ImageSettings => {
+  try {
+    const saved = localStorage.getItem(IMAGE_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_IMAGE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_IMAGE_SETTINGS;
+  } catch (error) {
+    console.error('Error loading image settings:', error);
+    return DEFAULT_IMAGE_SETTINGS;
+  }
+};
+
+export const saveImageSettings = (settings: ImageSettings) => {
+  try {
+    localStorage.setItem(IMAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving image settings:', error);
+  }
+};
+
+// Links come back with `/` separators; spaces and the like are escaped so
+// the Markdown link stays valid
+export const toImageLink = (link: string) => encodeURI(link);
+
+// Write image bytes into the document's assets folder, returning the
+// relative link to insert
+export const saveImage = async (documentDir: string, folder: string, name: string, data: Uint8Array) =>
+  toImageLink(await invoke<string>('save_image', { documentDir, folder, name, data: Array.from(data) }));
+
+// Copy an image file into the document's assets folder (or link it in place
+// when it is already below the document's folder), returning the relative link
+export const copyImage = async (documentDir: string, folder: string, source: string) =>
+  toImageLink(await invoke<string>('copy_image', { documentDir, folder, source }));
+
+// Name for a pasted image that has none of its own, such as a screenshot
+export const pastedImageName = (type: string) => {
+  const stamp = new Date().toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+  const extension = type.split('/')[1]?.replace('jpeg', 'jpg').replace('svg+xml', 'svg') || 'png';
+  return `pasted-${stamp}.${extension}`;
+};
+
+// Open a folder (and everything below it) to the asset protocol so its
+// images can be shown; nothing outside the opened folders is reachable
+export const allowImageFolder = (dir: string) => invoke<void>('allow_image_folder', { dir });
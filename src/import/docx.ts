@@ -0,0 +1,31 @@
+import mammoth from 'mammoth';
+import { fs } from '@tauri-apps/api';
+import { Schema } from '@tiptap/pm/model';
+import { ConvertedDocument, htmlToDocument } from './html';
+
+// Styles written by the DOCX export, so exported files come back as they
+// went out, plus built-in Word styles mammoth leaves as plain paragraphs
+const STYLE_MAP = [
+  "p[style-name='Code Block'] => pre:separator('\\n')",
+  "r[style-name='Inline Code'] => code",
+  "p[style-name='Quote'] => blockquote > p:fresh",
+  "p[style-name='Intense Quote'] => blockquote > p:fresh",
+  "p[style-name='Title'] => h1:fresh",
+  "p[style-name='Subtitle'] => h2:fresh",
+];
+
+/**
+ * Convert a Word document into an editor document. Mammoth turns it into
+ * HTML with images as data URIs, which then goes through the HTML import;
+ * its warnings (mostly unrecognised styles) are added to the notes.
+ */
+export const docxToDocument = async (schema: Schema, path: string): Promise<ConvertedDocument> => {
+  const bytes = await fs.readBinaryFile(path);
+  const { value, messages } = await mammoth.convertToHtml(
+    { arrayBuffer: bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer },
+    { styleMap: STYLE_MAP }
+  );
+  const { doc, notes } = await htmlToDocument(schema, value, path);
+  const warnings = Array.from(new Set(messages.map(message => message.message)));
+  return { doc, notes: [...warnings, ...notes] };
+};
@@ -0,0 +1,173 @@
+import { DOMParser as ProseMirrorDOMParser, Node as ProseMirrorNode, Schema } from '@tiptap/pm/model';
+import { fs } from '@tauri-apps/api';
+import { IMAGE_TYPES } from '../export/html';
+import { toImageLink } from '../images';
+import { baseName, joinPath, localImagePath, parentPath } from '../workspace';
+import { normalizeHtml } from './normalize';
+
+// A converted document and what it lost on the way
+export interface ConvertedDocument {
+  doc: ProseMirrorNode;
+  notes: string[];  // Content that could not be represented, one line each
+}
+
+// Content dropped outright, with how to describe it
+const REMOVED_CONTENT: [selector: string, description: string][] = [
+  ['iframe, object, embed', 'embedded frame'],
+  ['video, audio', 'video or audio clip'],
+  ['canvas, svg', 'drawing'],
+  ['math', 'equation'],
+  ['input, select, textarea, button', 'form field'],
+];
+
+// Inline formatting the editor has no mark for; the text itself is kept
+const DROPPED_FORMATTING: [selector: string, description: string][] = [
+  ['u, ins', 'Underline'],
+  ['sup, sub', 'Superscript and subscript'],
+  ['mark', 'Highlighting'],
+];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// File extension for an image content type
+const extensionFor = (type: string) =>
+  Object.keys(IMAGE_TYPES).find(extension => IMAGE_TYPES[extension] === type) ?? 'png';
+
+const fromBase64 = (base64: string) => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * Writer for images pulled out of an imported file. They go to an `assets`
+ * folder beside it, named after the file and numbered without overwriting
+ * anything already there; returns each image's link, relative to the
+ * imported file's folder so the document can move along with it.
+ */
+const createImageWriter = (sourcePath: string) => {
+  const dir = joinPath(parentPath(sourcePath), 'assets');
+  const stem = baseName(sourcePath).replace(/\.[^.]+$/, '');
+  let count = 0;
+  let createdDir = false;
+
+  return async (bytes: Uint8Array, extension: string) => {
+    if (!createdDir) {
+      await fs.createDir(dir, { recursive: true });
+      createdDir = true;
+    }
+    let name: string;
+    do {
+      count++;
+      name = `${stem}-${count}.${extension}`;
+    } while (await fs.exists(joinPath(dir, name)));
+    await fs.writeBinaryFile(joinPath(dir, name), bytes);
+    return toImageLink(`assets/${name}`);
+  };
+};
+
+// Copy embedded and local images into the assets folder and point the
+// document at the copies. Web images are left as links
+const extractImages = async (body: HTMLElement, sourcePath: string, notes: string[]) => {
+  const writeImage = createImageWriter(sourcePath);
+  const copies = new Map<string, string>(); // Original source -> link to the extracted file
+  const failed: string[] = [];
+
+  for (const image of Array.from(body.querySelectorAll('img'))) {
+    const src = image.getAttribute('src') ?? '';
+    let copy = copies.get(src);
+
+    try {
+      if (!copy) {
+        const data = src.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+        const path = data ? null : localImagePath(src, parentPath(sourcePath));
+        if (data) {
+          const bytes = data[2] ? fromBase64(data[3]) : new TextEncoder().encode(decodeURIComponent(data[3]));
+          copy = await writeImage(bytes, extensionFor(data[1]));
+        } else if (path) {
+          const extension = path.split('.').pop()?.toLowerCase() ?? '';
+          copy = await writeImage(await fs.readBinaryFile(path), extension in IMAGE_TYPES ? extension : 'png');
+        } else {
+          continue;
+        }
+        copies.set(src, copy);
+      }
+      image.setAttribute('src', copy);
+    } catch (error) {
+      console.error('Error importing image:', error);
+      failed.push(src.startsWith('data:') ? 'embedded image' : src);
+      image.remove();
+    }
+  }
+
+  if (failed.length > 0) {
+    notes.push(`Images that could not be extracted: ${failed.join(', ')}`);
+  }
+};
+
+// GFM tables are a grid of one-line cells, so merged cells and block
+// content inside cells do not survive saving as Markdown
+const checkTables = (doc: ProseMirrorNode, notes: string[]) => {
+  let merged = 0;
+  let flattened = 0;
+  doc.descendants(node => {
+    if (node.type.name !== 'tableCell' && node.type.name !== 'tableHeader') return true;
+    if (node.attrs.colspan > 1 || node.attrs.rowspan > 1) merged++;
+    if (node.childCount > 1 || node.firstChild?.type.name !== 'paragraph') flattened++;
+    return false;
+  });
+  if (merged > 0) {
+    notes.push(`${plural(merged, 'merged table cell')} will be split when saved as Markdown`);
+  }
+  if (flattened > 0) {
+    notes.push(`${plural(flattened, 'table cell')} with several paragraphs, lists or tables will be flattened to one line when saved as Markdown`);
+  }
+};
+
+/**
+ * Convert an HTML page into an editor document. The markup is tidied as
+ * for pasting and images are extracted beside `sourcePath`, linked relative
+ * to its folder; everything else the schema cannot hold is described in
+ * the notes.
+ */
+export const htmlToDocument = async (
+  schema: Schema,
+  html: string,
+  sourcePath: string
+): Promise<ConvertedDocument> => {
+  const page = new window.DOMParser().parseFromString(html, 'text/html');
+  const body = page.body;
+  const notes: string[] = [];
+
+  normalizeHtml(body);
+
+  REMOVED_CONTENT.forEach(([selector, description]) => {
+    const elements = body.querySelectorAll(selector);
+    if (elements.length === 0) return;
+    elements.forEach(element => element.remove());
+    notes.push(`Removed ${plural(elements.length, description)}`);
+  });
+  DROPPED_FORMATTING.forEach(([selector, description]) => {
+    const count = body.querySelectorAll(selector).length;
+    if (count > 0) {
+      notes.push(`${description} dropped in ${plural(count, 'place')}`);
+    }
+  });
+
+  // Table captions have no place inside the table; keep them as a paragraph above it
+  body.querySelectorAll('table > caption').forEach(caption => {
+    const paragraph = page.createElement('p');
+    paragraph.append(...Array.from(caption.childNodes));
+    caption.closest('table')?.before(paragraph);
+    caption.remove();
+  });
+
+  await extractImages(body, sourcePath, notes);
+
+  const doc = ProseMirrorDOMParser.fromSchema(schema).parse(body);
+  checkTables(doc, notes);
+  return { doc, notes };
+};
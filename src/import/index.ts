@@ -0,0 +1,21 @@
+import { fs } from '@tauri-apps/api';
+import { Schema } from '@tiptap/pm/model';
+import { ConvertedDocument, htmlToDocument } from './html';
+import { docxToDocument } from './docx';
+
+export type { ConvertedDocument } from './html';
+
+// File types opened by converting them, rather than as Markdown text
+export const IMPORT_EXTENSIONS = ['docx', 'html', 'htm'];
+
+const extensionOf = (path: string) => path.split('.').pop()?.toLowerCase() ?? '';
+
+export const isImportable = (path: string) => IMPORT_EXTENSIONS.includes(extensionOf(path));
+
+// Convert a Word document or web page into an editor document
+export const importDocument = async (schema: Schema, path: string): Promise<ConvertedDocument> => {
+  if (extensionOf(path) === 'docx') {
+    return docxToDocument(schema, path);
+  }
+  return htmlToDocument(schema, await fs.readTextFile(path), path);
+};
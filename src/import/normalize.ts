@@ -0,0 +1,265 @@
+// Elements that start a block of their own; anything else is inline content
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIELDSET',
+  'FIGCAPTION', 'FIGURE', 'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR',
+  'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'UL',
+]);
+
+// Wrappers that only group other blocks
+const SECTIONING_TAGS = 'article, aside, details, footer, header, main, nav, section, figure, center';
+
+const MONOSPACE_FONT = /consolas|courier|menlo|monaco|monospace|mono\b/i;
+
+// Word paragraph styles with an equivalent in the editor
+const WORD_PARAGRAPH_STYLES: [className: string, tag: string][] = [
+  ['MsoTitle', 'h1'],
+  ['MsoSubtitle', 'h2'],
+  ['MsoQuote', 'blockquote'],
+  ['MsoIntenseQuote', 'blockquote'],
+];
+
+const styleOf = (element: Element) => element.getAttribute('style') ?? '';
+
+// Replace an element with its children
+const unwrap = (element: Element) => element.replaceWith(...Array.from(element.childNodes));
+
+// Replace an element with a new one of another tag, keeping its children
+const retag = (element: Element, tag: string) => {
+  const replacement = element.ownerDocument.createElement(tag);
+  replacement.append(...Array.from(element.childNodes));
+  element.replaceWith(replacement);
+  return replacement;
+};
+
+const isBlank = (element: Element) =>
+  !element.querySelector('img, br, hr, table') && !(element.textContent ?? '').trim();
+
+// Whether all the text in a paragraph is set in a monospaced font
+const isMonospaced = (element: Element) => {
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let found = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.textContent?.trim()) continue;
+    found = true;
+    let monospaced = false;
+    for (let parent = node.parentElement; parent && !monospaced; parent = parent === element ? null : parent.parentElement) {
+      monospaced = MONOSPACE_FONT.test(parent.style.fontFamily);
+    }
+    if (!monospaced) return false;
+  }
+  return found;
+};
+
+// Group elements (in document order) into runs of adjacent siblings
+const siblingRuns = (elements: Element[]) => {
+  const runs: Element[][] = [];
+  elements.forEach(element => {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1].nextElementSibling === element) {
+      run.push(element);
+    } else {
+      runs.push([element]);
+    }
+  });
+  return runs;
+};
+
+// ========== Word ==========
+/**
+ * Word writes lists as paragraphs with an `mso-list` style giving the list
+ * and level, and the bullet or number as text in an `mso-list:Ignore`
+ * span. Rebuild real nested lists from each run of them.
+ */
+const convertWordLists = (body: HTMLElement) => {
+  const items = Array.from(body.querySelectorAll('p')).filter(p => /mso-list:\s*l\d+\s+level\d+/i.test(styleOf(p)));
+
+  siblingRuns(items).forEach(run => {
+    const document = body.ownerDocument;
+    const stack: { list: HTMLElement; level: number }[] = [];
+    let root: HTMLElement | null = null;
+
+    run.forEach(paragraph => {
+      const level = Number(styleOf(paragraph).match(/level(\d+)/i)?.[1] ?? 1);
+      const marker = Array.from(paragraph.querySelectorAll('span'))
+        .find(span => /mso-list:\s*ignore/i.test(styleOf(span)));
+      const ordered = /^\s*([0-9]+|[a-z]{1,4})[.)]/i.test(marker?.textContent ?? '');
+      marker?.remove();
+
+      while (stack.length > 0 && stack[stack.length - 1].level > level) stack.pop();
+      let top = stack[stack.length - 1];
+      if (!top || top.level < level) {
+        const list = document.createElement(ordered ? 'ol' : 'ul');
+        const parentItem = top?.list.lastElementChild;
+        if (parentItem) parentItem.appendChild(list);
+        else if (top) top.list.appendChild(list);
+        else root = list;
+        top = { list, level };
+        stack.push(top);
+      }
+
+      const item = document.createElement('li');
+      item.append(...Array.from(paragraph.childNodes));
+      top.list.appendChild(item);
+    });
+
+    if (root) run[0].before(root);
+    run.forEach(paragraph => paragraph.remove());
+  });
+};
+
+const convertWordStyles = (body: HTMLElement) => {
+  const quotes: Element[] = [];
+  body.querySelectorAll(WORD_PARAGRAPH_STYLES.map(([className]) => `p.${className}`).join(', ')).forEach(paragraph => {
+    const tag = WORD_PARAGRAPH_STYLES.find(([className]) => paragraph.classList.contains(className))![1];
+    if (tag === 'blockquote') {
+      const quote = paragraph.ownerDocument.createElement('blockquote');
+      paragraph.replaceWith(quote);
+      quote.appendChild(paragraph);
+      quotes.push(quote);
+    } else {
+      retag(paragraph, tag);
+    }
+  });
+  // Word quotes one paragraph at a time; neighbouring ones are one quote
+  siblingRuns(quotes).forEach(([first, ...rest]) => {
+    rest.forEach(quote => {
+      first.append(...Array.from(quote.childNodes));
+      quote.remove();
+    });
+  });
+};
+
+// ========== Code ==========
+// Language named by a highlighter class on the block or its wrapper
+const codeLanguage = (pre: Element) => {
+  const classes = [pre, pre.firstElementChild, pre.parentElement]
+    .flatMap(element => Array.from(element?.classList ?? []));
+  for (const name of classes) {
+    const match = name.match(/^(?:language|lang|highlight-source|highlight)-([\w+#-]+)$/);
+    if (match) return match[1];
+  }
+  return null;
+};
+
+// Code blocks as `pre > code.language-x` holding just the text, whatever
+// highlighting markup the page used, and runs of monospaced paragraphs
+// (how Word and Google Docs show code) as code blocks
+const normalizeCode = (body: HTMLElement) => {
+  const document = body.ownerDocument;
+  body.querySelectorAll('pre').forEach(pre => {
+    pre.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+    const language = codeLanguage(pre);
+    const code = document.createElement('code');
+    if (language) code.className = `language-${language}`;
+    code.textContent = pre.textContent ?? '';
+    pre.replaceChildren(code);
+  });
+
+  const paragraphs = Array.from(body.querySelectorAll('p'))
+    .filter(p => !p.closest('li, td, th') && (/code/i.test(p.className) || isMonospaced(p)));
+  siblingRuns(paragraphs).forEach(run => {
+    const pre = document.createElement('pre');
+    const code = document.createElement('code');
+    code.textContent = run.map(p => (p.textContent ?? '').replace(/\u00a0/g, ' ')).join('\n');
+    pre.appendChild(code);
+    run[0].before(pre);
+    run.forEach(p => p.remove());
+  });
+
+  // Monospaced runs of text inside other paragraphs are inline code
+  body.querySelectorAll('span, font').forEach(span => {
+    if (span.closest('pre, code') || !MONOSPACE_FONT.test((span as HTMLElement).style.fontFamily)) return;
+    if (!span.textContent?.trim()) return;
+    const code = document.createElement('code');
+    code.textContent = span.textContent;
+    span.replaceWith(code);
+  });
+};
+
+// ========== Lists ==========
+// Checkbox lists (GitHub's rendering, Google Docs checklists) become task
+// lists; lists where only some items have a checkbox stay plain
+const convertTaskLists = (body: HTMLElement) => {
+  body.querySelectorAll('ul').forEach(list => {
+    const items = Array.from(list.children).filter(child => child.tagName === 'LI');
+    if (items.length === 0 || list.getAttribute('data-type') === 'taskList') return;
+
+    const boxes = items.map(item => item.querySelector<HTMLInputElement>(
+      ':scope > input[type=checkbox], :scope > p:first-child > input[type=checkbox]'
+    ));
+    const checkable = items.every((item, index) => boxes[index] || item.getAttribute('role') === 'checkbox');
+    if (!checkable) return;
+
+    list.setAttribute('data-type', 'taskList');
+    items.forEach((item, index) => {
+      const box = boxes[index];
+      const checked = box ? box.checked || box.hasAttribute('checked') : item.getAttribute('aria-checked') === 'true';
+      box?.remove();
+      item.setAttribute('data-type', 'taskItem');
+      item.setAttribute('data-checked', String(checked));
+    });
+  });
+};
+
+// Lists nested directly in lists (as Google Docs and some editors write
+// them) belong to the item before them
+const fixNestedLists = (body: HTMLElement) => {
+  body.querySelectorAll('ul > ul, ul > ol, ol > ul, ol > ol').forEach(list => {
+    const previous = list.previousElementSibling;
+    if (previous?.tagName === 'LI') {
+      previous.appendChild(list);
+    } else {
+      const item = list.ownerDocument.createElement('li');
+      list.replaceWith(item);
+      item.appendChild(list);
+    }
+  });
+};
+
+// ========== Layout ==========
+// Divs holding only inline content are paragraphs; layout divs and
+// sectioning elements are dropped, keeping what is inside them
+const flattenLayout = (body: HTMLElement) => {
+  Array.from(body.querySelectorAll('div')).reverse().forEach(div => {
+    if (div.hasAttribute('data-type') || div.hasAttribute('data-page-break') || div.hasAttribute('data-front-matter')) return;
+    const hasBlocks = Array.from(div.children).some(child => BLOCK_TAGS.has(child.tagName));
+    if (hasBlocks || isBlank(div)) unwrap(div);
+    else retag(div, 'p');
+  });
+  body.querySelectorAll(SECTIONING_TAGS).forEach(unwrap);
+  body.querySelectorAll('figcaption').forEach(caption => retag(caption, 'p'));
+};
+
+/**
+ * Tidy HTML from Word, Google Docs and web pages in place, so the editor's
+ * parser finds plain headings, lists, tables, links and code rather than
+ * styled paragraphs and nested wrappers. Content it cannot tidy is left
+ * for the parser to keep or drop as usual.
+ */
+export const normalizeHtml = (body: HTMLElement) => {
+  body.querySelectorAll('script, style, noscript, template, link, meta, title').forEach(element => element.remove());
+  // Word's empty `<o:p>` spacers and Google Docs' bold-but-not wrapper
+  body.querySelectorAll('o\\:p').forEach(element => element.remove());
+  body.querySelectorAll('b[id^="docs-internal-guid"]').forEach(unwrap);
+  body.querySelectorAll('br.Apple-interchange-newline').forEach(element => element.remove());
+  body.querySelectorAll('a:not([href]), a[href^="javascript:" i]').forEach(unwrap);
+
+  convertWordLists(body);
+  convertWordStyles(body);
+  convertTaskLists(body);
+  fixNestedLists(body);
+  normalizeCode(body);
+  flattenLayout(body);
+
+  // Word spaces paragraphs with empty ones
+  body.querySelectorAll('p').forEach(paragraph => {
+    if (isBlank(paragraph)) paragraph.remove();
+  });
+};
+
+// `normalizeHtml` for an HTML string, such as the clipboard's
+export const cleanHtml = (html: string) => {
+  const body = new window.DOMParser().parseFromString(html, 'text/html').body;
+  normalizeHtml(body);
+  return body.innerHTML;
+};
@@ -0,0 +1,24 @@
+import { invoke } from '@tauri-apps/api/tauri';
+
+// Unsaved content of a modified tab, written by the Tauri side to the app data directory
+export interface JournalEntry {
+  tabId: string;
+  title: string;
+  filePath: string | null;
+  content: string;   // Markdown of the tab's document
+  savedAt: number;   // When the entry was written (ms since epoch)
+}
+
+// Journal entry as read back, with the modification time of its file on disk
+export interface JournalRecord extends JournalEntry {
+  diskModified: number | null;
+}
+
+export const writeJournalEntry = (entry: JournalEntry) =>
+  invoke<void>('write_journal_entry', { entry });
+
+export const removeJournalEntry = (tabId: string) =>
+  invoke<void>('remove_journal_entry', { tabId });
+
+export const readJournal = () =>
+  invoke<JournalRecord[]>('read_journal');
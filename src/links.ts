@@ -0,0 +1,88 @@
+import { Editor, getMarkRange } from '@tiptap/react';
+import { Node as ProseMirrorNode, Schema } from '@tiptap/pm/model';
+import { fs } from '@tauri-apps/api';
+import { getOutline } from './extensions/Outline';
+import { parseMarkdown } from './markdown';
+import { parentPath, resolvePath } from './workspace';
+
+// A heading that can be linked to as `#slug`
+export interface HeadingAnchor {
+  slug: string;
+  text: string;
+  level: number;
+  pos: number;  // Position of the heading node
+}
+
+// The link the selection is in
+export interface LinkRange {
+  from: number;
+  to: number;
+  href: string;
+  text: string;
+}
+
+// GitHub-style heading anchors: lowercase, dashes for spaces, numbered repeats
+export const slugify = (text: string, used: Map<string, number>) => {
+  const slug = text.trim().toLowerCase().replace(/[^\p{L}\p{N}\s-]/gu, '').replace(/\s+/g, '-') || 'section';
+  const count = used.get(slug) ?? 0;
+  used.set(slug, count + 1);
+  return count === 0 ? slug : `${slug}-${count}`;
+};
+
+// Anchors of the top-level headings, numbered the same way as in exports
+export const headingAnchors = (doc: ProseMirrorNode): HeadingAnchor[] => {
+  const used = new Map<string, number>();
+  return getOutline(doc).map(({ text, level, pos }) => ({ slug: slugify(text, used), text, level, pos }));
+};
+
+// The whole link around the cursor (or the start of the selection)
+export const linkAtSelection = (editor: Editor): LinkRange | null => {
+  const { state } = editor;
+  const type = state.schema.marks.link;
+  if (!type || !editor.isActive('link')) return null;
+  const range = getMarkRange(state.selection.$from, type);
+  if (!range) return null;
+  const mark = state.doc.nodeAt(range.from)?.marks.find(candidate => candidate.type === type);
+  return {
+    ...range,
+    href: mark?.attrs.href ?? '',
+    text: state.doc.textBetween(range.from, range.to),
+  };
+};
+
+// Whether a link points at a web page, mail address or the like rather than a file
+export const isExternalLink = (href: string) => /^[a-z][a-z0-9+.-]*:/i.test(href) && !/^file:/i.test(href);
+
+// The file part and heading anchor of a link, e.g. `other.md` and `setup`
+// for `other.md#setup`
+export const splitLink = (href: string) => {
+  const hash = href.indexOf('#');
+  if (hash < 0) return { path: href, anchor: null };
+  return { path: href.slice(0, hash), anchor: decodeURIComponent(href.slice(hash + 1)) };
+};
+
+// The file a link's path points at, resolved against the linking document's
+// folder; null for a relative link in a document that has no folder yet
+export const linkedFilePath = (path: string, documentPath: string | null) => {
+  const decoded = decodeURI(path.replace(/^file:\/\/(\/(?=[a-z]:))?/i, ''));
+  if (/^([a-z]:)?[\\/]/i.test(decoded)) return decoded;
+  return documentPath ? resolvePath(parentPath(documentPath), decoded) : null;
+};
+
+// ========== Link Targets ==========
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+
+export const isMarkdownFile = (path: string) => MARKDOWN_FILE.test(path);
+
+// Names of the Markdown files beside a document, other than itself
+export const siblingDocuments = async (documentPath: string) => {
+  const entries = await fs.readDir(parentPath(documentPath));
+  return entries
+    .filter(entry => entry.name && MARKDOWN_FILE.test(entry.name) && entry.path !== documentPath)
+    .map(entry => entry.name!)
+    .sort((a, b) => a.localeCompare(b));
+};
+
+// Heading anchors of a Markdown file on disk
+export const fileAnchors = async (schema: Schema, path: string) =>
+  headingAnchors(parseMarkdown(schema, await fs.readTextFile(path)));
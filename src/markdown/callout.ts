@@ -0,0 +1,36 @@
+// The GitHub alert types
+export const CALLOUT_TYPES = ['note', 'tip', 'important', 'warning', 'caution'] as const;
+
+export type CalloutType = typeof CALLOUT_TYPES[number];
+
+// What a `> [!NOTE]` callout is and how it shows
+export interface CalloutAttrs {
+  type: CalloutType;
+  title: string | null;  // Shown instead of the type's name
+  collapsible: boolean;  // Written `[!NOTE]+` or `[!NOTE]-`
+  collapsed: boolean;    // Starts closed (`-`); only when collapsible
+}
+
+// `[!NOTE]`, `[!NOTE]- Title` and the like, alone on the first line of a blockquote
+const CALLOUT_MARKER = /^\[!(note|tip|important|warning|caution)\]([+-]?)(?:[ \t]+(.*?))?[ \t]*$/i;
+
+// Attributes of a callout marker line, or null if `line` is not one
+export const matchCalloutMarker = (line: string): CalloutAttrs | null => {
+  const match = CALLOUT_MARKER.exec(line);
+  if (!match) return null;
+  const [, type, fold, title] = match;
+  return {
+    type: type.toLowerCase() as CalloutType,
+    title: title?.trim() || null,
+    collapsible: fold !== '',
+    collapsed: fold === '-',
+  };
+};
+
+// How a callout's first line is written in Markdown
+export const calloutMarker = ({ type, title, collapsible, collapsed }: CalloutAttrs) =>
+  `[!${type.toUpperCase()}]${collapsible ? (collapsed ? '-' : '+') : ''}${title ? ` ${title}` : ''}`;
+
+// Heading a callout shows: its own title or the name of its type
+export const calloutTitle = ({ type, title }: Pick<CalloutAttrs, 'type' | 'title'>) =>
+  title || type.charAt(0).toUpperCase() + type.slice(1);
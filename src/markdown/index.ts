@@ -0,0 +1,9 @@
+export { parseMarkdown, getMarkdownParser, createMarkdownParser, createTokenizer } from './parser';
+export { serializeMarkdown, serializeBlock, markdownSerializer } from './serializer';
+export { parseMarkdownSource, serializeSourceText, serializeWithSource, keepFileFormat } from './source';
+export type { MarkdownSource, SourceBlock } from './source';
+export { blockOffsets, sourceOffsetToPos, posToSourceOffset } from './positions';
+export { matchWikiLink, parseWikiLink, wikiLinkSource, wikiLinkText } from './wikiLink';
+export type { WikiLinkAttrs } from './wikiLink';
+export { CALLOUT_TYPES, calloutTitle } from './callout';
+export type { CalloutAttrs, CalloutType } from './callout';
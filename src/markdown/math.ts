@@ -0,0 +1,31 @@
+// `$…$` inline math starting at `start` in `text`: its TeX and the index
+// after the closing `$`, or null. Pandoc's rules keep prices apart from
+// math: the opening `$` is followed by a non-space, and the closing one
+// follows a non-space and is not followed by a digit
+export const matchInlineMath = (text: string, start: number): { tex: string; end: number } | null => {
+  const first = text[start + 1];
+  if (text[start] !== '$' || !first || first === '$' || /\s/.test(first)) return null;
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '$') {
+      if (/\s/.test(text[i - 1]) || /\d/.test(text[i + 1] ?? '')) continue;
+      return { tex: text.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+};
+
+// Positions of the dollars in plain text that would be read back as math
+// delimiters, and so must be written as `\$`. Every dollar that could open
+// math counts, since escaping one lets the next pair up with another
+export const mathDollars = (text: string) => {
+  const dollars: number[] = [];
+  for (let i = text.indexOf('$'); i >= 0; i = text.indexOf('$', i + 1)) {
+    // A `$$` could open display math
+    if (text[i + 1] === '$' || matchInlineMath(text, i)) {
+      dollars.push(i);
+    }
+  }
+  return dollars;
+};
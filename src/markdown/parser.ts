@@ -0,0 +1,505 @@
+import MarkdownIt from 'markdown-it';
+import type Token from 'markdown-it/lib/token.mjs';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block.mjs';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline.mjs';
+import { MarkdownParser } from '@tiptap/pm/markdown';
+import { Node as ProseMirrorNode, Schema } from '@tiptap/pm/model';
+import { matchWikiLink } from './wikiLink';
+import { matchInlineMath } from './math';
+import { matchCalloutMarker } from './callout';
+
+// Task list item marker at the start of a list item's first paragraph
+export const TASK_MARKER = /^\[([ xX])\](?:[ \t]+|$)/;
+
+// Find the index of the token closing the block opened at `index`
+const findClosingToken = (tokens: Token[], index: number) => {
+  const { level } = tokens[index];
+  const closeType = tokens[index].type.replace(/_open$/, '_close');
+  for (let i = index + 1; i < tokens.length; i++) {
+    if (tokens[i].type === closeType && tokens[i].level === level) {
+      return i;
+    }
+  }
+  return tokens.length - 1;
+};
+
+// Drop the `[ ] ` marker from the leading text tokens of an inline token
+const stripTaskMarker = (inline: Token, markerLength: number) => {
+  inline.content = inline.content.slice(markerLength);
+  let remaining = markerLength;
+  for (const child of inline.children || []) {
+    if (remaining <= 0 || child.type !== 'text') break;
+    const removed = Math.min(remaining, child.content.length);
+    child.content = child.content.slice(removed);
+    remaining -= removed;
+  }
+  inline.children = (inline.children || []).filter(child => child.type !== 'text' || child.content !== '');
+};
+
+/**
+ * Core rule: turn bullet lists whose items all start with `[ ]` or `[x]`
+ * into task_list/task_item tokens. Mixed lists stay regular bullet lists,
+ * their markers kept as text (and written back unescaped).
+ */
+const taskListRule = (state: { tokens: Token[] }) => {
+  const { tokens } = state;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== 'bullet_list_open') continue;
+
+    const close = findClosingToken(tokens, i);
+    const items: { open: Token; close: Token; inline: Token; marker: RegExpExecArray }[] = [];
+    let allTasks = true;
+
+    for (let j = i + 1; j < close && allTasks; j++) {
+      if (tokens[j].type !== 'list_item_open' || tokens[j].level !== tokens[i].level + 1) continue;
+
+      const inline = tokens[j + 2];
+      const marker = tokens[j + 1]?.type === 'paragraph_open' && inline?.type === 'inline'
+        ? TASK_MARKER.exec(inline.content)
+        : null;
+
+      if (!marker) {
+        allTasks = false;
+      } else {
+        items.push({ open: tokens[j], close: tokens[findClosingToken(tokens, j)], inline, marker });
+      }
+    }
+
+    if (!allTasks || items.length === 0) continue;
+
+    tokens[i].type = 'task_list_open';
+    tokens[close].type = 'task_list_close';
+    for (const item of items) {
+      item.open.type = 'task_item_open';
+      item.close.type = 'task_item_close';
+      item.open.attrSet('checked', item.marker[1] === ' ' ? 'false' : 'true');
+      stripTaskMarker(item.inline, item.marker[0].length);
+    }
+  }
+};
+
+/**
+ * Core rule: TipTap table cells hold block content, so wrap the inline
+ * content of every th/td in a paragraph.
+ */
+const tableCellParagraphRule = (state: { tokens: Token[]; Token: typeof Token }) => {
+  const result: Token[] = [];
+
+  for (const token of state.tokens) {
+    const inCell = token.type === 'inline' && result.length > 0 &&
+      (result[result.length - 1].type === 'th_open' || result[result.length - 1].type === 'td_open');
+
+    if (inCell) {
+      const open = new state.Token('paragraph_open', 'p', 1);
+      open.level = token.level;
+      const close = new state.Token('paragraph_close', 'p', -1);
+      close.level = token.level;
+      result.push(open, token, close);
+    } else {
+      result.push(token);
+    }
+  }
+
+  state.tokens = result;
+};
+
+/**
+ * Core rule: a blockquote whose first line is `[!NOTE]`, `[!TIP]`,
+ * `[!IMPORTANT]`, `[!WARNING]` or `[!CAUTION]` (optionally followed by `+`
+ * or `-` and a title) is a callout. The marker line is dropped from its
+ * first paragraph, and so is the paragraph if nothing else is in it.
+ */
+const calloutRule = (state: { tokens: Token[] }) => {
+  const { tokens } = state;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== 'blockquote_open') continue;
+    const inline = tokens[i + 2];
+    if (tokens[i + 1]?.type !== 'paragraph_open' || inline?.type !== 'inline') continue;
+
+    const newline = inline.content.indexOf('\n');
+    const attrs = matchCalloutMarker(newline < 0 ? inline.content : inline.content.slice(0, newline));
+    if (!attrs) continue;
+
+    const close = findClosingToken(tokens, i);
+    tokens[i].type = 'callout_open';
+    tokens[i].meta = attrs;
+    tokens[close].type = 'callout_close';
+
+    const children = inline.children || [];
+    const lineBreak = children.findIndex(child => child.type === 'softbreak' || child.type === 'hardbreak');
+    if (newline < 0 || lineBreak < 0) {
+      tokens.splice(i + 1, 3);
+    } else {
+      inline.content = inline.content.slice(newline + 1);
+      inline.children = children.slice(lineBreak + 1);
+    }
+  }
+};
+
+/**
+ * Core rule: soft line breaks inside a paragraph are just whitespace in
+ * the rendered document, so show them as spaces in the editor.
+ */
+const softBreakRule = (state: { tokens: Token[] }) => {
+  for (const token of state.tokens) {
+    if (token.type !== 'inline' || !token.children) continue;
+    for (const child of token.children) {
+      if (child.type === 'softbreak') {
+        child.type = 'text';
+        child.content = ' ';
+      }
+    }
+  }
+};
+
+// Text of a line without its indentation or trailing whitespace
+const lineText = (state: StateBlock, line: number) =>
+  state.src.slice(state.bMarks[line] + state.tShift[line], state.eMarks[line]).trimEnd();
+
+/**
+ * Block rule: a `---` line at the very start of the file opens YAML front
+ * matter, closed by the next `---` or `...` line. Without a closing line
+ * the `---` is an ordinary thematic break.
+ */
+const frontMatterRule = (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+  if (startLine !== 0 || state.parentType !== 'root' || state.tShift[0] !== 0 || lineText(state, 0) !== '---') {
+    return false;
+  }
+
+  let closeLine = 1;
+  while (closeLine < endLine && !['---', '...'].includes(lineText(state, closeLine))) {
+    closeLine++;
+  }
+  if (closeLine >= endLine) return false;
+  if (silent) return true;
+
+  const token = state.push('front_matter', '', 0);
+  token.block = true;
+  token.content = state.getLines(1, closeLine, 0, true);
+  token.map = [0, closeLine + 1];
+  state.line = closeLine + 1;
+  return true;
+};
+
+const PAGE_BREAK = /^<!--\s*pagebreak\s*-->$/i;
+
+/**
+ * Block rule: a `<!-- pagebreak -->` line is a page break. Raw HTML is off,
+ * so this is the one comment the tokenizer recognises.
+ */
+const pageBreakRule = (state: StateBlock, startLine: number, _endLine: number, silent: boolean) => {
+  // Indented four or more spaces it is code
+  if (state.sCount[startLine] - state.blkIndent >= 4 || !PAGE_BREAK.test(lineText(state, startLine))) {
+    return false;
+  }
+  if (silent) return true;
+
+  const token = state.push('page_break', '', 0);
+  token.block = true;
+  token.map = [startLine, startLine + 1];
+  state.line = startLine + 1;
+  return true;
+};
+
+/**
+ * Inline rule: `[[Note#Heading|label]]` is a wiki link. It runs before the
+ * link rule, so the inner brackets are never read as a link reference.
+ */
+const wikiLinkRule = (state: StateInline, silent: boolean) => {
+  if (state.src.charCodeAt(state.pos) !== 0x5b || state.src.charCodeAt(state.pos + 1) !== 0x5b) {
+    return false;
+  }
+  const match = matchWikiLink(state.src.slice(state.pos, state.posMax));
+  if (!match) return false;
+
+  if (!silent) {
+    const token = state.push('wiki_link', '', 0);
+    token.meta = match.attrs;
+  }
+  state.pos += match.length;
+  return true;
+};
+
+/**
+ * Inline rule: `$…$` is inline math (see `matchInlineMath`). Its TeX is
+ * taken as written, without Markdown escapes or emphasis.
+ */
+const inlineMathRule = (state: StateInline, silent: boolean) => {
+  const src = state.src.slice(0, state.posMax);
+  const match = matchInlineMath(src, state.pos);
+  if (!match) return false;
+
+  if (!silent) {
+    const token = state.push('math_inline', '', 0);
+    token.content = match.tex;
+  }
+  state.pos = match.end;
+  return true;
+};
+
+/**
+ * Block rule: display math from a line starting with `$$` to a line ending
+ * with `$$`, which may be the same line. Without a closing `$$` the lines
+ * are an ordinary paragraph.
+ */
+const mathBlockRule = (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+  // Indented four or more spaces it is code
+  if (state.sCount[startLine] - state.blkIndent >= 4) return false;
+  const first = lineText(state, startLine);
+  if (!first.startsWith('$$')) return false;
+
+  let closeLine = startLine;
+  let tex: string;
+  if (first.length >= 4 && first.endsWith('$$')) {
+    tex = first.slice(2, -2);
+  } else {
+    closeLine = startLine + 1;
+    while (closeLine < endLine && !lineText(state, closeLine).endsWith('$$')) {
+      closeLine++;
+    }
+    if (closeLine >= endLine) return false;
+    const last = lineText(state, closeLine);
+    tex = [first.slice(2), state.getLines(startLine + 1, closeLine, state.blkIndent, false).replace(/\n$/, ''), last.slice(0, -2)]
+      .filter(part => part.trim() !== '')
+      .join('\n');
+  }
+  if (silent) return true;
+
+  const token = state.push('math_block', '', 0);
+  token.block = true;
+  token.content = tex.trim();
+  token.map = [startLine, closeLine + 1];
+  state.line = closeLine + 1;
+  return true;
+};
+
+// Labels of the footnotes defined in the file being parsed
+interface FootnoteEnv {
+  footnoteLabels?: Set<string>;
+}
+
+/**
+ * Block rule: `[^label]: text` defines a footnote. Lines indented four
+ * spaces below it continue the definition, as in a list item.
+ */
+const footnoteDefinitionRule = (state: StateBlock, startLine: number, endLine: number, silent: boolean) => {
+  const start = state.bMarks[startLine] + state.tShift[startLine];
+  const max = state.eMarks[startLine];
+  if (state.sCount[startLine] - state.blkIndent >= 4 || state.src.slice(start, start + 2) !== '[^') return false;
+
+  const close = state.src.indexOf(']', start + 2);
+  if (close < 0 || close >= max || state.src.charCodeAt(close + 1) !== 0x3a) return false;
+  const label = state.src.slice(start + 2, close);
+  if (!label || /\s/.test(label)) return false;
+  if (silent) return true;
+
+  const env = state.env as FootnoteEnv;
+  (env.footnoteLabels ??= new Set()).add(label);
+
+  const open = state.push('footnote_open', '', 1);
+  open.meta = { label };
+  open.map = [startLine, startLine];
+
+  // Read the rest of the first line and the indented lines as nested blocks
+  const oldBMark = state.bMarks[startLine];
+  const oldTShift = state.tShift[startLine];
+  const oldSCount = state.sCount[startLine];
+  const oldParentType = state.parentType;
+  const afterColon = close + 2;
+  let pos = afterColon;
+  while (pos < max && (state.src[pos] === ' ' || state.src[pos] === '\t')) pos++;
+  state.bMarks[startLine] = afterColon;
+  state.tShift[startLine] = pos - afterColon;
+  state.sCount[startLine] = state.blkIndent + 4;
+  state.blkIndent += 4;
+  state.parentType = 'footnote' as typeof state.parentType;
+
+  state.md.block.tokenize(state, startLine, endLine);
+
+  state.parentType = oldParentType;
+  state.blkIndent -= 4;
+  state.bMarks[startLine] = oldBMark;
+  state.tShift[startLine] = oldTShift;
+  state.sCount[startLine] = oldSCount;
+
+  open.map[1] = state.line;
+  state.push('footnote_close', '', -1);
+  return true;
+};
+
+/**
+ * Inline rule: `[^label]` is a reference to a footnote defined in the same
+ * file; without a definition it stays text, as on GitHub.
+ */
+const footnoteReferenceRule = (state: StateInline, silent: boolean) => {
+  if (state.src.slice(state.pos, state.pos + 2) !== '[^') return false;
+  const close = state.src.indexOf(']', state.pos + 2);
+  if (close < 0 || close >= state.posMax) return false;
+  const label = state.src.slice(state.pos + 2, close);
+  if (!(state.env as FootnoteEnv).footnoteLabels?.has(label)) return false;
+
+  if (!silent) {
+    const token = state.push('footnote_ref', '', 0);
+    token.meta = { label };
+  }
+  state.pos = close + 1;
+  return true;
+};
+
+/**
+ * Core rule: gather footnote definitions, wherever they were written, into
+ * one footnotes section at the end of the document. The section keeps a
+ * source span only when the definitions already end the file together.
+ */
+const footnotesRule = (state: { tokens: Token[]; Token: typeof Token }) => {
+  const { tokens } = state;
+  const kept: Token[] = [];
+  const definitions: Token[] = [];
+  let firstDefinition = -1;
+  let together = true;
+
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== 'footnote_open') {
+      kept.push(tokens[i]);
+      continue;
+    }
+    if (firstDefinition < 0) firstDefinition = kept.length;
+    if (tokens[i].level !== 0 || kept.length !== firstDefinition) together = false;
+    const close = findClosingToken(tokens, i);
+    const shift = 1 - tokens[i].level;
+    for (let j = i; j <= close; j++) {
+      tokens[j].level += shift;
+      definitions.push(tokens[j]);
+    }
+    i = close;
+  }
+  if (definitions.length === 0) return;
+
+  const open = new state.Token('footnotes_open', 'section', 1);
+  const close = new state.Token('footnotes_close', 'section', -1);
+  open.block = close.block = true;
+  const first = definitions[0].map;
+  const last = definitions.filter(token => token.type === 'footnote_open').pop()!.map;
+  if (together && kept.length === firstDefinition && first && last) open.map = [first[0], last[1]];
+  state.tokens = [...kept, open, ...definitions, close];
+};
+
+// Map markdown-it alignment style (`text-align:center`) to the cell attribute
+const getCellAttrs = (token: Token) => {
+  const style = token.attrGet('style') || '';
+  const match = /text-align:\s*(left|center|right)/.exec(style);
+  return { align: match ? match[1] : null };
+};
+
+// markdown-it marks tight lists by hiding their paragraphs
+const isTightList = (tokens: Token[], index: number) => {
+  for (let i = index + 1; i < tokens.length; i++) {
+    if (tokens[i].type !== 'list_item_open' && tokens[i].type !== 'task_item_open') {
+      return tokens[i].hidden;
+    }
+  }
+  return true;
+};
+
+// GFM tokenizer: CommonMark plus tables, strikethrough and autolinks
+export const createTokenizer = () => {
+  const tokenizer = MarkdownIt('commonmark', { html: false, linkify: true })
+    .enable(['table', 'strikethrough', 'linkify']);
+
+  tokenizer.block.ruler.before('hr', 'front_matter', frontMatterRule);
+  tokenizer.block.ruler.before('hr', 'page_break', pageBreakRule, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+  tokenizer.block.ruler.before('fence', 'math_block', mathBlockRule, { alt: ['paragraph', 'reference', 'blockquote', 'list'] });
+  tokenizer.block.ruler.before('reference', 'footnote_definition', footnoteDefinitionRule, { alt: ['paragraph', 'reference'] });
+  tokenizer.inline.ruler.before('link', 'wiki_link', wikiLinkRule);
+  tokenizer.inline.ruler.after('escape', 'math_inline', inlineMathRule);
+  tokenizer.inline.ruler.before('link', 'footnote_ref', footnoteReferenceRule);
+  tokenizer.core.ruler.push('task_lists', taskListRule);
+  tokenizer.core.ruler.push('table_cell_paragraphs', tableCellParagraphRule);
+  tokenizer.core.ruler.push('callouts', calloutRule);
+  tokenizer.core.ruler.push('soft_breaks', softBreakRule);
+  tokenizer.core.ruler.push('footnotes', footnotesRule);
+
+  return tokenizer;
+};
+
+// Build a parser producing documents in the editor's schema
+export const createMarkdownParser = (schema: Schema) => new MarkdownParser(schema, createTokenizer(), {
+  blockquote: { block: 'blockquote' },
+  callout: { block: 'callout', getAttrs: token => token.meta },
+  paragraph: { block: 'paragraph' },
+  list_item: { block: 'listItem' },
+  bullet_list: { block: 'bulletList', getAttrs: (_token, tokens, i) => ({ tight: isTightList(tokens, i) }) },
+  ordered_list: {
+    block: 'orderedList',
+    getAttrs: (token, tokens, i) => ({
+      start: Number(token.attrGet('start')) || 1,
+      tight: isTightList(tokens, i),
+    }),
+  },
+  task_list: { block: 'taskList', getAttrs: (_token, tokens, i) => ({ tight: isTightList(tokens, i) }) },
+  task_item: { block: 'taskItem', getAttrs: token => ({ checked: token.attrGet('checked') === 'true' }) },
+  heading: { block: 'heading', getAttrs: token => ({ level: Number(token.tag.slice(1)) }) },
+  code_block: { block: 'codeBlock', noCloseToken: true },
+  fence: {
+    block: 'codeBlock',
+    getAttrs: token => ({ language: token.info.trim().split(/\s+/)[0] || null }),
+    noCloseToken: true,
+  },
+  hr: { node: 'horizontalRule' },
+  front_matter: { node: 'frontMatter', getAttrs: token => ({ yaml: token.content }) },
+  page_break: { node: 'pageBreak' },
+  image: {
+    node: 'image',
+    getAttrs: token => {
+      // `![alt|300](src)` is an image resized to 300 pixels wide
+      const [, alt, width] = (token.children?.[0]?.content ?? '').match(/^(.*?)(?:\|(\d+))?$/s) ?? [];
+      return {
+        src: token.attrGet('src'),
+        title: token.attrGet('title') || null,
+        alt: alt || null,
+        width: width ? Number(width) : null,
+      };
+    },
+  },
+  wiki_link: { node: 'wikiLink', getAttrs: token => token.meta },
+  math_inline: { node: 'mathInline', getAttrs: token => ({ tex: token.content }) },
+  math_block: { node: 'mathBlock', getAttrs: token => ({ tex: token.content }) },
+  footnote_ref: { node: 'footnoteReference', getAttrs: token => token.meta },
+  footnotes: { block: 'footnotes' },
+  footnote: { block: 'footnote', getAttrs: token => token.meta },
+  hardbreak: { node: 'hardBreak' },
+  table: { block: 'table' },
+  thead: { ignore: true },
+  tbody: { ignore: true },
+  tr: { block: 'tableRow' },
+  th: { block: 'tableHeader', getAttrs: getCellAttrs },
+  td: { block: 'tableCell', getAttrs: getCellAttrs },
+  em: { mark: 'italic' },
+  strong: { mark: 'bold' },
+  s: { mark: 'strike' },
+  link: {
+    mark: 'link',
+    getAttrs: token => ({ href: token.attrGet('href'), title: token.attrGet('title') || null }),
+  },
+  code_inline: { mark: 'code', noCloseToken: true },
+});
+
+// Parsers are cached per schema since building the tokenizer is not free
+const parsers = new WeakMap<Schema, MarkdownParser>();
+
+// Get the cached parser for a schema, creating it on first use
+export const getMarkdownParser = (schema: Schema) => {
+  let parser = parsers.get(schema);
+  if (!parser) {
+    parser = createMarkdownParser(schema);
+    parsers.set(schema, parser);
+  }
+  return parser;
+};
+
+// Parse a Markdown string into a ProseMirror document
+export const parseMarkdown = (schema: Schema, markdown: string): ProseMirrorNode => {
+  return getMarkdownParser(schema).parse(markdown);
+};
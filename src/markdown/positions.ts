@@ -0,0 +1,101 @@
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { MarkdownSource } from './source';
+
+// Offset of each block's first character in the source text
+export const blockOffsets = (source: MarkdownSource) => {
+  const offsets: number[] = [];
+  let offset = 0;
+  source.blocks.forEach((block, index) => {
+    offset += source.gaps[index].length;
+    offsets.push(offset);
+    offset += block.text.length;
+  });
+  return offsets;
+};
+
+/**
+ * Walk a block's Markdown and its rendered text side by side, skipping
+ * syntax characters that have no counterpart in the rendered text.
+ * Entry `t` is the source offset of rendered character `t`; the last
+ * entry is the offset just past the last matched character.
+ */
+const alignText = (blockText: string, nodeText: string) => {
+  const offsets: number[] = [];
+  let sourceOffset = 0;
+  for (let i = 0; i < nodeText.length; i++) {
+    const found = blockText.indexOf(nodeText[i], sourceOffset);
+    if (found === -1) break;
+    offsets.push(found);
+    sourceOffset = found + 1;
+  }
+  offsets.push(sourceOffset);
+  return offsets;
+};
+
+// Find the document position `textOffset` characters into a block's text
+const posAtTextOffset = (node: ProseMirrorNode, nodePos: number, textOffset: number) => {
+  let result: number | null = null;
+  let remaining = textOffset;
+  node.descendants((child, pos) => {
+    if (result !== null) return false;
+    if (child.isText && child.text) {
+      if (remaining <= child.text.length) {
+        result = nodePos + 1 + pos + remaining;
+      } else {
+        remaining -= child.text.length;
+      }
+    }
+    return true;
+  });
+  return result ?? Math.max(nodePos, nodePos + node.nodeSize - 1);
+};
+
+// Top-level block containing a position, with its start position
+const blockAt = (doc: ProseMirrorNode, pos: number) => {
+  let index = 0;
+  let start = 0;
+  doc.forEach((_node, offset, i) => {
+    if (offset <= pos) {
+      index = i;
+      start = offset;
+    }
+  });
+  return { index, start };
+};
+
+/**
+ * Map an offset in the Markdown source to a position in the document.
+ * Needs a layout matching the document block for block.
+ */
+export const sourceOffsetToPos = (doc: ProseMirrorNode, source: MarkdownSource, offset: number) => {
+  if (source.blocks.length !== doc.childCount || doc.childCount === 0) return 1;
+
+  const offsets = blockOffsets(source);
+  let index = 0;
+  while (index + 1 < offsets.length && offsets[index + 1] <= offset) index++;
+
+  let nodePos = 0;
+  for (let i = 0; i < index; i++) nodePos += doc.child(i).nodeSize;
+  const node = doc.child(index);
+
+  const inBlock = offset - offsets[index];
+  const aligned = alignText(source.blocks[index].text, node.textContent);
+  let textOffset = 0;
+  while (textOffset + 1 < aligned.length && aligned[textOffset + 1] <= inBlock) textOffset++;
+
+  return posAtTextOffset(node, nodePos, textOffset);
+};
+
+// Map a document position to an offset in the Markdown source
+export const posToSourceOffset = (doc: ProseMirrorNode, source: MarkdownSource, pos: number) => {
+  if (source.blocks.length !== doc.childCount || doc.childCount === 0) return 0;
+
+  const { index, start } = blockAt(doc, pos);
+  const node = doc.child(index);
+  const textOffset = doc.textBetween(start, Math.min(pos, start + node.nodeSize)).length;
+
+  const aligned = alignText(source.blocks[index].text, node.textContent);
+  const inBlock = aligned[Math.min(textOffset, aligned.length - 1)];
+
+  return blockOffsets(source)[index] + inBlock;
+};
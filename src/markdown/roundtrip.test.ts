@@ -0,0 +1,149 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest';
+import { JSONContent, getSchema } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import CodeBlockLowlight from '@tiptap/extension-code-block-lowlight';
+import Table from '@tiptap/extension-table';
+import TableRow from '@tiptap/extension-table-row';
+import TableHeader from '@tiptap/extension-table-header';
+import TableCell from '@tiptap/extension-table-cell';
+import Link from '@tiptap/extension-link';
+import TaskList from '@tiptap/extension-task-list';
+import TaskItem from '@tiptap/extension-task-item';
+import { common, createLowlight } from 'lowlight';
+import LocalImage from '../extensions/LocalImage';
+import MarkdownAttributes from '../extensions/MarkdownAttributes';
+import FrontMatter from '../extensions/FrontMatter';
+import PageBreak from '../extensions/PageBreak';
+import WikiLink from '../extensions/WikiLink';
+import { MathBlock, MathInline } from '../extensions/Math';
+import { Footnote, FootnoteReference, Footnotes } from '../extensions/Footnotes';
+import Callout from '../extensions/Callout';
+import { parseMarkdown, parseMarkdownSource, serializeMarkdown, serializeSourceText } from '.';
+
+// The nodes and marks of the editor in App.tsx
+const schema = getSchema([
+  StarterKit.configure({ codeBlock: false }),
+  CodeBlockLowlight.configure({ lowlight: createLowlight(common) }),
+  Table,
+  TableRow,
+  TableHeader,
+  TableCell,
+  Link,
+  LocalImage.configure({ inline: true }),
+  TaskList,
+  TaskItem.configure({ nested: true }),
+  MarkdownAttributes,
+  FrontMatter,
+  PageBreak,
+  WikiLink,
+  MathInline,
+  MathBlock,
+  FootnoteReference,
+  Footnotes,
+  Footnote,
+  Callout,
+]);
+
+// Every Markdown file in fixtures/ must survive open → save → open
+const fixtures = import.meta.glob('./fixtures/*.md', { as: 'raw', eager: true });
+
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+const text = (value: string, marks?: JSONContent['marks']): JSONContent => ({ type: 'text', text: value, marks });
+
+// Documents as typed in the editor, which no Markdown source produces
+// directly, and what they are when the saved file is opened again
+const typed: Record<string, [JSONContent[], JSONContent[]?]> = {
+  'a paragraph starting with a list marker': [[
+    paragraph(text('2) not a list')),
+    paragraph(text('3. not a list either')),
+    paragraph(text('7)')),
+  ]],
+  'a paragraph reading as a page break': [[
+    paragraph(text('<!-- pagebreak -->')),
+  ]],
+  'a link with a title': [[
+    paragraph(text('a', [{ type: 'link', attrs: { href: 'https://example.com', title: 'Example' } }])),
+  ]],
+  // Destinations read back percent-encoded, as markdown-it normalizes them
+  'images and links whose destinations hold spaces': [[
+    paragraph(
+      { type: 'image', attrs: { src: 'assets/my image (1).png', alt: 'relative' } },
+      { type: 'image', attrs: { src: '/home/jane doe/x.png', alt: 'posix' } },
+      { type: 'image', attrs: { src: 'C:\\Users\\Jane Doe\\assets\\x-1.png', alt: 'windows' } },
+      text('note', [{ type: 'link', attrs: { href: 'notes/my <note>.md' } }]),
+    ),
+  ], [
+    paragraph(
+      { type: 'image', attrs: { src: 'assets/my%20image%20(1).png', alt: 'relative' } },
+      { type: 'image', attrs: { src: '/home/jane%20doe/x.png', alt: 'posix' } },
+      { type: 'image', attrs: { src: 'C:%5CUsers%5CJane%20Doe%5Cassets%5Cx-1.png', alt: 'windows' } },
+      text('note', [{ type: 'link', attrs: { href: 'notes/my%20%3Cnote%3E.md' } }]),
+    ),
+  ]],
+  // Markdown has no way to end a paragraph in a hard break
+  'a hard break ending a paragraph': [[
+    paragraph(text('line'), { type: 'hardBreak' }),
+    paragraph(text('more'), { type: 'hardBreak' }, text(' ')),
+  ], [
+    paragraph(text('line')),
+    paragraph(text('more')),
+  ]],
+};
+
+describe('Markdown round trip', () => {
+  Object.entries(fixtures).forEach(([path, markdown]) => {
+    it(`keeps ${path.slice('./fixtures/'.length)} stable`, () => {
+      const doc = parseMarkdown(schema, markdown);
+      const saved = serializeMarkdown(doc);
+      const reopened = parseMarkdown(schema, saved);
+      expect(reopened.toJSON()).toEqual(doc.toJSON());
+      expect(serializeMarkdown(reopened)).toBe(saved);
+    });
+  });
+
+  it('keeps the task markers of a mixed list', () => {
+    const markdown = '- [ ] open\n- plain\n- [x] done\n';
+    expect(serializeMarkdown(parseMarkdown(schema, markdown))).toBe(markdown);
+  });
+
+  Object.entries(typed).forEach(([name, [content, reopened = content]]) => {
+    it(`saves ${name}`, () => {
+      const saved = serializeMarkdown(schema.nodeFromJSON({ type: 'doc', content }));
+      const expected = schema.nodeFromJSON({ type: 'doc', content: reopened });
+      expect(parseMarkdown(schema, saved).toJSON()).toEqual(expected.toJSON());
+    });
+  });
+});
+
+describe('Source-preserving save', () => {
+  // Save `markdown` after the paragraph at `index` is retyped as `replacement`
+  const saveEdited = (markdown: string, index: number, replacement: string) => {
+    const { doc, source } = parseMarkdownSource(schema, markdown);
+    const edited = schema.nodes.paragraph.create(null, schema.text(replacement));
+    return serializeSourceText(doc.copy(doc.content.replaceChild(index, edited)), source);
+  };
+
+  it('writes untouched blocks as they were', () => {
+    const markdown = 'Title\n=====\n\n* one\n* two\n\nSome _text_\nwrapped.\n';
+    expect(saveEdited(markdown, 2, 'Some text')).toBe('Title\n=====\n\n* one\n* two\n\nSome text\n');
+  });
+
+  it('keeps reference definitions before an edited block in place', () => {
+    const markdown = 'First [link][r].\n\n[r]: http://r.com\n\nLast paragraph.\n';
+    expect(saveEdited(markdown, 1, 'Last words.')).toBe('First [link][r].\n\n[r]: http://r.com\n\nLast words.\n');
+  });
+
+  it('keeps footnote definitions between blocks in place', () => {
+    const markdown = 'P1[^a].\n\n[^a]: one\n\nP2 more.\n';
+    expect(saveEdited(markdown, 1, 'P2 edited.')).toBe('P1[^a].\n\n[^a]: one\n\nP2 edited.\n');
+  });
+
+  it('moves footnote definitions between blocks to the end once one is edited', () => {
+    const markdown = '[^b]: two\n\nP1[^a][^b].\n\n[^a]: one\n\nP2 more.\n';
+    const { doc, source } = parseMarkdownSource(schema, markdown);
+    const footnotes = parseMarkdownSource(schema, 'P1[^a][^b].\n\n[^a]: first\n\n[^b]: two\n').doc.lastChild!;
+    expect(serializeSourceText(doc.copy(doc.content.replaceChild(doc.childCount - 1, footnotes)), source))
+      .toBe('P1[^a][^b].\n\nP2 more.\n\n[^a]: first\n\n[^b]: two\n');
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  MarkdownSerializer,
+  MarkdownSerializerState,
+  defaultMarkdownSerializer,
+} from '@tiptap/pm/markdown';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { WikiLinkAttrs, wikiLinkSource } from './wikiLink';
+import { CalloutAttrs, calloutMarker } from './callout';
+import { mathDollars } from './math';
+import { TASK_MARKER } from './parser';
+
+const defaultNodes = defaultMarkdownSerializer.nodes;
+const defaultMarks = defaultMarkdownSerializer.marks;
+
+// Fence long enough that no backtick run inside the code can close it
+const fenceFor = (code: string) => {
+  const runs = code.match(/`{3,}/g) || [];
+  const longest = runs.reduce((max, run) => Math.max(max, run.length), 2);
+  return '`'.repeat(longest + 1);
+};
+
+// Map a cell alignment onto its GFM delimiter row entry
+const delimiterFor = (align: string | null) => {
+  switch (align) {
+    case 'left':
+      return ':---';
+    case 'center':
+      return ':---:';
+    case 'right':
+      return '---:';
+    default:
+      return '---';
+  }
+};
+
+/**
+ * Render a table cell to a single line of Markdown. GFM cells cannot
+ * hold block content, so multiple paragraphs and hard breaks collapse
+ * into spaces, and pipes are escaped so they do not split the cell.
+ */
+const renderCell = (cell: ProseMirrorNode) => {
+  return markdownSerializer.serialize(cell)
+    .trim()
+    .replace(/\\\n/g, ' ')
+    .replace(/\s*\n\s*/g, ' ')
+    .replace(/\|/g, '\\|');
+};
+
+const renderTable = (state: MarkdownSerializerState, node: ProseMirrorNode) => {
+  const rows: string[][] = [];
+  const aligns: (string | null)[] = [];
+
+  node.forEach(row => {
+    const cells: string[] = [];
+    row.forEach((cell, _offset, index) => {
+      cells.push(renderCell(cell));
+      if (rows.length === 0) {
+        aligns[index] = cell.attrs.align;
+      }
+    });
+    rows.push(cells);
+  });
+
+  if (rows.length === 0) return;
+
+  // GFM requires every table to start with a header row
+  const columnCount = Math.max(...rows.map(cells => cells.length));
+  const line = (cells: string[]) => {
+    const padded = Array.from({ length: columnCount }, (_, i) => cells[i] ?? '');
+    return `| ${padded.join(' | ')} |`;
+  };
+
+  state.write(line(rows[0]));
+  state.ensureNewLine();
+  state.write(line(Array.from({ length: columnCount }, (_, i) => delimiterFor(aligns[i] ?? null))));
+  for (const cells of rows.slice(1)) {
+    state.ensureNewLine();
+    state.write(line(cells));
+  }
+  state.closeBlock(node);
+};
+
+// Link and image destination: in `<>` when it holds whitespace, which would
+// otherwise end it, else with its parentheses escaped
+const destination = (url: string) =>
+  /\s/.test(url) ? `<${url.replace(/[<>]/g, '\\$&')}>` : url.replace(/[()]/g, '\\$&');
+
+const titleSuffix = (title: string | null) => (title ? ` "${title.replace(/"/g, '\\"')}"` : '');
+
+// The `[ ] ` or `[x] ` a bullet list item starts with, when it is plain text
+const taskMarkerOf = (item: ProseMirrorNode) => {
+  const text = item.firstChild?.type.name === 'paragraph' ? item.firstChild.firstChild : null;
+  if (!text?.isText || text.marks.length > 0) return null;
+  return TASK_MARKER.exec(text.text!)?.[0] ?? null;
+};
+
+// State the default serializer keeps internally
+type SerializerInternals = { inAutolink?: boolean; atBlockStart?: boolean };
+
+// `2) ` or `2.` opening a line would read back as an ordered list
+const LIST_NUMBER = /^\s*\d+[.)](?=\s|$)/;
+
+// A paragraph reading `<!-- pagebreak -->` would read back as a page break
+const PAGE_BREAK_TEXT = /^\s*<!--\s*pagebreak\s*-->/i;
+
+// Positions in `text` that need a backslash the default escaping does not
+// give: dollars that would read back as math, and the punctuation of a list
+// number or the `<` of a page break comment at the start of a block
+const escapesIn = (text: string, atBlockStart: boolean) => {
+  const positions = mathDollars(text);
+  const listNumber = atBlockStart && LIST_NUMBER.exec(text);
+  if (listNumber) positions.unshift(listNumber[0].length - 1);
+  if (atBlockStart && PAGE_BREAK_TEXT.test(text)) positions.unshift(text.indexOf('<'));
+  return positions;
+};
+
+/**
+ * GFM serializer for the editor schema. Every node and mark registered in
+ * the `useEditor` extension list must have an entry here.
+ */
+export const markdownSerializer = new MarkdownSerializer({
+  paragraph: defaultNodes.paragraph,
+  // Autolinks (`<url>`) take no escapes; the flags are internal to the serializer
+  text(state, node) {
+    const text = node.text ?? '';
+    const { inAutolink, atBlockStart } = state as unknown as SerializerInternals;
+    if (inAutolink) {
+      state.text(text, false);
+      return;
+    }
+    let start = 0;
+    for (const position of escapesIn(text, atBlockStart ?? false)) {
+      state.text(text.slice(start, position));
+      state.write('\\' + text[position]);
+      start = position + 1;
+    }
+    state.text(text.slice(start));
+  },
+  heading: defaultNodes.heading,
+  blockquote: defaultNodes.blockquote,
+  // GitHub alert syntax: the `[!NOTE]` marker line, then the content
+  callout(state, node) {
+    state.wrapBlock('> ', null, node, () => {
+      state.write(calloutMarker(node.attrs as CalloutAttrs));
+      // A callout with nothing in it is just its marker
+      if (node.childCount > 1 || node.firstChild!.content.size > 0) {
+        state.ensureNewLine();
+        state.renderContent(node);
+      }
+    });
+  },
+  // Front matter keeps its YAML exactly as given; every line ends in a newline
+  frontMatter(state, node) {
+    const yaml: string = node.attrs.yaml;
+    state.write('---\n' + yaml + (yaml && !yaml.endsWith('\n') ? '\n' : '') + '---');
+    state.closeBlock(node);
+  },
+  horizontalRule(state, node) {
+    state.write('---');
+    state.closeBlock(node);
+  },
+  pageBreak(state, node) {
+    state.write('<!-- pagebreak -->');
+    state.closeBlock(node);
+  },
+  // Markdown cannot end a paragraph in a hard break, so one with nothing
+  // but whitespace after it is dropped rather than left as a stray `\`
+  hardBreak(state, node, parent, index) {
+    for (let i = index + 1; i < parent.childCount; i++) {
+      const next = parent.child(i);
+      if (next.type !== node.type && !(next.isText && next.text!.trim() === '')) {
+        state.write('\\\n');
+        return;
+      }
+    }
+  },
+  // A resized image keeps its width after the alt text, `![alt|300](src)`,
+  // the way Obsidian writes it
+  image(state, node) {
+    const alt = state.esc(node.attrs.alt || '') + (node.attrs.width ? `|${node.attrs.width}` : '');
+    state.write(`![${alt}](${destination(node.attrs.src)}${titleSuffix(node.attrs.title)})`);
+  },
+  mathInline(state, node) {
+    const tex: string = node.attrs.tex.trim();
+    if (tex) state.write(`$${tex}$`);
+  },
+  mathBlock(state, node) {
+    state.write('$$\n');
+    state.text(node.attrs.tex, false);
+    state.ensureNewLine();
+    state.write('$$');
+    state.closeBlock(node);
+  },
+  wikiLink(state, node) {
+    state.write(wikiLinkSource(node.attrs as WikiLinkAttrs));
+  },
+  footnoteReference(state, node) {
+    state.write(`[^${node.attrs.label}]`);
+  },
+  // The footnotes section is only a container; each definition is written
+  // as `[^label]: text` with further blocks indented below it
+  footnotes(state, node) {
+    state.renderContent(node);
+  },
+  footnote(state, node) {
+    const label = `[^${node.attrs.label}]:`;
+    if (node.childCount === 1 && node.textContent === '' && node.firstChild!.childCount === 0) {
+      state.write(label);
+      state.closeBlock(node);
+    } else {
+      state.wrapBlock('    ', label + ' ', node, () => state.renderContent(node));
+    }
+  },
+  codeBlock(state, node) {
+    const fence = fenceFor(node.textContent);
+    state.write(fence + (node.attrs.language || '') + '\n');
+    state.text(node.textContent, false);
+    state.ensureNewLine();
+    state.write(fence);
+    state.closeBlock(node);
+  },
+  bulletList(state, node) {
+    state.renderList(node, '  ', () => '- ');
+  },
+  orderedList(state, node) {
+    const start = node.attrs.start || 1;
+    const maxWidth = String(start + node.childCount - 1).length;
+    const space = state.repeat(' ', maxWidth + 2);
+    state.renderList(node, space, i => {
+      const number = String(start + i);
+      return state.repeat(' ', maxWidth - number.length) + number + '. ';
+    });
+  },
+  // In a list mixing tasks and plain items (which GFM allows, but the
+  // editor keeps as a bullet list) the `[ ] ` markers stay unescaped, so
+  // they still show as checkboxes elsewhere
+  listItem(state, node, parent) {
+    const marker = parent.type.name === 'bulletList' ? taskMarkerOf(node) : null;
+    let mixed = false;
+    parent.forEach(item => {
+      mixed ||= !taskMarkerOf(item);
+    });
+    if (!marker || !mixed) {
+      state.renderContent(node);
+      return;
+    }
+    state.write(marker);
+    const paragraph = node.firstChild!;
+    state.renderContent(node.copy(node.content.replaceChild(0, paragraph.cut(marker.length))));
+  },
+  taskList(state, node) {
+    state.renderList(node, '  ', () => '- ');
+  },
+  taskItem(state, node) {
+    state.write(node.attrs.checked ? '[x] ' : '[ ] ');
+    state.renderContent(node);
+  },
+  table: renderTable,
+  tableRow() {
+    // Rendered by the table serializer
+  },
+  tableHeader() {
+    // Rendered by the table serializer
+  },
+  tableCell() {
+    // Rendered by the table serializer
+  },
+}, {
+  bold: defaultMarks.strong,
+  italic: defaultMarks.em,
+  strike: { open: '~~', close: '~~', mixable: true, expelEnclosingWhitespace: true },
+  code: defaultMarks.code,
+  link: {
+    ...defaultMarks.link,
+    // As the default, but with destinations that hold spaces kept intact
+    close(state, mark) {
+      const internals = state as unknown as SerializerInternals;
+      const { inAutolink } = internals;
+      internals.inAutolink = undefined;
+      return inAutolink ? '>' : `](${destination(mark.attrs.href)}${titleSuffix(mark.attrs.title)})`;
+    },
+  },
+});
+
+// Serialize a ProseMirror document to a GFM string
+export const serializeMarkdown = (doc: ProseMirrorNode): string => {
+  const markdown = markdownSerializer.serialize(doc, { tightLists: true });
+  return markdown ? markdown + '\n' : '';
+};
+
+// Serialize a single top-level block, without surrounding blank lines
+export const serializeBlock = (node: ProseMirrorNode): string => {
+  const doc = node.type.schema.topNodeType.create(null, node);
+  return markdownSerializer.serialize(doc, { tightLists: true });
+};
@@ -0,0 +1,304 @@
+import { Node as ProseMirrorNode, Schema } from '@tiptap/pm/model';
+import { getMarkdownParser } from './parser';
+import { serializeBlock, serializeMarkdown } from './serializer';
+
+// One top-level block of the original file
+export interface SourceBlock {
+  text: string;     // Exact source text of the block
+  markdown: string; // What the serializer produces for the parsed block
+  // Source text of footnote definitions written between other blocks. They
+  // are gathered into one footnotes section, whose own `text` is empty: the
+  // definitions stay where they were, in the gaps
+  definitions?: string[];
+}
+
+/**
+ * Original layout of a Markdown file, used to write untouched blocks back
+ * exactly as they were. The file is `gaps[0] + blocks[0].text + gaps[1] +
+ * ... + blocks[n - 1].text + gaps[n]`; gaps hold blank lines and anything
+ * that produces no block of its own, like reference link definitions.
+ */
+export interface MarkdownSource {
+  blocks: SourceBlock[];
+  gaps: string[];
+  lineEnding: '\n' | '\r\n';
+  bom: boolean;
+}
+
+// Above this many comparisons, skip aligning the edited middle of a document
+const MAX_ALIGNMENT_CELLS = 1_000_000;
+
+/**
+ * Parse Markdown into a document and record the source span of each
+ * top-level block. `source` is null when blocks and nodes cannot be
+ * matched up one to one, in which case saving re-serializes everything.
+ */
+export const parseMarkdownSource = (schema: Schema, markdown: string) => {
+  const bom = markdown.startsWith('\uFEFF');
+  const lineEnding: MarkdownSource['lineEnding'] = /\r\n/.test(markdown) ? '\r\n' : '\n';
+  const text = (bom ? markdown.slice(1) : markdown).replace(/\r\n?/g, '\n');
+
+  const parser = getMarkdownParser(schema);
+  const doc = parser.parse(text);
+  const tokens = parser.tokenizer.parse(text, {});
+
+  const lines = text.split('\n');
+  const lineStarts: number[] = [];
+  let offset = 0;
+  for (const line of lines) {
+    lineStarts.push(offset);
+    offset += line.length + 1;
+  }
+
+  const spanOf = ([startLine, endLine]: [number, number]): [number, number] => {
+    let lastLine = endLine;
+    // Lists and indented code swallow trailing blank lines; leave them to the gap
+    while (lastLine > startLine + 1 && lines[lastLine - 1].trim() === '') {
+      lastLine--;
+    }
+    return [lineStarts[startLine], lineStarts[lastLine - 1] + lines[lastLine - 1].length];
+  };
+
+  // Top-level block tokens carry the [startLine, endLine) they came from. A
+  // footnotes section has none when its definitions were spread out
+  const spans: [number, number][] = [];
+  let definitions: [number, number][] | null = null;
+  for (const token of tokens) {
+    if (token.type === 'footnotes_open' && !token.map) {
+      definitions = [];
+    } else if (definitions && token.type === 'footnote_open' && token.map) {
+      definitions.push(spanOf(token.map));
+    }
+    if (token.level !== 0 || token.nesting === -1 || !token.map) continue;
+    spans.push(spanOf(token.map));
+  }
+
+  if (definitions) {
+    // Definitions inside a quote or list cannot be told apart from it
+    if (definitions.some(([start]) => spans.some(([blockStart, blockEnd]) => start >= blockStart && start < blockEnd))) {
+      return { doc, source: null };
+    }
+    const end = spans.length > 0 ? spans[spans.length - 1][1] : 0;
+    spans.push([end, end]);
+  }
+
+  if (spans.length !== doc.childCount) {
+    return { doc, source: null };
+  }
+
+  const blocks: SourceBlock[] = [];
+  const gaps: string[] = [];
+  let previousEnd = 0;
+  spans.forEach(([start, end], index) => {
+    gaps.push(text.slice(previousEnd, start));
+    blocks.push({ text: text.slice(start, end), markdown: serializeBlock(doc.child(index)) });
+    previousEnd = end;
+  });
+  gaps.push(text.slice(previousEnd));
+  if (definitions) {
+    blocks[blocks.length - 1].definitions = definitions.map(([start, end]) => text.slice(start, end));
+  }
+
+  const source: MarkdownSource = { blocks, gaps, lineEnding, bom };
+  return { doc, source };
+};
+
+/**
+ * Pair up current blocks with original blocks that serialize identically,
+ * keeping their order (longest common subsequence). Returns, for each
+ * current block, the index of its original block or -1.
+ */
+const alignBlocks = (current: string[], original: string[]) => {
+  const matches: number[] = current.map(() => -1);
+
+  // Edits are usually local, so match the common prefix and suffix directly
+  let prefix = 0;
+  while (prefix < current.length && prefix < original.length && current[prefix] === original[prefix]) {
+    matches[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < current.length - prefix &&
+    suffix < original.length - prefix &&
+    current[current.length - 1 - suffix] === original[original.length - 1 - suffix]
+  ) {
+    matches[current.length - 1 - suffix] = original.length - 1 - suffix;
+    suffix++;
+  }
+
+  const rows = current.length - prefix - suffix;
+  const columns = original.length - prefix - suffix;
+  if (rows === 0 || columns === 0 || rows * columns > MAX_ALIGNMENT_CELLS) {
+    return matches;
+  }
+
+  // lengths[i][j] = LCS length of current[prefix + i..] and original[prefix + j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Array<number>(columns + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] = current[prefix + i] === original[prefix + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (current[prefix + i] === original[prefix + j]) {
+      matches[prefix + i] = prefix + j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+};
+
+/**
+ * Pair edited blocks with the original blocks they replace. Where a run of
+ * unmatched blocks sits between two matched ones (or an end of the
+ * document) and the original had as many blocks there, each stands in for
+ * its original one, so the gaps around it can be kept. Returns, for each
+ * current block, the index of the original block it replaces or -1.
+ */
+const replacedBlocks = (matches: number[], originalCount: number) => {
+  const replaces: number[] = matches.map(() => -1);
+  let runStart = 0;
+  let previous = -1;
+  for (let index = 0; index <= matches.length; index++) {
+    const original = index < matches.length ? matches[index] : originalCount;
+    if (original === -1) continue;
+    if (index - runStart === original - previous - 1) {
+      for (let i = runStart; i < index; i++) {
+        replaces[i] = previous + 1 + i - runStart;
+      }
+    }
+    previous = original;
+    runStart = index + 1;
+  }
+  return replaces;
+};
+
+// Keep the non-blank lines (reference definitions) of gaps that are being dropped
+const definitionsIn = (gaps: string[], from: number, to: number) => {
+  return gaps
+    .slice(from, to + 1)
+    .join('\n')
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .join('\n');
+};
+
+// Drop footnote definitions from a gap, with the blank lines setting them apart
+const withoutDefinitions = (gap: string, definitions: string[]) => {
+  return definitions.reduce((rest, definition) => {
+    const at = rest.indexOf(definition);
+    if (at < 0) return rest;
+    let start = at;
+    let end = at + definition.length;
+    if (at === 0) {
+      while (rest[end] === '\n') end++;
+    } else {
+      while (start > 0 && rest[start - 1] === '\n') start--;
+    }
+    return rest.slice(0, start) + rest.slice(end);
+  }, gap);
+};
+
+/**
+ * Serialize a document, copying the original text of every top-level
+ * block that is unchanged since the file was read. Only edited or new
+ * blocks are written by the serializer, so a small edit stays a small diff.
+ * The result uses `\n` line endings and no byte order mark.
+ */
+export const serializeSourceText = (doc: ProseMirrorNode, source: MarkdownSource | null): string => {
+  if (!source) {
+    return serializeMarkdown(doc);
+  }
+
+  const { blocks } = source;
+  const current: string[] = [];
+  doc.forEach(node => {
+    current.push(serializeBlock(node));
+  });
+  const matches = alignBlocks(current, blocks.map(block => block.markdown));
+
+  // Footnote definitions spread between blocks stay there while the
+  // footnotes are unchanged; otherwise the section is written out anew
+  const scattered = blocks.findIndex(block => block.definitions);
+  const gaps = scattered === -1 || matches.includes(scattered)
+    ? source.gaps
+    : source.gaps.map(gap => withoutDefinitions(gap, blocks[scattered].definitions!));
+  const replaces = replacedBlocks(matches, blocks.length)
+    .map(original => (original === scattered ? -1 : original));
+
+  let out = '';
+  let lastOriginal = -1;
+  let previousWasOriginal = true;
+
+  // Separator before a block when the original one cannot be reused
+  const separator = (definitions: string) => {
+    if (out === '') {
+      return definitions ? definitions + '\n\n' : '';
+    }
+    return definitions ? '\n\n' + definitions + '\n\n' : '\n\n';
+  };
+
+  current.forEach((markdown, index) => {
+    const unchanged = matches[index] !== -1;
+    // A block edited in place keeps the original's gaps, and any reference
+    // definitions in them, where they were
+    const original = unchanged ? matches[index] : markdown !== '' ? replaces[index] : -1;
+
+    if (original !== -1) {
+      const before = previousWasOriginal && original === lastOriginal + 1
+        ? gaps[original]
+        : separator(definitionsIn(gaps, lastOriginal + 1, original));
+      // Spread out footnotes have no text of their own to set apart
+      out += original === scattered ? before.trimEnd() : before;
+      out += unchanged ? blocks[original].text : markdown;
+      lastOriginal = original;
+      previousWasOriginal = true;
+    } else if (markdown !== '') {
+      out += separator('');
+      out += markdown;
+      previousWasOriginal = false;
+    }
+  });
+
+  if (previousWasOriginal && lastOriginal === blocks.length - 1) {
+    out += gaps[blocks.length];
+  } else {
+    const definitions = definitionsIn(gaps, lastOriginal + 1, blocks.length);
+    if (definitions) {
+      out += separator(definitions).trimEnd();
+    }
+    // Keep the file's final newline convention
+    if (gaps[blocks.length].includes('\n') || blocks.length === 0) {
+      out += '\n';
+    }
+  }
+
+  return out;
+};
+
+// Serialize for writing to disk, in the file's original line endings
+export const serializeWithSource = (doc: ProseMirrorNode, source: MarkdownSource | null): string => {
+  let out = serializeSourceText(doc, source);
+  if (source?.lineEnding === '\r\n') {
+    out = out.replace(/\n/g, '\r\n');
+  }
+  return (source?.bom ? '\uFEFF' : '') + out;
+};
+
+// Carry the line endings and byte order mark of a file over to a new layout
+export const keepFileFormat = (source: MarkdownSource | null, previous: MarkdownSource | null) => {
+  if (!source || !previous) return source;
+  return { ...source, lineEnding: previous.lineEnding, bom: previous.bom };
+};
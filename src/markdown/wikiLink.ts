@@ -0,0 +1,33 @@
+// What a `[[Note#Heading|label]]` link points at and shows
+export interface WikiLinkAttrs {
+  target: string;         // Note name or relative path; empty for a heading in the same note
+  anchor: string | null;  // Heading text
+  label: string | null;
+}
+
+// `[[Note#Heading|label]]` at the start of `text`; in tables the pipe is written `\|`
+const WIKI_LINK_START = /^\[\[([^[\]\n|#]*)(?:#([^[\]\n|]*))?(?:\\?\|([^[\]\n]*))?\]\]/;
+
+// The wiki link at the start of `text` and its length in the source, or
+// null if there is none or it names nothing
+export const matchWikiLink = (text: string): { attrs: WikiLinkAttrs; length: number } | null => {
+  const match = WIKI_LINK_START.exec(text);
+  if (!match) return null;
+  const [source, target, anchor, label] = match;
+  const attrs = { target: target.trim(), anchor: anchor?.trim() || null, label: label?.trim() || null };
+  return attrs.target || attrs.anchor ? { attrs, length: source.length } : null;
+};
+
+// Attributes of the `[[…]]` source, or null if it is not a whole wiki link
+export const parseWikiLink = (source: string) => {
+  const match = matchWikiLink(source);
+  return match && match.length === source.length ? match.attrs : null;
+};
+
+// How a wiki link is written in Markdown
+export const wikiLinkSource = ({ target, anchor, label }: WikiLinkAttrs) =>
+  `[[${target}${anchor ? `#${anchor}` : ''}${label ? `|${label}` : ''}]]`;
+
+// Text a wiki link shows in the document
+export const wikiLinkText = ({ target, anchor, label }: WikiLinkAttrs) =>
+  label || (anchor ? `${target}#${anchor}` : target);
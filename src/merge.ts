@@ -0,0 +1,119 @@
+// Above this many comparisons, treat the changed middle of two texts as unmatched
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Match the lines of `a` against the lines of `b` (longest common
+ * subsequence). Returns, for each line of `a`, the index of its matching
+ * line in `b` or -1.
+ */
+export const matchLines = (a: string[], b: string[]) => {
+  const matches: number[] = a.map(() => -1);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    matches[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    matches[a.length - 1 - suffix] = b.length - 1 - suffix;
+    suffix++;
+  }
+
+  const rows = a.length - prefix - suffix;
+  const columns = b.length - prefix - suffix;
+  if (rows === 0 || columns === 0 || rows * columns > MAX_DIFF_CELLS) {
+    return matches;
+  }
+
+  // lengths[i][j] = LCS length of a[prefix + i..] and b[prefix + j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] = a[prefix + i] === b[prefix + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (a[prefix + i] === b[prefix + j]) {
+      matches[prefix + i] = prefix + j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+};
+
+const sameLines = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+export interface MergeResult {
+  text: string;       // Merged text, with conflict markers where both sides changed
+  conflicts: number;  // Number of conflicting regions
+}
+
+/**
+ * Three-way line merge of two edited versions of `base`. Regions changed
+ * on only one side take that side's lines; regions changed differently on
+ * both sides are written out between Git-style conflict markers.
+ */
+export const mergeText = (
+  base: string,
+  mine: string,
+  theirs: string,
+  labels = { mine: 'Yours', theirs: 'On disk' }
+): MergeResult => {
+  const baseLines = base.split('\n');
+  const mineLines = mine.split('\n');
+  const theirLines = theirs.split('\n');
+  const toMine = matchLines(baseLines, mineLines);
+  const toTheirs = matchLines(baseLines, theirLines);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  for (;;) {
+    // Next base line kept by both sides; everything before it is a changed region
+    let n = i;
+    while (n < baseLines.length && (toMine[n] === -1 || toTheirs[n] === -1)) n++;
+    const a = n < baseLines.length ? toMine[n] : mineLines.length;
+    const b = n < baseLines.length ? toTheirs[n] : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, n);
+    const mineChunk = mineLines.slice(j, a);
+    const theirChunk = theirLines.slice(k, b);
+
+    if (sameLines(mineChunk, baseChunk) || sameLines(mineChunk, theirChunk)) {
+      out.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      out.push(...mineChunk);
+    } else {
+      conflicts++;
+      out.push(`<<<<<<< ${labels.mine}`, ...mineChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+    }
+
+    if (n === baseLines.length) break;
+    out.push(baseLines[n]);
+    i = n + 1;
+    j = a + 1;
+    k = b + 1;
+  }
+
+  return { text: out.join('\n'), conflicts };
+};
@@ -0,0 +1,107 @@
+import { FileMatches, searchFiles } from './fileSearch';
+import { isMarkdownFile, linkedFilePath } from './links';
+import { TreeEntry, baseName, isWithin, parentPath, readWorkspace } from './workspace';
+
+// A Markdown file that wiki links can name
+export interface Note {
+  name: string;      // File name without its extension, e.g. "Meeting Notes"
+  path: string;
+  relative: string;  // Below the note folder, without the extension: "projects/Meeting Notes"
+}
+
+// Folder whose notes wiki links can name: the workspace when the document is
+// in it, otherwise the document's own folder
+export const noteFolder = (documentPath: string | null, workspaceRoot: string | null) => {
+  if (!documentPath) return workspaceRoot;
+  return workspaceRoot && isWithin(documentPath, workspaceRoot) ? workspaceRoot : parentPath(documentPath);
+};
+
+const withoutExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Every Markdown file below the note folder
+export const readNotes = async (root: string): Promise<Note[]> => {
+  const notes: Note[] = [];
+  const visit = (entries: TreeEntry[], prefix: string) => {
+    for (const entry of entries) {
+      if (entry.isDir) {
+        visit(entry.children, `${prefix}${entry.name}/`);
+      } else if (isMarkdownFile(entry.name)) {
+        const name = withoutExtension(entry.name);
+        notes.push({ name, path: entry.path, relative: prefix + name });
+      }
+    }
+  };
+  visit(await readWorkspace(root, false), '');
+  return notes;
+};
+
+// The note a wiki link names: the one at that relative path, or else the
+// nearest one with that name. Names are matched without regard to case
+export const resolveNote = (notes: Note[], target: string): Note | null => {
+  const wanted = withoutExtension(target.trim().replace(/\\/g, '/')).toLowerCase();
+  if (!wanted) return null;
+  const byPath = notes.find(note => note.relative.toLowerCase() === wanted);
+  if (byPath) return byPath;
+  const name = wanted.slice(wanted.lastIndexOf('/') + 1);
+  const named = notes.filter(note => note.name.toLowerCase() === name);
+  return named.sort((a, b) => a.relative.split('/').length - b.relative.split('/').length)[0] ?? null;
+};
+
+// How a wiki link names a note: its bare name, or its relative path when
+// another note shares the name
+export const noteTarget = (notes: Note[], note: Note) =>
+  notes.some(other => other !== note && other.name.toLowerCase() === note.name.toLowerCase())
+    ? note.relative
+    : note.name;
+
+// ========== Backlinks ==========
+const WIKI_LINK = /\[\[([^[\]\n|#]*)(?:#[^[\]\n|]*)?(?:\\?\|[^[\]\n]*)?\]\]/g;
+const MARKDOWN_LINK = /\]\(\s*<?([^)\s>]+)/g;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whether a line of `source` holds a wiki or Markdown link to `documentPath`
+const linksTo = (line: string, source: string, documentPath: string, notes: Note[]) => {
+  for (const [, target] of line.matchAll(WIKI_LINK)) {
+    const note = target.trim() ? resolveNote(notes, target) : null;
+    if (note?.path === documentPath) return true;
+  }
+  for (const [, href] of line.matchAll(MARKDOWN_LINK)) {
+    try {
+      const path = href.split('#')[0];
+      if (path && linkedFilePath(path, source) === documentPath) return true;
+    } catch {
+      // Malformed escapes link nowhere
+    }
+  }
+  return false;
+};
+
+// Lines in other notes that link to a document, by wiki link or by
+// Markdown link, grouped by file
+export const findBacklinks = async (root: string, documentPath: string, notes: Note[]): Promise<FileMatches[]> => {
+  const file = baseName(documentPath);
+  const name = escapeRegex(withoutExtension(file));
+  // Candidate lines; the Tauri side searches, the links are resolved here
+  const search = `\\[\\[[^\\]]*${name}|\\]\\([^)]*(?:${escapeRegex(file)}|${escapeRegex(encodeURI(file))})`;
+  const results = await searchFiles({
+    root,
+    search,
+    caseSensitive: false,
+    regex: true,
+    wholeWord: false,
+    include: [],
+    exclude: [],
+  });
+  return results.files
+    .filter(result => result.path !== documentPath)
+    .map(result => ({
+      path: result.path,
+      // One entry per line, however many links it has
+      matches: result.matches.filter((match, index, matches) =>
+        (index === 0 || matches[index - 1].line !== match.line) &&
+        linksTo(match.text, result.path, documentPath, notes)
+      ),
+    }))
+    .filter(result => result.matches.length > 0);
+};
@@ -0,0 +1,45 @@
+import type { ViewMode } from './components/Toolbar';
+
+// Persisted open-tab session, restored on the next launch
+const SESSION_KEY = 'docmarkings-session';
+
+// One open tab as stored in the session
+export interface SessionTab {
+  id: string;
+  title: string;
+  filePath: string | null;
+  baseDir?: string | null; // Folder of an imported, not yet saved document
+  viewMode: ViewMode;
+  draft: string | null;   // Markdown of changes not written to disk (null when clean)
+  cursor: number;         // Selection head in the document
+  scrollTop: number;      // Rich view scroll offset
+}
+
+export interface Session {
+  tabs: SessionTab[];
+  activeTabId: string;
+}
+
+// Read the session left by the previous run, if any
+export const loadSession = (): Session | null => {
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    if (!saved) return null;
+    const session = JSON.parse(saved) as Session;
+    return Array.isArray(session.tabs) ? session : null;
+  } catch (error) {
+    console.error('Error loading session:', error);
+    return null;
+  }
+};
+
+// Store the session; false when it could not be written (e.g. storage is full)
+export const saveSession = (session: Session) => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    return true;
+  } catch (error) {
+    console.error('Error saving session:', error);
+    return false;
+  }
+};
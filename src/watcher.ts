@@ -0,0 +1,20 @@
+import { invoke } from '@tauri-apps/api/tauri';
+import { listen } from '@tauri-apps/api/event';
+
+// What happened to a watched file, as reported by the Tauri side
+export interface FileChange {
+  path: string;                                  // Path as passed to watchFiles
+  kind: 'modified' | 'removed' | 'renamed';
+  newPath: string | null;                        // Destination of a rename
+}
+
+// Watch exactly these files for changes made by other programs
+export const watchFiles = (paths: string[]) =>
+  invoke<void>('watch_files', { paths });
+
+// Last modification time of a file (ms since epoch), or null if it does not exist
+export const fileMtime = (path: string) =>
+  invoke<number | null>('file_mtime', { path });
+
+export const onFileChanged = (handler: (change: FileChange) => void) =>
+  listen<FileChange>('file-changed', event => handler(event.payload));
@@ -0,0 +1,113 @@
+import { invoke } from '@tauri-apps/api/tauri';
+import { listen } from '@tauri-apps/api/event';
+
+// A file or folder in the workspace tree
+export interface TreeEntry {
+  name: string;
+  path: string;
+  isDir: boolean;
+  children: TreeEntry[];  // Empty for files
+}
+
+export interface WorkspaceSettings {
+  root: string | null;   // Folder open as the workspace
+  showImages: boolean;   // List images in the tree as well as documents
+  expanded: string[];    // Folders opened in the tree
+}
+
+const WORKSPACE_KEY = 'docmarkings-workspace';
+
+export const DEFAULT_WORKSPACE: WorkspaceSettings = { root: null, showImages: false, expanded: [] };
+
+export const loadWorkspaceSettings = (): WorkspaceSettings => {
+  try {
+    const saved = localStorage.getItem(WORKSPACE_KEY);
+    return saved ? { ...DEFAULT_WORKSPACE, ...JSON.parse(saved) } : DEFAULT_WORKSPACE;
+  } catch (error) {
+    console.error('Error loading workspace settings:', error);
+    return DEFAULT_WORKSPACE;
+  }
+};
+
+export const saveWorkspaceSettings = (settings: WorkspaceSettings) => {
+  try {
+    localStorage.setItem(WORKSPACE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving workspace settings:', error);
+  }
+};
+
+// Documents (and optionally images) under the folder, skipping hidden and .gitignored entries
+export const readWorkspace = (root: string, includeImages: boolean) =>
+  invoke<TreeEntry[]>('read_workspace', { root, includeImages });
+
+// Create an empty file or folder; fails if the path exists
+export const createEntry = (path: string, directory: boolean) =>
+  invoke<void>('create_entry', { path, directory });
+
+// Rename or move a file or folder; fails if the destination exists
+export const moveEntry = (from: string, to: string) =>
+  invoke<void>('move_entry', { from, to });
+
+// Copy a file or folder next to itself, returning the copy's path
+export const duplicateEntry = (path: string) =>
+  invoke<string>('duplicate_entry', { path });
+
+// Move a file or folder to the system trash
+export const trashEntry = (path: string) =>
+  invoke<void>('trash_entry', { path });
+
+// Watch the workspace for added, removed and renamed entries (null stops watching)
+export const watchWorkspace = (root: string | null) =>
+  invoke<void>('watch_workspace', { root });
+
+export const onWorkspaceChanged = (handler: () => void) =>
+  listen('workspace-changed', () => handler());
+
+// ========== Path Helpers ==========
+const separatorOf = (path: string) => path.includes('\\') ? '\\' : '/';
+
+export const joinPath = (dir: string, name: string) =>
+  dir.endsWith(separatorOf(dir)) ? dir + name : dir + separatorOf(dir) + name;
+
+export const parentPath = (path: string) =>
+  path.slice(0, Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')));
+
+export const baseName = (path: string) =>
+  path.slice(Math.max(path.lastIndexOf('/'), path.lastIndexOf('\\')) + 1);
+
+// Whether `path` is `dir` itself or somewhere below it
+export const isWithin = (path: string, dir: string) =>
+  path === dir || path.startsWith(dir + separatorOf(dir));
+
+// Where `path` ends up after `from` moves to `to`, or null if it is not within `from`
+export const movedPath = (path: string, from: string, to: string) => {
+  if (!isWithin(path, from)) return null;
+  return path === from ? to : to + path.slice(from.length);
+};
+
+// Absolute form of `path` written relative to `dir`, with `.` and `..` resolved
+export const resolvePath = (dir: string, path: string) => {
+  if (/^([a-z]:)?[\\/]/i.test(path)) return path;
+  const separator = separatorOf(dir);
+  const parts = dir.replace(/[\\/]+$/, '').split(/[\\/]/);
+  path.split(/[\\/]/).forEach(part => {
+    if (part === '..') {
+      if (parts.length > 1) parts.pop();
+    } else if (part && part !== '.') {
+      parts.push(part);
+    }
+  });
+  return parts.join(separator);
+};
+
+// File behind an image source, or null for web and data URLs (and relative
+// paths in a document that has no folder yet)
+export const localImagePath = (src: string, baseDir: string | null) => {
+  if (src.startsWith('file://')) return decodeURI(src.slice('file://'.length));
+  // URL schemes, but not Windows drive letters
+  if (/^[a-z][a-z0-9+.-]+:/i.test(src)) return null;
+  const path = decodeURI(src);
+  if (/^([a-z]:)?[\\/]/i.test(path)) return path;
+  return baseDir ? resolvePath(baseDir, path) : null;
+};